@@ -0,0 +1,134 @@
+// ---------------------------------------------------------------------------
+// Matcher benchmark
+// ---------------------------------------------------------------------------
+// Runs every command in corpus.txt through evaluateToolCall as a bash call,
+// the same path the plugin takes in tool.execute.before, and reports
+// per-call latency. Policies: the defaults, and the defaults plus thousands
+// of synthetic team rules and paths. Exits with 1 when the mean latency of
+// a policy is over the budget.
+//
+//   npm run bench [-- <rounds>]
+// ---------------------------------------------------------------------------
+
+import { readFileSync } from 'node:fs'
+import { performance } from 'node:perf_hooks'
+import {
+  DEFAULT_PATTERNS,
+  DEFAULT_PROTECTED_PATHS,
+  DEFAULT_PATH_EXCEPTIONS,
+  compilePaths,
+  compilePatterns,
+  type ProtectedPath,
+  type Rule,
+} from '../src/patterns.js'
+import { DEFAULT_TOOL_ARGS } from '../src/tools.js'
+import { compileSecrets, DEFAULT_SECRET_ALLOWLIST, DEFAULT_SECRET_DETECTORS } from '../src/secrets.js'
+import { compileVariables, DEFAULT_PROTECTED_VARIABLES } from '../src/env.js'
+import { compileEgress, DEFAULT_EGRESS_ALLOW, DEFAULT_EGRESS_RULES } from '../src/egress.js'
+import { compileToolRules, DEFAULT_TOOL_RULES } from '../src/mcp.js'
+import { DEFAULT_SQL_ACTIONS } from '../src/sql.js'
+import { compileKubeContexts, DEFAULT_KUBE_CONTEXTS } from '../src/kube.js'
+import { compileCloud, DEFAULT_CLOUD_ENVIRONMENTS, DEFAULT_CLOUD_IDENTITIES } from '../src/cloud.js'
+import { compileDatabases, DEFAULT_DATABASE_ENVIRONMENTS, DEFAULT_DATABASE_HOSTS } from '../src/database.js'
+import { evaluateToolCall, type Policy } from '../src/evaluate.js'
+
+const ROUNDS = Number(process.argv[2]) || 100
+const DIRECTORY = '/work/project'
+
+const corpus = readFileSync(new URL('./corpus.txt', import.meta.url), 'utf-8')
+  .split('\n')
+  .map((line) => line.trim())
+  .filter((line) => line && !line.startsWith('#'))
+
+/** Team policy of `size` rules and `size` paths, none matching the corpus */
+function syntheticPolicy(size: number): { patterns: Rule[]; paths: ProtectedPath[] } {
+  const patterns: Rule[] = []
+  const paths: ProtectedPath[] = []
+  for (let i = 0; i < size; i++) {
+    switch (i % 4) {
+      case 0:
+        patterns.push({ pattern: `\\bteamctl-${i}\\s+(?:delete|purge)\\b`, reason: `rule ${i}`, action: 'block' })
+        paths.push({ path: `internal-${i}.cfg`, level: 'zeroAccess' })
+        break
+      case 1:
+        patterns.push({ pattern: `svc${i}\\s+--drop`, reason: `rule ${i}`, action: 'ask', scope: 'command' })
+        paths.push({ path: `/srv/team-${i}/`, level: 'readOnly' })
+        break
+      case 2:
+        patterns.push({ command: `deployer-${i}`, subcommand: ['rollback'], reason: `rule ${i}`, action: 'ask' })
+        paths.push({ path: `services/svc-${i}/**/secrets/*.json`, level: 'zeroAccess' })
+        break
+      default:
+        patterns.push({ pattern: `DELETE\\s+FROM\\s+tenant_${i}\\b`, reason: `rule ${i}`, action: 'block' })
+        paths.push({ path: `*.team${i}`, level: 'noDelete' })
+    }
+  }
+  return { patterns, paths }
+}
+
+/** The default policy, with `extra` rules and paths, compiled as the plugin compiles it */
+function compilePolicy(extra: { patterns: Rule[]; paths: ProtectedPath[] } = { patterns: [], paths: [] }): Policy {
+  return {
+    patterns: compilePatterns([...DEFAULT_PATTERNS, ...extra.patterns]),
+    paths: compilePaths([...DEFAULT_PROTECTED_PATHS, ...extra.paths]),
+    exceptions: compilePaths(DEFAULT_PATH_EXCEPTIONS),
+    secrets: compileSecrets(DEFAULT_SECRET_DETECTORS, DEFAULT_SECRET_ALLOWLIST),
+    variables: compileVariables(DEFAULT_PROTECTED_VARIABLES),
+    egress: compileEgress(DEFAULT_EGRESS_RULES, DEFAULT_EGRESS_ALLOW),
+    toolRules: compileToolRules(DEFAULT_TOOL_RULES),
+    sql: DEFAULT_SQL_ACTIONS,
+    kube: compileKubeContexts(DEFAULT_KUBE_CONTEXTS),
+    cloud: compileCloud(DEFAULT_CLOUD_IDENTITIES, DEFAULT_CLOUD_ENVIRONMENTS),
+    databases: compileDatabases(DEFAULT_DATABASE_HOSTS, DEFAULT_DATABASE_ENVIRONMENTS),
+  }
+}
+
+function check(command: string, policy: Policy): void {
+  evaluateToolCall('bash', { command }, DEFAULT_TOOL_ARGS, policy, DIRECTORY)
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length * p) / 100))]
+}
+
+/** Mean latency per call, in ms, that every policy must stay under */
+const BUDGET_MS = 1
+const WARMUP_ROUNDS = 10
+
+/** Time every command of the corpus under `policy`; returns the mean */
+function run(name: string, policy: Policy): number {
+  const samples: number[] = []
+  for (let round = 0; round < ROUNDS; round++) {
+    for (const command of corpus) {
+      const start = performance.now()
+      check(command, policy)
+      samples.push(performance.now() - start)
+    }
+  }
+  samples.sort((a, b) => a - b)
+  const mean = samples.reduce((a, b) => a + b, 0) / samples.length
+  const ms = (n: number) => `${n.toFixed(3)}ms`.padStart(10)
+  const columns = [mean, percentile(samples, 50), percentile(samples, 99), samples[samples.length - 1]]
+  console.log(`${name.padEnd(36)}${columns.map(ms).join('')}`)
+  return mean
+}
+
+const policies: [string, Policy][] = [
+  ['defaults', compilePolicy()],
+  ...[1000, 5000].map((size): [string, Policy] => [`defaults + ${size} rules and paths`, compilePolicy(syntheticPolicy(size))]),
+]
+
+// The plugin is long-lived: warm every policy up before measuring any, so
+// the first one measured does not also pay for the JIT
+for (const [, policy] of policies) {
+  for (let round = 0; round < WARMUP_ROUNDS; round++) for (const command of corpus) check(command, policy)
+}
+
+console.log(`${corpus.length} commands x ${ROUNDS} rounds, budget ${BUDGET_MS}ms mean\n`)
+console.log(`${'policy'.padEnd(36)}${['mean', 'p50', 'p99', 'max'].map((h) => h.padStart(10)).join('')}`)
+
+const over = policies.filter(([name, policy]) => run(name, policy) > BUDGET_MS).map(([name]) => name)
+if (over.length > 0) {
+  console.error(`\nOver the ${BUDGET_MS}ms budget: ${over.join(', ')}`)
+  process.exitCode = 1
+}
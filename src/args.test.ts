@@ -0,0 +1,147 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseShellCommand } from './shell.js'
+import { MAX_SCRIPT_BYTES } from './scripts.js'
+import {
+  commandVariables,
+  compilePatternOverrides,
+  nameRegex,
+  parseArgs,
+  patternOverride,
+  readConfigFile,
+  stepVariables,
+} from './args.js'
+
+// ---------------------------------------------------------------------------
+// nameRegex
+// ---------------------------------------------------------------------------
+
+describe('nameRegex', () => {
+  const cases: [string, string, boolean, string?][] = [
+    ['prod-*', 'PROD-eu', true],
+    ['prod-*', 'preprod-eu', false],
+    ['*_delete_*', 'mcp__github__delete_file', true],
+    ['db?.internal', 'db1.internal', true],
+    ['db?.internal', 'db1xinternal', false],
+    ['*_TOKEN', 'GITHUB_TOKEN', true, '\\w'],
+    ['*_TOKEN', 'A-B_TOKEN', false, '\\w'],
+  ]
+
+  for (const [glob, name, expected, char] of cases) {
+    it(`should ${expected ? 'match' : 'not match'}: ${glob} ${name}`, () => {
+      assert.equal(nameRegex(glob, char).test(name), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// parseArgs
+// ---------------------------------------------------------------------------
+
+describe('parseArgs', () => {
+  const values = new Set(['-n', '--context', '-h'])
+  const cases: [string[], string[], [string, string | true][]][] = [
+    [['get', 'pods', '-n', 'prod'], ['get', 'pods'], [['-n', 'prod']]],
+    [['--context=prod', 'delete', 'ns', 'x'], ['delete', 'ns', 'x'], [['--context', 'prod']]],
+    [['-nprod', '-n=staging'], [], [['-n', 'staging']]],
+    [['-hdb', '-w', 'app'], ['app'], [['-h', 'db'], ['-w', true]]],
+    [['x', '--', '-n', 'y'], ['x'], []],
+  ]
+
+  for (const [args, operands, flags] of cases) {
+    it(`should parse: ${args.join(' ')}`, () => {
+      const parsed = parseArgs(args, values)
+      assert.deepStrictEqual(parsed.operands, operands)
+      assert.deepStrictEqual([...parsed.flags], flags)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// commandVariables / stepVariables
+// ---------------------------------------------------------------------------
+
+describe('stepVariables', () => {
+  /** The value of `name` each step of `command` sees; '-' for assignments and exports */
+  const seen = (command: string, name: string, env: Record<string, string> = {}) => {
+    const vars = commandVariables(env)
+    return parseShellCommand(command).map((segment) => {
+      const own = stepVariables(vars, segment)
+      return own ? own[name] : '-'
+    })
+  }
+
+  it('should start from the environment', () => {
+    assert.deepStrictEqual(seen('psql', 'PGHOST', { PGHOST: 'db' }), ['db'])
+  })
+
+  it('should keep assignments and exports for later steps', () => {
+    assert.deepStrictEqual(seen('PGHOST=a; psql; export PGHOST=b && psql', 'PGHOST'), ['-', 'a', '-', 'b'])
+  })
+
+  it('should apply inline assignments to their step only', () => {
+    assert.deepStrictEqual(seen('PGHOST=a psql; env PGHOST=b psql; psql', 'PGHOST', { PGHOST: 'c' }), ['a', 'b', 'c'])
+  })
+
+  it('should unset variables whose value is not known', () => {
+    assert.deepStrictEqual(seen('export PGHOST=$(cat host); psql', 'PGHOST', { PGHOST: 'c' }), ['-', ''])
+  })
+
+  it('should not change the environment it starts from', () => {
+    const env = { PGHOST: 'c' }
+    seen('export PGHOST=a', 'PGHOST', env)
+    assert.deepStrictEqual(env, { PGHOST: 'c' })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// readConfigFile
+// ---------------------------------------------------------------------------
+
+describe('readConfigFile', () => {
+  let dir: string
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dc-args-'))
+    writeFileSync(join(dir, 'big'), 'x'.repeat(MAX_SCRIPT_BYTES + 1))
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  it('should read a file relative to cwd and again once it changes', () => {
+    writeFileSync(join(dir, 'config'), 'current-context: staging\n')
+    assert.equal(readConfigFile('config', dir), 'current-context: staging\n')
+    writeFileSync(join(dir, 'config'), 'current-context: production\n')
+    assert.equal(readConfigFile(join(dir, 'config'), '/'), 'current-context: production\n')
+  })
+
+  it('should return null for missing and oversized files', () => {
+    assert.equal(readConfigFile('big', dir), null)
+    assert.equal(readConfigFile('missing', dir), null)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// compilePatternOverrides / patternOverride
+// ---------------------------------------------------------------------------
+
+describe('patternOverride', () => {
+  const overrides = compilePatternOverrides({ 'SQL *': 'none', 'git push*': 'block', '*': 'ask' })
+
+  it('should take the action of the first matching glob', () => {
+    assert.equal(patternOverride(overrides, 'git push --force'), 'block')
+    assert.equal(patternOverride(overrides, 'terraform destroy'), 'ask')
+  })
+
+  it('should allow patterns set to none', () => {
+    assert.equal(patternOverride(overrides, 'SQL DROP TABLE'), null)
+  })
+
+  it('should leave patterns alone without a matching glob', () => {
+    assert.equal(patternOverride(compilePatternOverrides({ 'aws *': 'block' }), 'git reset --hard'), undefined)
+    assert.equal(patternOverride(undefined, 'git reset --hard'), undefined)
+  })
+})
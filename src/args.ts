@@ -0,0 +1,141 @@
+import { readFileSync, statSync } from 'node:fs'
+import { commandWords, type ShellSegment } from './shell.js'
+import { resolvePath, type Action } from './patterns.js'
+import { MAX_SCRIPT_BYTES } from './scripts.js'
+
+// ---------------------------------------------------------------------------
+// Client arguments and variables
+// ---------------------------------------------------------------------------
+// The kubectl, cloud and database checks each work out what a client talks
+// to from its flags, the variables its step sees and its config files, and
+// map that to an environment by name globs. Tool rules and protected
+// variables match names the same way.
+// ---------------------------------------------------------------------------
+
+const ASSIGNMENT_RE = /^[A-Za-z_][A-Za-z0-9_]*=/
+
+/**
+ * Compile a name glob (`prod-*`, `*_delete_*`) into a case-insensitive
+ * anchored RegExp. `*` matches any run of `char`, `?` one of them.
+ */
+export function nameRegex(glob: string, char = '.'): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, `${char}*`).replace(/\?/g, char)
+  return new RegExp(`^${source}$`, 'i')
+}
+
+/**
+ * Operands and flags (`--flag=value`, `--flag value`, `-nvalue`, `-n=value`)
+ * of a client's arguments. `values` are the flags that take a value.
+ */
+export function parseArgs(args: readonly string[], values: ReadonlySet<string>) {
+  const operands: string[] = []
+  const flags = new Map<string, string | true>()
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') break
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg)
+    } else if (arg.startsWith('--') && arg.includes('=')) {
+      flags.set(arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1))
+    } else if (values.has(arg)) {
+      flags.set(arg, args[++i] ?? '')
+    } else if (!arg.startsWith('--') && values.has(arg.slice(0, 2))) {
+      flags.set(arg.slice(0, 2), arg.slice(2).replace(/^=/, ''))
+    } else {
+      flags.set(arg, true)
+    }
+  }
+  return { operands, flags }
+}
+
+/** `value` unless it is empty or still holds an expansion (`$X`, a backtick) */
+export const resolved = (value: string | undefined) => (value && !/[$`]/.test(value) ? value : null)
+
+/** Apply `NAME=value` assignments to `vars`; values we cannot resolve unset the variable */
+function assign(vars: Record<string, string | undefined>, assignments: readonly string[]) {
+  for (const assignment of assignments) {
+    if (!ASSIGNMENT_RE.test(assignment)) continue
+    const name = assignment.slice(0, assignment.indexOf('='))
+    vars[name] = resolved(assignment.slice(name.length + 1)) ?? ''
+  }
+}
+
+/**
+ * The variables of a command, starting from `env`; see stepVariables.
+ * Assignments shadow `env` instead of copying it: process.env is slow to
+ * spread.
+ */
+export function commandVariables(env: Readonly<Record<string, string | undefined>>): Record<string, string | undefined> {
+  return Object.create(env)
+}
+
+/**
+ * Run `segment` against the command's `vars`. A bare assignment or
+ * `export` changes them for later steps and returns null; any other step
+ * returns the variables it sees, with its inline assignments (those of an
+ * `env` prefix included) applied to it alone.
+ */
+export function stepVariables(
+  vars: Record<string, string | undefined>,
+  segment: ShellSegment,
+): Record<string, string | undefined> | null {
+  const words = commandWords(segment)
+  if (segment.argv.length === 0 || words[0] === 'export') {
+    assign(vars, words[0] === 'export' ? words.slice(1) : segment.assignments)
+    return null
+  }
+  const own: Record<string, string | undefined> = Object.create(vars)
+  assign(own, [...segment.assignments, ...segment.argv.slice(0, segment.argv.length - words.length)])
+  return own
+}
+
+// A kubeconfig or gcloud/az configuration is read on every call of its
+// client; it is read again only once its mtime or size changes
+const CONFIG_CACHE_SIZE = 100
+const configCache = new Map<string, { mtimeMs: number; size: number; text: string | null }>()
+
+/**
+ * Contents of the config file `path`, resolved against `cwd`; null when it
+ * is missing, unreadable or larger than MAX_SCRIPT_BYTES
+ */
+export function readConfigFile(path: string, cwd: string): string | null {
+  try {
+    const file = resolvePath(path, cwd)
+    const stats = statSync(file, { throwIfNoEntry: false })
+    if (!stats) return null
+    const cached = configCache.get(file)
+    if (cached?.mtimeMs === stats.mtimeMs && cached.size === stats.size) return cached.text
+    const text = stats.size > MAX_SCRIPT_BYTES ? null : readFileSync(file, 'utf-8')
+    if (configCache.size >= CONFIG_CACHE_SIZE) configCache.clear()
+    configCache.set(file, { mtimeMs: stats.mtimeMs, size: stats.size, text })
+    return text
+  } catch {
+    return null
+  }
+}
+
+/** An environment's action for the patterns whose reason matches `glob` */
+export interface PatternOverride {
+  glob: string
+  regex: RegExp
+  /** null allows the pattern */
+  action: Action | null
+}
+
+/** Compile an environment's `patterns` setting (reason glob -> action or 'none') */
+export function compilePatternOverrides(patterns: Readonly<Record<string, Action | 'none'>> = {}): PatternOverride[] {
+  return Object.entries(patterns).map(([glob, action]) => ({
+    glob,
+    regex: nameRegex(glob),
+    action: action === 'none' ? null : action,
+  }))
+}
+
+/**
+ * The action `overrides` give a pattern matching a command in their
+ * environment: that of the first reason glob matching `reason`, null to
+ * allow it, or undefined when the environment leaves the pattern alone.
+ */
+export function patternOverride(overrides: readonly PatternOverride[] | undefined, reason: string): Action | null | undefined {
+  return overrides?.find(({ regex }) => regex.test(reason))?.action
+}
@@ -0,0 +1,192 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseShellCommand } from './shell.js'
+import { trackWorkingDirectories } from './patterns.js'
+import {
+  cloudCalls,
+  compileCloud,
+  DEFAULT_CLOUD_ENVIRONMENTS,
+  DEFAULT_CLOUD_IDENTITIES,
+  environmentPatternAction,
+  matchCloudEnvironment,
+  type CloudCall,
+} from './cloud.js'
+
+// ---------------------------------------------------------------------------
+// cloudCalls
+// ---------------------------------------------------------------------------
+
+describe('cloudCalls', () => {
+  let dir: string
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dc-cloud-'))
+    mkdirSync(join(dir, 'gcloud', 'configurations'), { recursive: true })
+    writeFileSync(join(dir, 'gcloud', 'active_config'), 'work\n')
+    writeFileSync(join(dir, 'gcloud', 'configurations', 'config_work'), '[core]\naccount = me@acme.io\nproject = acme-dev\n')
+    writeFileSync(join(dir, 'gcloud', 'configurations', 'config_ops'), '[compute]\nzone = x\n[core]\nproject = acme-prod\n')
+    mkdirSync(join(dir, 'azure'))
+    writeFileSync(
+      join(dir, 'azure', 'azureProfile.json'),
+      '\uFEFF{"subscriptions":[{"name":"Production","isDefault":false},{"name":"Sandbox","isDefault":true}]}',
+    )
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  /** [provider, verb, mutating, identity, region, source] of every cloud step in `command` */
+  const calls = (command: string, env: Record<string, string> = {}) => {
+    const segments = parseShellCommand(command)
+    return cloudCalls(segments, trackWorkingDirectories(segments, dir), {
+      CLOUDSDK_CONFIG: join(dir, 'gcloud'),
+      AZURE_CONFIG_DIR: join(dir, 'azure'),
+      ...env,
+    })
+      .filter((c): c is CloudCall => c !== null)
+      .map((c) => [c.provider, c.verb, c.mutating, c.identity, c.region, c.source])
+  }
+
+  const cases: [string, unknown[][]][] = [
+    ['aws ec2 describe-instances', [['aws', 'ec2 describe-instances', false, 'default', null, 'default']]],
+    [
+      'aws ec2 terminate-instances --instance-ids i-1 --profile prod --region eu-west-1',
+      [['aws', 'ec2 terminate-instances', true, 'prod', 'eu-west-1', '--profile']],
+    ],
+    ['aws --profile=prod ec2 terminate-instances --dry-run', [['aws', 'ec2 terminate-instances', false, 'prod', null, '--profile']]],
+    ['AWS_PROFILE=prod aws lambda invoke --function-name f out.json', [['aws', 'lambda invoke', true, 'prod', null, 'AWS_PROFILE']]],
+    ['env AWS_PROFILE=prod AWS_REGION=us-east-1 aws s3 rb s3://b', [['aws', 's3 rb', true, 'prod', 'us-east-1', 'AWS_PROFILE']]],
+    ['export AWS_PROFILE=prod; aws iam delete-user --user-name x', [['aws', 'iam delete-user', true, 'prod', null, 'AWS_PROFILE']]],
+    ['aws s3 cp s3://b/k ./k', [['aws', 's3 cp', false, 'default', null, 'default']]],
+    ['aws s3 cp ./k s3://b/k', [['aws', 's3 cp', true, 'default', null, 'default']]],
+    ['aws dynamodb batch-get-item --request-items file://q.json', [['aws', 'dynamodb batch-get-item', false, 'default', null, 'default']]],
+    ['aws configure set region eu-west-1', [['aws', 'configure set', false, 'default', null, 'default']]],
+    ['AWS_PROFILE="$P" aws s3 rm s3://b/k', [['aws', 's3 rm', true, null, null, 'AWS_PROFILE']]],
+    ['gcloud compute instances list', [['gcloud', 'compute instances list', false, 'acme-dev', null, 'configuration work']]],
+    [
+      'gcloud compute instances delete vm-1 --zone us-east1-b --project acme-prod',
+      [['gcloud', 'compute instances delete', true, 'acme-prod', null, '--project']],
+    ],
+    [
+      'CLOUDSDK_CORE_PROJECT=acme-prod gcloud run deploy api --image x',
+      [['gcloud', 'run deploy', true, 'acme-prod', null, 'CLOUDSDK_CORE_PROJECT']],
+    ],
+    [
+      'gcloud config set project acme-prod && gcloud sql instances delete db',
+      [
+        ['gcloud', 'config set', false, 'acme-dev', null, 'configuration work'],
+        ['gcloud', 'sql instances delete', true, 'acme-prod', null, 'config set project'],
+      ],
+    ],
+    [
+      'gcloud --configuration ops projects add-iam-policy-binding p --member x --role y',
+      [['gcloud', 'projects add-iam-policy-binding', true, 'acme-prod', null, 'configuration ops']],
+    ],
+    ['gcloud storage cp gs://b/k .', [['gcloud', 'storage cp', false, 'acme-dev', null, 'configuration work']]],
+    ['az vm delete -g rg -n vm1', [['az', 'vm delete', true, 'Sandbox', null, 'azureProfile.json']]],
+    ['az group list --subscription Production', [['az', 'group list', false, 'Production', null, '--subscription']]],
+    [
+      'az account set -s Production && az group delete -n rg',
+      [
+        ['az', 'account set', false, 'Sandbox', null, 'azureProfile.json'],
+        ['az', 'group delete', true, 'Production', null, 'account set'],
+      ],
+    ],
+    ['git status', []],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should resolve ${JSON.stringify(expected)}: ${command}`, () => {
+      assert.deepStrictEqual(calls(command), expected)
+    })
+  }
+
+  it('should start from the inherited environment', () => {
+    assert.deepStrictEqual(calls('aws rds delete-db-instance --db-instance-identifier db', { AWS_DEFAULT_PROFILE: 'prod-admin' }), [
+      ['aws', 'rds delete-db-instance', true, 'prod-admin', null, 'AWS_DEFAULT_PROFILE'],
+    ])
+  })
+
+  it('should leave the project unset without a readable configuration', () => {
+    assert.deepStrictEqual(calls('gcloud functions delete f', { CLOUDSDK_CONFIG: join(dir, 'missing') }), [
+      ['gcloud', 'functions delete', true, null, null, ''],
+    ])
+  })
+
+  it('should read relative config directories from the session directory', () => {
+    assert.deepStrictEqual(calls('gcloud compute instances list', { CLOUDSDK_CONFIG: 'gcloud' }), [
+      ['gcloud', 'compute instances list', false, 'acme-dev', null, 'configuration work'],
+    ])
+    assert.deepStrictEqual(calls('AZURE_CONFIG_DIR=./azure az vm list'), [['az', 'vm list', false, 'Sandbox', null, 'azureProfile.json']])
+  })
+
+  it('should read relative config directories from the working directory of the step', () => {
+    assert.deepStrictEqual(calls('cd gcloud && gcloud compute instances list', { CLOUDSDK_CONFIG: '.' }), [
+      ['gcloud', 'compute instances list', false, 'acme-dev', null, 'configuration work'],
+    ])
+    assert.deepStrictEqual(calls('cd azure; AZURE_CONFIG_DIR=. az vm delete -n x'), [
+      ['az', 'vm delete', true, 'Sandbox', null, 'azureProfile.json'],
+    ])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// matchCloudEnvironment / environmentPatternAction
+// ---------------------------------------------------------------------------
+
+describe('matchCloudEnvironment', () => {
+  const call = (provider: CloudCall['provider'], identity: string | null, region: string | null = null): CloudCall => ({
+    provider,
+    verb: 'ec2 terminate-instances',
+    mutating: true,
+    identity,
+    region,
+    source: '--profile',
+  })
+
+  const cases: [CloudCall, string | null][] = [
+    [call('aws', 'prod'), 'prod'],
+    [call('gcloud', 'acme-production'), 'prod'],
+    [call('az', 'Production'), 'prod'],
+    [call('aws', 'sandbox'), null],
+    [call('aws', null), null],
+  ]
+
+  const compiled = compileCloud(DEFAULT_CLOUD_IDENTITIES, DEFAULT_CLOUD_ENVIRONMENTS)
+  for (const [c, expected] of cases) {
+    it(`should map ${c.provider} ${c.identity} to ${expected}`, () => {
+      assert.equal(matchCloudEnvironment(c, compiled)?.environment ?? null, expected)
+    })
+  }
+
+  it('should let the last matching rule win and match provider and region', () => {
+    const custom = compileCloud(
+      [
+        ...DEFAULT_CLOUD_IDENTITIES,
+        { identity: 'prod-sandbox', environment: 'dev' },
+        { identity: 'shared', environment: 'staging', provider: 'aws' },
+        { identity: 'shared', environment: 'prod', provider: 'aws', region: 'eu-*' },
+      ],
+      DEFAULT_CLOUD_ENVIRONMENTS,
+    )
+    assert.equal(matchCloudEnvironment(call('aws', 'prod-sandbox'), custom)?.environment, 'dev')
+    assert.equal(matchCloudEnvironment(call('aws', 'shared'), custom)?.environment, 'staging')
+    assert.equal(matchCloudEnvironment(call('aws', 'shared', 'eu-west-1'), custom)?.environment, 'prod')
+    assert.equal(matchCloudEnvironment(call('gcloud', 'shared'), custom), null)
+  })
+
+  it('should raise or lower patterns by reason glob', () => {
+    const custom = compileCloud(DEFAULT_CLOUD_IDENTITIES, {
+      prod: { mutating: 'ask', patterns: { 'aws ec2 terminate-instances': 'block' } },
+      dev: { mutating: 'none', patterns: { 'aws *': 'none' } },
+    })
+    const prod = { environment: 'prod', rule: DEFAULT_CLOUD_IDENTITIES[0], settings: custom.environments.get('prod') }
+    const dev = { environment: 'dev', rule: DEFAULT_CLOUD_IDENTITIES[0], settings: custom.environments.get('dev') }
+    assert.equal(environmentPatternAction(prod, 'aws ec2 terminate-instances'), 'block')
+    assert.equal(environmentPatternAction(prod, 'aws rds delete-db-instance'), undefined)
+    assert.equal(environmentPatternAction(dev, 'aws rds delete-db-instance'), null)
+    assert.equal(dev.settings?.mutating, null)
+  })
+})
@@ -0,0 +1,305 @@
+import { join } from 'node:path'
+import { commandWords, type ShellSegment } from './shell.js'
+import type { Action } from './patterns.js'
+import {
+  commandVariables,
+  compilePatternOverrides,
+  nameRegex,
+  parseArgs,
+  patternOverride,
+  readConfigFile,
+  resolved,
+  stepVariables,
+  type PatternOverride,
+} from './args.js'
+
+// ---------------------------------------------------------------------------
+// Cloud identities
+// ---------------------------------------------------------------------------
+// `aws ec2 terminate-instances` is routine against a sandbox account and an
+// incident against production. Each aws, gcloud and az command is resolved
+// to the identity it acts as: the AWS profile and region (--profile and
+// --region, AWS_PROFILE and AWS_REGION set inline, exported or inherited),
+// the gcloud project (--project, CLOUDSDK_CORE_PROJECT, a `gcloud config
+// set project` earlier in the command, then the active configuration) or
+// the Azure subscription (--subscription, an earlier `az account set`, then
+// the default in azureProfile.json). Identity rules map identities to
+// environments (prod, staging, dev); an environment gives mutating calls an
+// action and raises or lowers the patterns that match its commands.
+// ---------------------------------------------------------------------------
+
+export type CloudProvider = 'aws' | 'gcloud' | 'az'
+
+/** What the identity of each provider is */
+export const IDENTITY_KINDS: Record<CloudProvider, string> = { aws: 'profile', gcloud: 'project', az: 'subscription' }
+
+export interface CloudIdentityRule {
+  /** Profile, project or subscription glob (`prod-*`, `acme-production`) */
+  identity: string
+  /** Environment the identity belongs to (`prod`, `staging`, `dev`) */
+  environment: string
+  /** Provider it applies to; every provider when omitted */
+  provider?: CloudProvider
+  /** AWS region glob (`eu-*`); any region when omitted */
+  region?: string
+}
+
+export interface CloudEnvironment {
+  /** Action for calls that change resources, or 'none' */
+  mutating?: Action | 'none'
+  /** Action by pattern reason glob (`aws *`) for patterns matching the command, or 'none' to allow them */
+  patterns?: Record<string, Action | 'none'>
+}
+
+/** An aws, gcloud or az command and the identity it acts as */
+export interface CloudCall {
+  provider: CloudProvider
+  /** Service and operation (`ec2 terminate-instances`, `compute instances delete`) */
+  verb: string
+  /** Whether the call changes resources (a dry run, a read or a local setting does not) */
+  mutating: boolean
+  /** Effective profile, project or subscription; null when it cannot be worked out */
+  identity: string | null
+  /** Effective AWS region, if set */
+  region: string | null
+  /** Where the identity came from: a flag, a variable, a switch or a config file */
+  source: string
+}
+
+/** Ask before changing anything in an account, project or subscription that looks like production */
+export const DEFAULT_CLOUD_IDENTITIES: CloudIdentityRule[] = [{ identity: '*prod*', environment: 'prod' }]
+
+export const DEFAULT_CLOUD_ENVIRONMENTS: Record<string, CloudEnvironment> = { prod: { mutating: 'ask' } }
+
+export interface CompiledCloudEnvironment {
+  mutating: Action | null
+  patterns: PatternOverride[]
+}
+
+/** The effective identity rules and environments, compiled once */
+export interface CompiledCloud {
+  identities: { rule: CloudIdentityRule; identity: RegExp; region: RegExp | null }[]
+  environments: Map<string, CompiledCloudEnvironment>
+}
+
+/** The environment a call's identity maps to */
+export interface CloudTarget {
+  environment: string
+  rule: CloudIdentityRule
+  settings: CompiledCloudEnvironment | undefined
+}
+
+interface CloudClient {
+  provider: CloudProvider
+  /** Flags that take a value */
+  values: ReadonlySet<string>
+  /** First operands that only change local settings (`aws configure`, `gcloud config`) */
+  local: ReadonlySet<string>
+}
+
+const CLIENTS: Record<string, CloudClient> = {
+  aws: {
+    provider: 'aws',
+    values: new Set([
+      '--profile', '--region', '--output', '--query', '--endpoint-url', '--color', '--ca-bundle',
+      '--cli-read-timeout', '--cli-connect-timeout', '--cli-binary-format',
+    ]),
+    local: new Set(['configure', 'sso', 'history', 'help']),
+  },
+  gcloud: {
+    provider: 'gcloud',
+    values: new Set([
+      '--project', '--configuration', '--account', '--billing-project', '--impersonate-service-account',
+      '--region', '--zone', '--format', '--filter', '--verbosity', '--flags-file', '--limit', '--page-size',
+      '--sort-by',
+    ]),
+    local: new Set(['config', 'auth', 'components', 'info', 'help', 'version', 'init', 'topic', 'cheat-sheet']),
+  },
+  az: {
+    provider: 'az',
+    values: new Set([
+      '--subscription', '-s', '--output', '-o', '--query', '--resource-group', '-g', '--name', '-n',
+      '--location', '-l',
+    ]),
+    local: new Set([
+      'login', 'logout', 'account', 'config', 'configure', 'extension', 'version', 'upgrade', 'find',
+      'interactive', 'feedback', 'self-test',
+    ]),
+  },
+}
+
+/** Operations and verbs that only read */
+const READ_RE =
+  /^(?:list|describe|show|get|ls|cat|du|head|tail|read|search|lookup|query|scan|select|filter|validate|estimate|preview|simulate|wait|exists|check|print|browse|download|presign|help|batch-get)(?:-|$)/
+
+/** Verbs (or the first word of dashed verbs) that change resources */
+const MUTATING_VERBS: ReadonlySet<string> = new Set([
+  'create', 'delete', 'update', 'set', 'add', 'remove', 'deploy', 'start', 'stop', 'restart', 'reset', 'reboot',
+  'resize', 'import', 'export', 'patch', 'apply', 'rollback', 'cancel', 'purge', 'enable', 'disable', 'attach',
+  'detach', 'move', 'mv', 'cp', 'rm', 'rsync', 'sync', 'undelete', 'upgrade', 'scale', 'ssh', 'scp', 'run',
+  'invoke', 'call', 'execute', 'deallocate', 'redeploy', 'swap', 'restore', 'publish', 'submit', 'rotate',
+  'revoke', 'grant', 'upload', 'terminate', 'modify', 'put', 'tag', 'untag', 'suspend', 'resume', 'promote',
+  'failover', 'regenerate', 'renew', 'clear', 'mb', 'rb',
+])
+
+/** Copies that only change resources when a bucket is the destination */
+const COPY_VERBS: ReadonlySet<string> = new Set(['cp', 'sync', 'rsync'])
+
+const BUCKET_RE = /^(?:s3|gs):\/\//
+
+const GCLOUD_PROJECT_RE = /^\[core\][^[]*?^\s*project\s*=\s*(\S+)/m
+
+export function compileCloud(
+  identities: readonly CloudIdentityRule[],
+  environments: Readonly<Record<string, CloudEnvironment>>,
+): CompiledCloud {
+  return {
+    identities: identities.map((rule) => ({
+      rule,
+      identity: nameRegex(rule.identity),
+      region: rule.region ? nameRegex(rule.region) : null,
+    })),
+    environments: new Map(
+      Object.entries(environments).map(([name, env]) => [
+        name,
+        {
+          mutating: env.mutating && env.mutating !== 'none' ? env.mutating : null,
+          patterns: compilePatternOverrides(env.patterns),
+        },
+      ]),
+    ),
+  }
+}
+
+/** Whether the verb at `index` of `operands` changes resources */
+function isMutating(provider: CloudProvider, operands: readonly string[], index: number): boolean {
+  const verb = operands[index]
+  if (READ_RE.test(verb)) return false
+  if (COPY_VERBS.has(verb)) return operands.slice(index + 2).some((o) => BUCKET_RE.test(o))
+  // An AWS operation is mutating unless it reads; gcloud and az verbs must be known to mutate
+  return provider === 'aws' || MUTATING_VERBS.has(verb.split('-')[0])
+}
+
+/**
+ * Index of the verb among `operands`: the AWS operation, or the first known
+ * gcloud or az verb after the command group (`gcloud run deploy`)
+ */
+function verbIndex(provider: CloudProvider, operands: readonly string[]): number {
+  if (provider === 'aws') return operands.length > 1 ? 1 : -1
+  return operands.findIndex((o, i) => i > 0 && (READ_RE.test(o) || MUTATING_VERBS.has(o.split('-')[0])))
+}
+
+/** The project of the active (or named) gcloud configuration */
+function gcloudProject(vars: Record<string, string | undefined>, configuration: string | null, directory: string) {
+  const dir = vars.CLOUDSDK_CONFIG || '~/.config/gcloud'
+  const active = () => readConfigFile(join(dir, 'active_config'), directory)?.trim()
+  const name = configuration ?? (vars.CLOUDSDK_ACTIVE_CONFIG_NAME || active() || 'default')
+  const match = GCLOUD_PROJECT_RE.exec(readConfigFile(join(dir, 'configurations', `config_${name}`), directory) ?? '')
+  return match ? { identity: match[1], source: `configuration ${name}` } : null
+}
+
+/** The name of the default subscription in azureProfile.json */
+function azureSubscription(vars: Record<string, string | undefined>, directory: string) {
+  const text = readConfigFile(join(vars.AZURE_CONFIG_DIR || '~/.azure', 'azureProfile.json'), directory)
+  try {
+    const profile = JSON.parse((text ?? '').replace(/^\uFEFF/, '')) as { subscriptions?: { name?: string; isDefault?: boolean }[] }
+    const name = profile.subscriptions?.find((s) => s.isDefault)?.name
+    return name ? { identity: name, source: 'azureProfile.json' } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The aws, gcloud and az commands among `segments`, each with the identity
+ * it acts as; null for other steps. `env` is the environment the command
+ * starts with; assignments and exports (`export AWS_PROFILE=prod`) change
+ * it for later steps, as do `gcloud config set project` and
+ * `az account set`. `cwds` are the directories the steps run in; relative
+ * config directories (`CLOUDSDK_CONFIG=.gcloud`) resolve against them.
+ */
+export function cloudCalls(
+  segments: readonly ShellSegment[],
+  cwds: readonly string[],
+  env: Readonly<Record<string, string | undefined>> = process.env,
+): (CloudCall | null)[] {
+  const vars = commandVariables(env)
+  const switched: Partial<Record<CloudProvider, string | null>> = {}
+  return segments.map((segment, i) => {
+    const own = stepVariables(vars, segment)
+    if (!own) return null
+    const [program = '', ...args] = commandWords(segment)
+    const client = CLIENTS[program]
+    if (!client) return null
+
+    const { provider } = client
+    const { operands, flags } = parseArgs(args, client.values)
+    const index = verbIndex(provider, operands)
+    const local = client.local.has(operands[0])
+    const call: CloudCall = {
+      provider,
+      verb: index < 0 ? operands.slice(0, 2).join(' ') : operands.slice(0, index + 1).join(' '),
+      mutating: !local && index >= 0 && !flags.has('--dry-run') && isMutating(provider, operands, index),
+      identity: null,
+      region: null,
+      source: '',
+    }
+    const flag = (name: string) => (flags.has(name) ? resolved(String(flags.get(name))) : undefined)
+    const set = (identity: string | null, source: string) => {
+      call.identity = identity
+      call.source = source
+    }
+
+    if (provider === 'aws') {
+      const variable = ['AWS_PROFILE', 'AWS_DEFAULT_PROFILE'].find((name) => own[name] !== undefined)
+      if (flags.has('--profile')) set(flag('--profile') ?? null, '--profile')
+      else if (variable) set(own[variable] || null, variable)
+      else set('default', 'default')
+      call.region = flag('--region') ?? (own.AWS_REGION || own.AWS_DEFAULT_REGION || null)
+    } else if (provider === 'gcloud') {
+      if (flags.has('--project')) set(flag('--project') ?? null, '--project')
+      else if (own.CLOUDSDK_CORE_PROJECT !== undefined) set(own.CLOUDSDK_CORE_PROJECT || null, 'CLOUDSDK_CORE_PROJECT')
+      else if ('gcloud' in switched) set(switched.gcloud ?? null, 'config set project')
+      else {
+        const current = gcloudProject(own, flag('--configuration') ?? null, cwds[i])
+        if (current) set(current.identity, current.source)
+      }
+      if (operands[0] === 'config' && operands[1] === 'set' && operands[2] === 'project' && operands[3]) {
+        switched.gcloud = resolved(operands[3])
+      }
+    } else {
+      if (flags.has('--subscription')) set(flag('--subscription') ?? null, '--subscription')
+      else if ('az' in switched) set(switched.az ?? null, 'account set')
+      else {
+        const current = azureSubscription(own, cwds[i])
+        if (current) set(current.identity, current.source)
+      }
+      if (operands[0] === 'account' && operands[1] === 'set') {
+        switched.az = flag('--subscription') ?? flag('-s') ?? null
+      }
+    }
+    return call
+  })
+}
+
+/**
+ * The environment `call` targets: that of the last identity rule whose
+ * provider, identity glob and region glob match it, so rules added by
+ * config take precedence over the defaults.
+ */
+export function matchCloudEnvironment(call: CloudCall, compiled: CompiledCloud): CloudTarget | null {
+  if (call.identity === null) return null
+  let found: CloudIdentityRule | null = null
+  for (const { rule, identity, region } of compiled.identities) {
+    if (rule.provider && rule.provider !== call.provider) continue
+    if (!identity.test(call.identity)) continue
+    if (region && (call.region === null || !region.test(call.region))) continue
+    found = rule
+  }
+  return found && { environment: found.environment, rule: found, settings: compiled.environments.get(found.environment) }
+}
+
+/** The action the environment of `target` gives a pattern; see patternOverride */
+export function environmentPatternAction(target: CloudTarget, reason: string): Action | null | undefined {
+  return patternOverride(target.settings?.patterns, reason)
+}
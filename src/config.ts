@@ -1,6 +1,15 @@
 import { readFileSync } from 'node:fs'
 import { join } from 'node:path'
-import type { Action, Pattern, ProtectedPath, ProtectionLevel } from './patterns.js'
+import type { Action, ArgMatcher, CommandRule, Pattern, ProtectedPath, ProtectionLevel, Rule } from './patterns.js'
+import type { ArgSpec, ToolArgMap } from './tools.js'
+import type { SecretDetector } from './secrets.js'
+import type { ProtectedVariable } from './env.js'
+import type { EgressRule } from './egress.js'
+import type { ToolRule } from './mcp.js'
+import type { SqlActions, SqlCategory } from './sql.js'
+import type { KubeContextRule } from './kube.js'
+import type { CloudEnvironment, CloudIdentityRule } from './cloud.js'
+import type { DatabaseEnvironment, DatabaseHostRule } from './database.js'
 
 // ---------------------------------------------------------------------------
 // Config types
@@ -8,8 +17,8 @@ import type { Action, Pattern, ProtectedPath, ProtectionLevel } from './patterns
 
 export interface DamageControlConfig {
   patterns?: {
-    /** Extra patterns appended after defaults */
-    add?: Pattern[]
+    /** Extra patterns (regex or argv rules) appended after defaults */
+    add?: Rule[]
     /** Remove default patterns by exact reason string */
     remove?: string[]
     /** Change the action of existing patterns by reason string */
@@ -22,6 +31,77 @@ export interface DamageControlConfig {
     remove?: string[]
     /** Change protection level of existing paths, or 'none' to unprotect */
     override?: Record<string, ProtectionLevel | 'none'>
+    /** Paths that are never protected, even if a protected path matches */
+    exceptions?: string[]
+  }
+  /**
+   * Tool arguments to check, by tool name: merged into the defaults per
+   * argument, 'none' stops checking one
+   */
+  tools?: Record<string, Record<string, ArgSpec | 'none'>>
+  secrets?: {
+    /** What a secret in written content does (default 'block') */
+    action?: Action
+    /** Exact secret values that are never reported (test keys) */
+    allow?: string[]
+    /** Remove default detectors by id, or default allowlist entries */
+    remove?: string[]
+    /** Extra detectors appended after defaults */
+    add?: SecretDetector[]
+    /** Tools whose output is redacted (replaces the defaults; [] disables) */
+    redact?: string[]
+  }
+  env?: {
+    /** Extra protected variable name globs appended after defaults */
+    add?: ProtectedVariable[]
+    /** Remove default variables by exact name glob */
+    remove?: string[]
+    /** Change the action of existing variables, or 'none' to unprotect */
+    override?: Record<string, Action | 'none'>
+    /** Action for commands that dump the whole environment, or 'none' */
+    dump?: Action | 'none'
+  }
+  egress?: {
+    /** Extra host rules appended after defaults */
+    add?: EgressRule[]
+    /** Remove default rules by exact host, or default allowlist entries */
+    remove?: string[]
+    /** Hosts, addresses or CIDR ranges data may be sent to */
+    allow?: string[]
+    /** Action for uploads to hosts outside the allowlist (default 'ask'), or 'none' */
+    upload?: Action | 'none'
+    /** Action for downloads from hosts outside the allowlist (default 'none') */
+    download?: Action | 'none'
+  }
+  mcp?: {
+    /** Extra tool rules appended after defaults */
+    add?: ToolRule[]
+    /** Remove default rules by exact tool glob */
+    remove?: string[]
+  }
+  /** Action for each SQL statement category, or 'none' to allow it */
+  sql?: Partial<Record<SqlCategory, Action | 'none'>>
+  kube?: {
+    /** Extra context rules appended after defaults */
+    add?: KubeContextRule[]
+    /** Remove default rules by exact context glob */
+    remove?: string[]
+  }
+  cloud?: {
+    /** Extra identity rules appended after defaults; the last matching rule wins */
+    add?: CloudIdentityRule[]
+    /** Remove default rules by exact identity glob */
+    remove?: string[]
+    /** Settings by environment name, merged into the defaults field by field */
+    environments?: Record<string, CloudEnvironment>
+  }
+  databases?: {
+    /** Extra host rules appended after defaults; the last matching rule wins */
+    add?: DatabaseHostRule[]
+    /** Remove default rules by exact host glob */
+    remove?: string[]
+    /** Settings by environment name, merged into the defaults field by field */
+    environments?: Record<string, DatabaseEnvironment>
   }
 }
 
@@ -50,7 +130,17 @@ function readJsonFile(path: string): unknown | null {
 // ---------------------------------------------------------------------------
 
 const VALID_ACTIONS: ReadonlySet<string> = new Set(['block', 'ask'])
+const VALID_SCOPES: ReadonlySet<string> = new Set(['command', 'anywhere'])
 const VALID_LEVELS: ReadonlySet<string> = new Set(['zeroAccess', 'readOnly', 'noDelete', 'none'])
+const VALID_ROLES: ReadonlySet<string> = new Set(['read', 'write', 'delete', 'command', 'patch', 'content', 'url', 'sql'])
+const VALID_DIRECTIONS: ReadonlySet<string> = new Set(['upload', 'download'])
+const VALID_PROVIDERS: ReadonlySet<string> = new Set(['aws', 'gcloud', 'az'])
+const VALID_SQL_CATEGORIES: ReadonlySet<string> = new Set([
+  'unboundedDelete', 'unboundedUpdate', 'truncate', 'dropData', 'drop', 'delete', 'privilege',
+])
+
+/** Host glob, IP address or CIDR range */
+const HOST_RE = /^(?:[A-Za-z0-9*?_.:-]+|\[[0-9A-Fa-f:.]+\])(?:\/\d{1,3})?$/
 
 function isObject(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null && !Array.isArray(v)
@@ -60,8 +150,47 @@ function isValidPattern(v: unknown): v is Pattern {
   return (
     isObject(v) &&
     typeof v.pattern === 'string' &&
+    isValidRegex(v.pattern) &&
     typeof v.reason === 'string' &&
-    VALID_ACTIONS.has(v.action as string)
+    VALID_ACTIONS.has(v.action as string) &&
+    (v.scope === undefined || VALID_SCOPES.has(v.scope as string))
+  )
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === 'string')
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function isValidArgMatcher(v: unknown): v is ArgMatcher {
+  return (
+    isObject(v) &&
+    typeof v.pattern === 'string' &&
+    isValidRegex(v.pattern) &&
+    (v.index === undefined || (Number.isInteger(v.index) && (v.index as number) >= 0))
+  )
+}
+
+function isValidCommandRule(v: unknown): v is CommandRule {
+  return (
+    isObject(v) &&
+    typeof v.command === 'string' &&
+    v.command.length > 0 &&
+    typeof v.reason === 'string' &&
+    VALID_ACTIONS.has(v.action as string) &&
+    (v.subcommand === undefined || isStringArray(v.subcommand)) &&
+    (v.flags === undefined || isStringArray(v.flags)) &&
+    (v.anyFlags === undefined || isStringArray(v.anyFlags)) &&
+    (v.notFlags === undefined || isStringArray(v.notFlags)) &&
+    (v.args === undefined || (Array.isArray(v.args) && v.args.every(isValidArgMatcher)))
   )
 }
 
@@ -74,6 +203,125 @@ function isValidProtectedPath(v: unknown): v is ProtectedPath {
   )
 }
 
+function isValidSecretDetector(v: unknown): v is SecretDetector {
+  return (
+    isObject(v) &&
+    typeof v.id === 'string' &&
+    v.id !== '' &&
+    typeof v.name === 'string' &&
+    typeof v.pattern === 'string' &&
+    isValidRegex(v.pattern) &&
+    (v.ignoreCase === undefined || typeof v.ignoreCase === 'boolean') &&
+    (v.minEntropy === undefined || (typeof v.minEntropy === 'number' && v.minEntropy >= 0))
+  )
+}
+
+function isValidProtectedVariable(v: unknown): v is ProtectedVariable {
+  return (
+    isObject(v) &&
+    typeof v.name === 'string' &&
+    /^[A-Za-z0-9_*?]+$/.test(v.name) &&
+    VALID_ACTIONS.has(v.action as string)
+  )
+}
+
+function isValidEgressRule(v: unknown): v is EgressRule {
+  return (
+    isObject(v) &&
+    typeof v.host === 'string' &&
+    HOST_RE.test(v.host) &&
+    VALID_ACTIONS.has(v.action as string) &&
+    (v.direction === undefined || VALID_DIRECTIONS.has(v.direction as string)) &&
+    (v.reason === undefined || typeof v.reason === 'string')
+  )
+}
+
+function isValidToolRule(v: unknown): v is ToolRule {
+  if (!isObject(v) || typeof v.tool !== 'string' || v.tool === '') return false
+  if (v.arg !== undefined && (typeof v.arg !== 'string' || v.arg === '')) return false
+  // Either a check of an argument or a fixed action with its reason
+  if (v.check !== undefined) {
+    return (VALID_ROLES.has(v.check as string) || v.check === 'patterns') && v.arg !== undefined && v.action === undefined
+  }
+  return VALID_ACTIONS.has(v.action as string) && typeof v.reason === 'string'
+}
+
+function isValidKubeContextRule(v: unknown): v is KubeContextRule {
+  return (
+    isObject(v) &&
+    typeof v.context === 'string' &&
+    v.context !== '' &&
+    VALID_ACTIONS.has(v.action as string) &&
+    (v.verbs === undefined ||
+      (Array.isArray(v.verbs) && v.verbs.every((verb) => typeof verb === 'string' && verb !== ''))) &&
+    (v.reason === undefined || typeof v.reason === 'string')
+  )
+}
+
+function isValidCloudIdentityRule(v: unknown): v is CloudIdentityRule {
+  return (
+    isObject(v) &&
+    typeof v.identity === 'string' &&
+    v.identity !== '' &&
+    typeof v.environment === 'string' &&
+    v.environment !== '' &&
+    (v.provider === undefined || VALID_PROVIDERS.has(v.provider as string)) &&
+    (v.region === undefined || (typeof v.region === 'string' && v.region !== ''))
+  )
+}
+
+function isValidDatabaseHostRule(v: unknown): v is DatabaseHostRule {
+  return (
+    isObject(v) &&
+    typeof v.host === 'string' &&
+    v.host !== '' &&
+    typeof v.environment === 'string' &&
+    v.environment !== ''
+  )
+}
+
+const isActionOrNone = (v: unknown): v is Action | 'none' => VALID_ACTIONS.has(v as string) || v === 'none'
+
+/** The valid entries of a `category: action` map at `key`, warning about the rest */
+function validateSqlActions(
+  value: Record<string, unknown>,
+  key: string,
+  source: string,
+  warnings: string[],
+): Partial<Record<SqlCategory, Action | 'none'>> {
+  const valid: Partial<Record<SqlCategory, Action | 'none'>> = {}
+  for (const [category, action] of Object.entries(value)) {
+    if (!VALID_SQL_CATEGORIES.has(category)) {
+      warnings.push(`${source}: "${key}.${category}" is not a SQL statement category, skipping`)
+    } else if (isActionOrNone(action)) {
+      valid[category as SqlCategory] = action
+    } else {
+      warnings.push(`${source}: "${key}.${category}" has invalid action "${action}", skipping`)
+    }
+  }
+  return valid
+}
+
+/** The valid entries of a `reason glob: action` map at `key`, warning about the rest */
+function validatePatternActions(
+  value: Record<string, unknown>,
+  key: string,
+  source: string,
+  warnings: string[],
+): Record<string, Action | 'none'> {
+  const valid: Record<string, Action | 'none'> = {}
+  for (const [reason, action] of Object.entries(value)) {
+    if (isActionOrNone(action)) valid[reason] = action
+    else warnings.push(`${source}: "${key}" has invalid action "${action}" for "${reason}", skipping`)
+  }
+  return valid
+}
+
+function isValidArgSpec(v: unknown): v is ArgSpec | 'none' {
+  if (typeof v === 'string') return VALID_ROLES.has(v) || v === 'none'
+  return isObject(v) && VALID_ROLES.has(v.role as string) && typeof v.base === 'string' && v.base !== ''
+}
+
 /**
  * Validate and sanitize a raw parsed config object.
  * Returns a clean DamageControlConfig plus any warnings.
@@ -103,13 +351,23 @@ function validateConfig(
         if (!Array.isArray(p.add)) {
           warnings.push(`${source}: "patterns.add" is not an array, ignoring`)
         } else {
-          const valid: Pattern[] = []
+          const valid: Rule[] = []
           for (let i = 0; i < p.add.length; i++) {
-            if (isValidPattern(p.add[i])) {
-              valid.push(p.add[i] as Pattern)
+            const entry = p.add[i]
+            if (isObject(entry) && entry.command !== undefined) {
+              if (isValidCommandRule(entry)) {
+                valid.push(entry)
+              } else {
+                warnings.push(
+                  `${source}: "patterns.add[${i}]" is an invalid command rule (need command, reason, action; ` +
+                  `subcommand/flags/anyFlags/notFlags must be string arrays, args need a valid pattern), skipping`,
+                )
+              }
+            } else if (isValidPattern(entry)) {
+              valid.push(entry)
             } else {
               warnings.push(
-                `${source}: "patterns.add[${i}]" is invalid (need pattern, reason, action), skipping`,
+                `${source}: "patterns.add[${i}]" is invalid (need a valid pattern, reason, action), skipping`,
               )
             }
           }
@@ -209,12 +467,462 @@ function validateConfig(
           if (Object.keys(valid).length > 0) config.paths.override = valid
         }
       }
+
+      // paths.exceptions
+      if (p.exceptions !== undefined) {
+        if (!Array.isArray(p.exceptions)) {
+          warnings.push(`${source}: "paths.exceptions" is not an array, ignoring`)
+        } else {
+          const valid = p.exceptions.filter((v: unknown) => typeof v === 'string' && v !== '') as string[]
+          if (valid.length !== p.exceptions.length) {
+            warnings.push(`${source}: some "paths.exceptions" entries are not non-empty strings, skipping those`)
+          }
+          if (valid.length > 0) config.paths.exceptions = valid
+        }
+      }
+    }
+  }
+
+  // -- tools --
+  if (raw.tools !== undefined) {
+    if (!isObject(raw.tools)) {
+      warnings.push(`${source}: "tools" is not an object, ignoring`)
+    } else {
+      const valid: Record<string, Record<string, ArgSpec | 'none'>> = {}
+      for (const [tool, spec] of Object.entries(raw.tools)) {
+        if (!isObject(spec)) {
+          warnings.push(`${source}: "tools[${JSON.stringify(tool)}]" is not an object, skipping`)
+          continue
+        }
+        const args: Record<string, ArgSpec | 'none'> = {}
+        for (const [arg, role] of Object.entries(spec)) {
+          if (isValidArgSpec(role)) {
+            args[arg] = role
+          } else {
+            warnings.push(
+              `${source}: "tools[${JSON.stringify(tool)}][${JSON.stringify(arg)}]" is invalid ` +
+              `(need read, write, delete, command, patch, content, url, sql, none or { role, base }), skipping`,
+            )
+          }
+        }
+        if (Object.keys(args).length > 0) valid[tool] = args
+      }
+      if (Object.keys(valid).length > 0) config.tools = valid
+    }
+  }
+
+  // -- secrets --
+  if (raw.secrets !== undefined) {
+    if (!isObject(raw.secrets)) {
+      warnings.push(`${source}: "secrets" is not an object, ignoring`)
+    } else {
+      const sec = raw.secrets
+      config.secrets = {}
+
+      // secrets.action
+      if (sec.action !== undefined) {
+        if (VALID_ACTIONS.has(sec.action as string)) {
+          config.secrets.action = sec.action as Action
+        } else {
+          warnings.push(`${source}: "secrets.action" has invalid action "${sec.action}", ignoring`)
+        }
+      }
+
+      // secrets.allow / secrets.remove / secrets.redact
+      for (const key of ['allow', 'remove', 'redact'] as const) {
+        const list = sec[key]
+        if (list === undefined) continue
+        if (!Array.isArray(list)) {
+          warnings.push(`${source}: "secrets.${key}" is not an array, ignoring`)
+          continue
+        }
+        const valid = list.filter((v: unknown) => typeof v === 'string' && v !== '') as string[]
+        if (valid.length !== list.length) {
+          warnings.push(`${source}: some "secrets.${key}" entries are not non-empty strings, skipping those`)
+        }
+        // An empty redact list is meaningful: it turns redaction off
+        if (valid.length > 0 || key === 'redact') config.secrets[key] = valid
+      }
+
+      // secrets.add
+      if (sec.add !== undefined) {
+        if (!Array.isArray(sec.add)) {
+          warnings.push(`${source}: "secrets.add" is not an array, ignoring`)
+        } else {
+          const valid: SecretDetector[] = []
+          for (let i = 0; i < sec.add.length; i++) {
+            if (isValidSecretDetector(sec.add[i])) {
+              valid.push(sec.add[i] as SecretDetector)
+            } else {
+              warnings.push(
+                `${source}: "secrets.add[${i}]" is invalid (need id, name and a valid pattern), skipping`,
+              )
+            }
+          }
+          if (valid.length > 0) config.secrets.add = valid
+        }
+      }
+    }
+  }
+
+  // -- env --
+  if (raw.env !== undefined) {
+    if (!isObject(raw.env)) {
+      warnings.push(`${source}: "env" is not an object, ignoring`)
+    } else {
+      const e = raw.env
+      config.env = {}
+
+      // env.add
+      if (e.add !== undefined) {
+        if (!Array.isArray(e.add)) {
+          warnings.push(`${source}: "env.add" is not an array, ignoring`)
+        } else {
+          const valid: ProtectedVariable[] = []
+          for (let i = 0; i < e.add.length; i++) {
+            if (isValidProtectedVariable(e.add[i])) {
+              valid.push(e.add[i] as ProtectedVariable)
+            } else {
+              warnings.push(
+                `${source}: "env.add[${i}]" is invalid (need name of letters, digits, _, * or ?, and action), skipping`,
+              )
+            }
+          }
+          if (valid.length > 0) config.env.add = valid
+        }
+      }
+
+      // env.remove
+      if (e.remove !== undefined) {
+        if (!Array.isArray(e.remove)) {
+          warnings.push(`${source}: "env.remove" is not an array, ignoring`)
+        } else {
+          const valid = e.remove.filter((v: unknown) => typeof v === 'string') as string[]
+          if (valid.length !== e.remove.length) {
+            warnings.push(`${source}: some "env.remove" entries are not strings, skipping those`)
+          }
+          if (valid.length > 0) config.env.remove = valid
+        }
+      }
+
+      // env.override
+      if (e.override !== undefined) {
+        if (!isObject(e.override)) {
+          warnings.push(`${source}: "env.override" is not an object, ignoring`)
+        } else {
+          const valid: Record<string, Action | 'none'> = {}
+          for (const [key, val] of Object.entries(e.override)) {
+            if (VALID_ACTIONS.has(val as string) || val === 'none') {
+              valid[key] = val as Action | 'none'
+            } else {
+              warnings.push(
+                `${source}: "env.override[${JSON.stringify(key)}]" has invalid action "${val}", skipping`,
+              )
+            }
+          }
+          if (Object.keys(valid).length > 0) config.env.override = valid
+        }
+      }
+
+      // env.dump
+      if (e.dump !== undefined) {
+        if (VALID_ACTIONS.has(e.dump as string) || e.dump === 'none') {
+          config.env.dump = e.dump as Action | 'none'
+        } else {
+          warnings.push(`${source}: "env.dump" has invalid action "${e.dump}", ignoring`)
+        }
+      }
+    }
+  }
+
+  // -- egress --
+  if (raw.egress !== undefined) {
+    if (!isObject(raw.egress)) {
+      warnings.push(`${source}: "egress" is not an object, ignoring`)
+    } else {
+      const eg = raw.egress
+      config.egress = {}
+
+      // egress.add
+      if (eg.add !== undefined) {
+        if (!Array.isArray(eg.add)) {
+          warnings.push(`${source}: "egress.add" is not an array, ignoring`)
+        } else {
+          const valid: EgressRule[] = []
+          for (let i = 0; i < eg.add.length; i++) {
+            if (isValidEgressRule(eg.add[i])) {
+              valid.push(eg.add[i] as EgressRule)
+            } else {
+              warnings.push(
+                `${source}: "egress.add[${i}]" is invalid (need host glob, address or CIDR range, and action), skipping`,
+              )
+            }
+          }
+          if (valid.length > 0) config.egress.add = valid
+        }
+      }
+
+      // egress.remove / egress.allow
+      for (const key of ['remove', 'allow'] as const) {
+        const list = eg[key]
+        if (list === undefined) continue
+        if (!Array.isArray(list)) {
+          warnings.push(`${source}: "egress.${key}" is not an array, ignoring`)
+          continue
+        }
+        const valid = list.filter((v: unknown) => typeof v === 'string' && HOST_RE.test(v)) as string[]
+        if (valid.length !== list.length) {
+          warnings.push(`${source}: some "egress.${key}" entries are not hosts, addresses or CIDR ranges, skipping those`)
+        }
+        if (valid.length > 0) config.egress[key] = valid
+      }
+
+      // egress.upload / egress.download
+      for (const key of ['upload', 'download'] as const) {
+        const action = eg[key]
+        if (action === undefined) continue
+        if (VALID_ACTIONS.has(action as string) || action === 'none') {
+          config.egress[key] = action as Action | 'none'
+        } else {
+          warnings.push(`${source}: "egress.${key}" has invalid action "${action}", ignoring`)
+        }
+      }
+    }
+  }
+
+  // -- mcp --
+  if (raw.mcp !== undefined) {
+    if (!isObject(raw.mcp)) {
+      warnings.push(`${source}: "mcp" is not an object, ignoring`)
+    } else {
+      const m = raw.mcp
+      config.mcp = {}
+
+      // mcp.add
+      if (m.add !== undefined) {
+        if (!Array.isArray(m.add)) {
+          warnings.push(`${source}: "mcp.add" is not an array, ignoring`)
+        } else {
+          const valid: ToolRule[] = []
+          for (let i = 0; i < m.add.length; i++) {
+            if (isValidToolRule(m.add[i])) {
+              valid.push(m.add[i] as ToolRule)
+            } else {
+              warnings.push(
+                `${source}: "mcp.add[${i}]" is invalid (need tool, and arg with check or action with reason), skipping`,
+              )
+            }
+          }
+          if (valid.length > 0) config.mcp.add = valid
+        }
+      }
+
+      // mcp.remove
+      if (m.remove !== undefined) {
+        if (!Array.isArray(m.remove)) {
+          warnings.push(`${source}: "mcp.remove" is not an array, ignoring`)
+        } else {
+          const valid = m.remove.filter((v: unknown) => typeof v === 'string') as string[]
+          if (valid.length !== m.remove.length) {
+            warnings.push(`${source}: some "mcp.remove" entries are not strings, skipping those`)
+          }
+          if (valid.length > 0) config.mcp.remove = valid
+        }
+      }
+    }
+  }
+
+  // -- sql --
+  if (raw.sql !== undefined) {
+    if (!isObject(raw.sql)) {
+      warnings.push(`${source}: "sql" is not an object, ignoring`)
+    } else {
+      const valid = validateSqlActions(raw.sql, 'sql', source, warnings)
+      if (Object.keys(valid).length > 0) config.sql = valid
+    }
+  }
+
+  // -- kube --
+  if (raw.kube !== undefined) {
+    if (!isObject(raw.kube)) {
+      warnings.push(`${source}: "kube" is not an object, ignoring`)
+    } else {
+      const k = raw.kube
+      config.kube = {}
+
+      // kube.add
+      if (k.add !== undefined) {
+        if (!Array.isArray(k.add)) {
+          warnings.push(`${source}: "kube.add" is not an array, ignoring`)
+        } else {
+          const valid: KubeContextRule[] = []
+          for (let i = 0; i < k.add.length; i++) {
+            if (isValidKubeContextRule(k.add[i])) {
+              valid.push(k.add[i] as KubeContextRule)
+            } else {
+              warnings.push(`${source}: "kube.add[${i}]" is invalid (need context glob and action), skipping`)
+            }
+          }
+          if (valid.length > 0) config.kube.add = valid
+        }
+      }
+
+      // kube.remove
+      if (k.remove !== undefined) {
+        if (!Array.isArray(k.remove)) {
+          warnings.push(`${source}: "kube.remove" is not an array, ignoring`)
+        } else {
+          const valid = k.remove.filter((v): v is string => typeof v === 'string')
+          if (valid.length !== k.remove.length) {
+            warnings.push(`${source}: some "kube.remove" entries are not strings, skipping those`)
+          }
+          if (valid.length > 0) config.kube.remove = valid
+        }
+      }
+    }
+  }
+
+  // -- cloud --
+  if (raw.cloud !== undefined) {
+    if (!isObject(raw.cloud)) {
+      warnings.push(`${source}: "cloud" is not an object, ignoring`)
+    } else {
+      const c = raw.cloud
+      config.cloud = {}
+
+      // cloud.add
+      if (c.add !== undefined) {
+        if (!Array.isArray(c.add)) {
+          warnings.push(`${source}: "cloud.add" is not an array, ignoring`)
+        } else {
+          const valid: CloudIdentityRule[] = []
+          for (let i = 0; i < c.add.length; i++) {
+            if (isValidCloudIdentityRule(c.add[i])) {
+              valid.push(c.add[i] as CloudIdentityRule)
+            } else {
+              warnings.push(`${source}: "cloud.add[${i}]" is invalid (need identity glob and environment), skipping`)
+            }
+          }
+          if (valid.length > 0) config.cloud.add = valid
+        }
+      }
+
+      // cloud.remove
+      if (c.remove !== undefined) {
+        if (!Array.isArray(c.remove)) {
+          warnings.push(`${source}: "cloud.remove" is not an array, ignoring`)
+        } else {
+          const valid = c.remove.filter((v): v is string => typeof v === 'string')
+          if (valid.length !== c.remove.length) {
+            warnings.push(`${source}: some "cloud.remove" entries are not strings, skipping those`)
+          }
+          if (valid.length > 0) config.cloud.remove = valid
+        }
+      }
+
+      // cloud.environments
+      if (c.environments !== undefined) {
+        if (!isObject(c.environments)) {
+          warnings.push(`${source}: "cloud.environments" is not an object, ignoring`)
+        } else {
+          const environments: Record<string, CloudEnvironment> = {}
+          for (const [name, env] of Object.entries(c.environments)) {
+            const key = `cloud.environments.${name}`
+            if (!isObject(env)) {
+              warnings.push(`${source}: "${key}" is not an object, skipping`)
+              continue
+            }
+            const valid: CloudEnvironment = {}
+            if (env.mutating !== undefined) {
+              if (isActionOrNone(env.mutating)) valid.mutating = env.mutating
+              else warnings.push(`${source}: "${key}.mutating" has invalid action "${env.mutating}", skipping`)
+            }
+            if (env.patterns !== undefined) {
+              if (!isObject(env.patterns)) {
+                warnings.push(`${source}: "${key}.patterns" is not an object, ignoring`)
+              } else {
+                valid.patterns = validatePatternActions(env.patterns, `${key}.patterns`, source, warnings)
+              }
+            }
+            environments[name] = valid
+          }
+          if (Object.keys(environments).length > 0) config.cloud.environments = environments
+        }
+      }
+    }
+  }
+
+  // -- databases --
+  if (raw.databases !== undefined) {
+    if (!isObject(raw.databases)) {
+      warnings.push(`${source}: "databases" is not an object, ignoring`)
+    } else {
+      const d = raw.databases
+      config.databases = {}
+
+      // databases.add
+      if (d.add !== undefined) {
+        if (!Array.isArray(d.add)) {
+          warnings.push(`${source}: "databases.add" is not an array, ignoring`)
+        } else {
+          const valid: DatabaseHostRule[] = []
+          for (let i = 0; i < d.add.length; i++) {
+            if (isValidDatabaseHostRule(d.add[i])) {
+              valid.push(d.add[i] as DatabaseHostRule)
+            } else {
+              warnings.push(`${source}: "databases.add[${i}]" is invalid (need host glob and environment), skipping`)
+            }
+          }
+          if (valid.length > 0) config.databases.add = valid
+        }
+      }
+
+      // databases.remove
+      if (d.remove !== undefined) {
+        if (!Array.isArray(d.remove)) {
+          warnings.push(`${source}: "databases.remove" is not an array, ignoring`)
+        } else {
+          const valid = d.remove.filter((s): s is string => typeof s === 'string')
+          if (valid.length !== d.remove.length) {
+            warnings.push(`${source}: some "databases.remove" entries are not strings, skipping those`)
+          }
+          if (valid.length > 0) config.databases.remove = valid
+        }
+      }
+
+      // databases.environments
+      if (d.environments !== undefined) {
+        if (!isObject(d.environments)) {
+          warnings.push(`${source}: "databases.environments" is not an object, ignoring`)
+        } else {
+          const environments: Record<string, DatabaseEnvironment> = {}
+          for (const [name, env] of Object.entries(d.environments)) {
+            const key = `databases.environments.${name}`
+            if (!isObject(env)) {
+              warnings.push(`${source}: "${key}" is not an object, skipping`)
+              continue
+            }
+            const valid: DatabaseEnvironment = {}
+            if (env.sql !== undefined) {
+              if (!isObject(env.sql)) warnings.push(`${source}: "${key}.sql" is not an object, ignoring`)
+              else valid.sql = validateSqlActions(env.sql, `${key}.sql`, source, warnings)
+            }
+            if (env.patterns !== undefined) {
+              if (!isObject(env.patterns)) warnings.push(`${source}: "${key}.patterns" is not an object, ignoring`)
+              else valid.patterns = validatePatternActions(env.patterns, `${key}.patterns`, source, warnings)
+            }
+            environments[name] = valid
+          }
+          if (Object.keys(environments).length > 0) config.databases.environments = environments
+        }
+      }
     }
   }
 
   // Warn about unknown top-level keys
+  const knownKeys = new Set(['patterns', 'paths', 'tools', 'secrets', 'env', 'egress', 'mcp', 'sql', 'kube', 'cloud', 'databases', '$schema'])
   for (const key of Object.keys(raw)) {
-    if (key !== 'patterns' && key !== 'paths' && key !== '$schema') {
+    if (!knownKeys.has(key)) {
       warnings.push(`${source}: unknown key "${key}", ignoring`)
     }
   }
@@ -226,6 +934,25 @@ function validateConfig(
 // Merge two configs (global + project)
 // ---------------------------------------------------------------------------
 
+/**
+ * Cloud or database environments of `over` merged into `base`: fields
+ * replace, pattern actions merge by reason and SQL actions by category
+ */
+function mergeEnvironments<T extends CloudEnvironment | DatabaseEnvironment>(
+  base: Readonly<Record<string, T>>,
+  over: Readonly<Record<string, T>>,
+): Record<string, T> {
+  const merged: Record<string, T> = { ...base }
+  for (const [name, env] of Object.entries(over)) {
+    const from: CloudEnvironment & DatabaseEnvironment = base[name] || {}
+    const to: CloudEnvironment & DatabaseEnvironment = env
+    const patterns = from.patterns || to.patterns ? { ...from.patterns, ...to.patterns } : undefined
+    const sql = from.sql || to.sql ? { ...from.sql, ...to.sql } : undefined
+    merged[name] = { ...base[name], ...env, ...(patterns && { patterns }), ...(sql && { sql }) }
+  }
+  return merged
+}
+
 function mergeConfigs(
   global: DamageControlConfig,
   project: DamageControlConfig,
@@ -259,6 +986,118 @@ function mergeConfigs(
     if (removes.length > 0) merged.paths.remove = removes
     const overrides = { ...(gpaths?.override || {}), ...(ppaths?.override || {}) }
     if (Object.keys(overrides).length > 0) merged.paths.override = overrides
+    const exceptions = [...(gpaths?.exceptions || []), ...(ppaths?.exceptions || [])]
+    if (exceptions.length > 0) merged.paths.exceptions = exceptions
+  }
+
+  // Merge tools: per argument, project wins
+  if (global.tools || project.tools) {
+    merged.tools = { ...global.tools }
+    for (const [tool, args] of Object.entries(project.tools || {})) {
+      merged.tools[tool] = { ...merged.tools[tool], ...args }
+    }
+  }
+
+  // Merge secrets: action and redact from project win, lists concatenate
+  const gs = global.secrets
+  const ps = project.secrets
+  if (gs || ps) {
+    merged.secrets = {}
+    const action = ps?.action ?? gs?.action
+    if (action) merged.secrets.action = action
+    const allow = [...(gs?.allow || []), ...(ps?.allow || [])]
+    if (allow.length > 0) merged.secrets.allow = allow
+    const removes = [...(gs?.remove || []), ...(ps?.remove || [])]
+    if (removes.length > 0) merged.secrets.remove = removes
+    const adds = [...(gs?.add || []), ...(ps?.add || [])]
+    if (adds.length > 0) merged.secrets.add = adds
+    const redact = ps?.redact ?? gs?.redact
+    if (redact) merged.secrets.redact = redact
+  }
+
+  // Merge env like paths; the project's dump action wins
+  const ge = global.env
+  const pe = project.env
+  if (ge || pe) {
+    merged.env = {}
+    const adds = [...(ge?.add || []), ...(pe?.add || [])]
+    if (adds.length > 0) merged.env.add = adds
+    const removes = [...(ge?.remove || []), ...(pe?.remove || [])]
+    if (removes.length > 0) merged.env.remove = removes
+    const overrides = { ...(ge?.override || {}), ...(pe?.override || {}) }
+    if (Object.keys(overrides).length > 0) merged.env.override = overrides
+    const dump = pe?.dump ?? ge?.dump
+    if (dump) merged.env.dump = dump
+  }
+
+  // Merge egress: lists concatenate, the project's actions win
+  const geg = global.egress
+  const peg = project.egress
+  if (geg || peg) {
+    merged.egress = {}
+    const adds = [...(geg?.add || []), ...(peg?.add || [])]
+    if (adds.length > 0) merged.egress.add = adds
+    const removes = [...(geg?.remove || []), ...(peg?.remove || [])]
+    if (removes.length > 0) merged.egress.remove = removes
+    const allow = [...(geg?.allow || []), ...(peg?.allow || [])]
+    if (allow.length > 0) merged.egress.allow = allow
+    const upload = peg?.upload ?? geg?.upload
+    if (upload) merged.egress.upload = upload
+    const download = peg?.download ?? geg?.download
+    if (download) merged.egress.download = download
+  }
+
+  // Merge mcp like patterns
+  const gm = global.mcp
+  const pm = project.mcp
+  if (gm || pm) {
+    merged.mcp = {}
+    const adds = [...(gm?.add || []), ...(pm?.add || [])]
+    if (adds.length > 0) merged.mcp.add = adds
+    const removes = [...(gm?.remove || []), ...(pm?.remove || [])]
+    if (removes.length > 0) merged.mcp.remove = removes
+  }
+
+  // Merge sql per category; the project's action wins
+  if (global.sql || project.sql) merged.sql = { ...global.sql, ...project.sql }
+
+  // Merge kube like patterns
+  const gk = global.kube
+  const pk = project.kube
+  if (gk || pk) {
+    merged.kube = {}
+    const adds = [...(gk?.add || []), ...(pk?.add || [])]
+    if (adds.length > 0) merged.kube.add = adds
+    const removes = [...(gk?.remove || []), ...(pk?.remove || [])]
+    if (removes.length > 0) merged.kube.remove = removes
+  }
+
+  // Merge cloud identity rules like patterns, environments field by field
+  const gc = global.cloud
+  const pc = project.cloud
+  if (gc || pc) {
+    merged.cloud = {}
+    const adds = [...(gc?.add || []), ...(pc?.add || [])]
+    if (adds.length > 0) merged.cloud.add = adds
+    const removes = [...(gc?.remove || []), ...(pc?.remove || [])]
+    if (removes.length > 0) merged.cloud.remove = removes
+    if (gc?.environments || pc?.environments) {
+      merged.cloud.environments = mergeEnvironments(gc?.environments || {}, pc?.environments || {})
+    }
+  }
+
+  // Merge database host rules like patterns, environments field by field
+  const gd = global.databases
+  const pd = project.databases
+  if (gd || pd) {
+    merged.databases = {}
+    const adds = [...(gd?.add || []), ...(pd?.add || [])]
+    if (adds.length > 0) merged.databases.add = adds
+    const removes = [...(gd?.remove || []), ...(pd?.remove || [])]
+    if (removes.length > 0) merged.databases.remove = removes
+    if (gd?.environments || pd?.environments) {
+      merged.databases.environments = mergeEnvironments(gd?.environments || {}, pd?.environments || {})
+    }
   }
 
   return merged
@@ -305,8 +1144,30 @@ export function loadConfig(directory: string): {
   return { config, warnings }
 }
 
+/** Built-in policy that applyConfig starts from, keyed by section */
+export interface ConfigDefaults {
+  patterns: readonly Rule[]
+  paths: readonly ProtectedPath[]
+  exceptions?: readonly string[]
+  tools?: ToolArgMap
+  secrets?: { detectors?: readonly SecretDetector[]; allow?: readonly string[]; redact?: readonly string[] }
+  env?: { variables?: readonly ProtectedVariable[] }
+  egress?: { rules?: readonly EgressRule[]; allow?: readonly string[] }
+  toolRules?: readonly ToolRule[]
+  sql?: Partial<SqlActions>
+  kube?: readonly KubeContextRule[]
+  cloud?: {
+    identities?: readonly CloudIdentityRule[]
+    environments?: Readonly<Record<string, CloudEnvironment>>
+  }
+  databases?: {
+    hosts?: readonly DatabaseHostRule[]
+    environments?: Readonly<Record<string, DatabaseEnvironment>>
+  }
+}
+
 /**
- * Apply custom configuration on top of default patterns and paths.
+ * Apply custom configuration on top of the default policy.
  *
  * Pure function: takes defaults + config, returns new arrays.
  * Does not mutate inputs.
@@ -316,14 +1177,56 @@ export function loadConfig(directory: string): {
  *   2. Remove entries matching `remove` list
  *   3. Apply `override` to remaining entries
  *   4. Append `add` entries at the end
+ *
+ * Path exceptions start with `defaults.exceptions`, lose any listed in
+ * `paths.remove` and gain `paths.exceptions`. Tool arguments start with
+ * `defaults.tools`; `tools` entries replace them per argument and 'none'
+ * drops one. Secret detectors and the secret allowlist start with
+ * `defaults.secrets`; `secrets.remove` drops detectors by id and allowlist
+ * entries by value, `secrets.add` and `secrets.allow` are appended.
+ * `secrets.redact` replaces the default redact list. Protected environment
+ * variables go through the same steps as paths, starting with
+ * `defaults.env`. Egress rules and the egress allowlist start with
+ * `defaults.egress`; `egress.remove` drops rules by host and allowlist
+ * entries by value, `egress.add` and `egress.allow` are appended. Tool
+ * rules start with `defaults.toolRules`, lose those whose tool glob is in
+ * `mcp.remove` and gain `mcp.add`. SQL actions start with `defaults.sql`;
+ * `sql` replaces them per category and 'none' turns one off. Kube context
+ * rules start with `defaults.kube`, lose those whose context glob is in
+ * `kube.remove` and gain `kube.add`. Cloud identity rules do the same with
+ * `defaults.cloud` and `cloud.remove` / `cloud.add`; each of
+ * `cloud.environments` is merged into the default environments. Database
+ * host rules and environments follow the same steps with
+ * `defaults.databases` and `databases`.
  */
 export function applyConfig(
   config: DamageControlConfig,
-  defaultPatterns: readonly Pattern[],
-  defaultPaths: readonly ProtectedPath[],
-): { patterns: Pattern[]; paths: ProtectedPath[] } {
+  defaults: ConfigDefaults,
+): {
+  patterns: Rule[]
+  paths: ProtectedPath[]
+  exceptions: string[]
+  tools: ToolArgMap
+  secrets: { detectors: SecretDetector[]; allow: string[]; action: Action; redact: string[] }
+  env: { variables: ProtectedVariable[]; dump: Action | null }
+  egress: { rules: EgressRule[]; allow: string[]; upload: Action | null; download: Action | null }
+  toolRules: ToolRule[]
+  sql: Partial<SqlActions>
+  kube: KubeContextRule[]
+  cloud: { identities: CloudIdentityRule[]; environments: Record<string, CloudEnvironment> }
+  databases: { hosts: DatabaseHostRule[]; environments: Record<string, DatabaseEnvironment> }
+} {
+  const { patterns: defaultPatterns, paths: defaultPaths, exceptions: defaultExceptions = [] } = defaults
+  const { tools: defaultTools = {}, toolRules: defaultToolRules = [], sql: defaultSqlActions = {} } = defaults
+  const { detectors: defaultDetectors = [], allow: defaultAllow = [], redact: defaultRedact = [] } = defaults.secrets ?? {}
+  const { variables: defaultVariables = [] } = defaults.env ?? {}
+  const { rules: defaultEgressRules = [], allow: defaultEgressAllow = [] } = defaults.egress ?? {}
+  const defaultKubeContexts = defaults.kube ?? []
+  const { identities: defaultCloudIdentities = [], environments: defaultCloudEnvironments = {} } = defaults.cloud ?? {}
+  const { hosts: defaultDatabaseHosts = [], environments: defaultDatabaseEnvironments = {} } = defaults.databases ?? {}
+
   // -- Patterns --
-  let patterns = [...defaultPatterns]
+  let patterns: Rule[] = [...defaultPatterns]
   const pc = config.patterns
 
   if (pc) {
@@ -352,6 +1255,7 @@ export function applyConfig(
 
   // -- Paths --
   let paths = [...defaultPaths]
+  let exceptions = [...defaultExceptions]
   const pathc = config.paths
 
   if (pathc) {
@@ -359,6 +1263,7 @@ export function applyConfig(
     if (pathc.remove) {
       const removeSet = new Set(pathc.remove)
       paths = paths.filter((p) => !removeSet.has(p.path))
+      exceptions = exceptions.filter((e) => !removeSet.has(e))
     }
 
     // 2. Override
@@ -380,7 +1285,93 @@ export function applyConfig(
     if (pathc.add) {
       paths = [...paths, ...pathc.add]
     }
+    if (pathc.exceptions) {
+      exceptions = [...exceptions, ...pathc.exceptions]
+    }
+  }
+
+  // -- Tools --
+  const tools: ToolArgMap = { ...defaultTools }
+  for (const [tool, args] of Object.entries(config.tools || {})) {
+    const merged: Record<string, ArgSpec> = { ...tools[tool] }
+    for (const [arg, spec] of Object.entries(args)) {
+      if (spec === 'none') delete merged[arg]
+      else merged[arg] = spec
+    }
+    tools[tool] = merged
+  }
+
+  // -- Secrets --
+  const sc = config.secrets
+  const removeSecrets = new Set(sc?.remove)
+  const secrets = {
+    detectors: [...defaultDetectors.filter((d) => !removeSecrets.has(d.id)), ...(sc?.add || [])],
+    allow: [...defaultAllow.filter((a) => !removeSecrets.has(a)), ...(sc?.allow || [])],
+    action: sc?.action ?? 'block',
+    redact: [...(sc?.redact ?? defaultRedact)],
+  }
+
+  // -- Environment variables --
+  let variables = [...defaultVariables]
+  const ec = config.env
+  if (ec?.remove) {
+    const removeSet = new Set(ec.remove)
+    variables = variables.filter((v) => !removeSet.has(v.name))
+  }
+  if (ec?.override) {
+    const override = ec.override
+    variables = variables.flatMap((v) => {
+      const action = override[v.name]
+      if (action === 'none') return []
+      return action !== undefined ? [{ ...v, action }] : [v]
+    })
+  }
+  if (ec?.add) variables = [...variables, ...ec.add]
+  const env = { variables, dump: ec?.dump === 'none' ? null : (ec?.dump ?? 'block') }
+
+  // -- Egress --
+  const gc = config.egress
+  const removeEgress = new Set(gc?.remove)
+  const egress = {
+    rules: [...defaultEgressRules.filter((r) => !removeEgress.has(r.host)), ...(gc?.add || [])],
+    allow: [...defaultEgressAllow.filter((a) => !removeEgress.has(a)), ...(gc?.allow || [])],
+    upload: gc?.upload === 'none' ? null : (gc?.upload ?? 'ask'),
+    download: gc?.download === undefined || gc.download === 'none' ? null : gc.download,
+  }
+
+  // -- Tool rules --
+  const removeRules = new Set(config.mcp?.remove)
+  const toolRules = [...defaultToolRules.filter((r) => !removeRules.has(r.tool)), ...(config.mcp?.add || [])]
+
+  // -- SQL --
+  const sql: Partial<SqlActions> = { ...defaultSqlActions }
+  for (const [category, action] of Object.entries(config.sql || {})) {
+    sql[category as SqlCategory] = action === 'none' ? null : action
+  }
+
+  // -- Kube contexts --
+  const removeContexts = new Set(config.kube?.remove)
+  const kube = [...defaultKubeContexts.filter((r) => !removeContexts.has(r.context)), ...(config.kube?.add || [])]
+
+  // -- Cloud identities --
+  const removeIdentities = new Set(config.cloud?.remove)
+  const cloud = {
+    identities: [
+      ...defaultCloudIdentities.filter((r) => !removeIdentities.has(r.identity)),
+      ...(config.cloud?.add || []),
+    ],
+    environments: mergeEnvironments(defaultCloudEnvironments, config.cloud?.environments || {}),
+  }
+
+  // -- Database hosts --
+  const removeHosts = new Set(config.databases?.remove)
+  const databases = {
+    hosts: [
+      ...defaultDatabaseHosts.filter((r) => !removeHosts.has(r.host)),
+      ...(config.databases?.add || []),
+    ],
+    environments: mergeEnvironments(defaultDatabaseEnvironments, config.databases?.environments || {}),
   }
 
-  return { patterns, paths }
+  return { patterns, paths, exceptions, tools, secrets, env, egress, toolRules, sql, kube, cloud, databases }
 }
@@ -0,0 +1,328 @@
+import { commandWords, type ShellSegment } from './shell.js'
+import type { Action } from './patterns.js'
+import {
+  commandVariables,
+  compilePatternOverrides,
+  nameRegex,
+  parseArgs,
+  patternOverride,
+  resolved,
+  stepVariables,
+  type PatternOverride,
+} from './args.js'
+import type { SqlActions, SqlCategory, SqlVerdict } from './sql.js'
+
+// ---------------------------------------------------------------------------
+// Database targets
+// ---------------------------------------------------------------------------
+// `DELETE ... WHERE` against localhost is a test fixture; against
+// prod-db.internal it is an incident. Each psql, mysql, mongosh, redis-cli
+// and clickhouse-client command is resolved to the host it connects to: a
+// connection URL or conninfo string among its arguments, its host flag, or
+// the client's host variable (PGHOST, MYSQL_HOST) set inline, exported or
+// inherited. ORM commands that drop or reset a database (prisma migrate
+// reset, rails db:drop) are resolved through DATABASE_URL. Host rules map
+// hosts to environments; an environment replaces the SQL actions for the
+// statements its clients run and raises or lowers the patterns that match
+// its commands. A client given no host is not assumed to be local.
+// ---------------------------------------------------------------------------
+
+export interface DatabaseHostRule {
+  /** Host name or address glob (`*.prod.internal`, `10.1.*`) */
+  host: string
+  /** Environment the host belongs to (`prod`, `staging`, `local`) */
+  environment: string
+}
+
+export interface DatabaseEnvironment {
+  /** Action for each SQL statement category, or 'none' to allow it */
+  sql?: Partial<Record<SqlCategory, Action | 'none'>>
+  /** Action by pattern reason glob (`SQL *`) for patterns matching the command, or 'none' to allow them */
+  patterns?: Record<string, Action | 'none'>
+}
+
+/** A database client or ORM command and the host it connects to */
+export interface DatabaseTarget {
+  program: string
+  /** Host name or address, lowercased; null when it cannot be worked out */
+  host: string | null
+  port: string | null
+  /** Where the host came from: a URL, a flag or a variable */
+  source: string
+  /** What an ORM command destroys (`prisma migrate reset`), for clients null */
+  operation: SqlVerdict | null
+}
+
+/** Loopback hosts are local, hosts that look like production are prod */
+export const DEFAULT_DATABASE_HOSTS: DatabaseHostRule[] = [
+  { host: 'localhost', environment: 'local' },
+  { host: '*.localhost', environment: 'local' },
+  { host: '127.*', environment: 'local' },
+  { host: '::1', environment: 'local' },
+  { host: '*prod*', environment: 'prod' },
+]
+
+/** Block anything destructive on production; on local hosts only confirm what loses data */
+export const DEFAULT_DATABASE_ENVIRONMENTS: Record<string, DatabaseEnvironment> = {
+  prod: {
+    sql: {
+      unboundedDelete: 'block',
+      unboundedUpdate: 'block',
+      truncate: 'block',
+      dropData: 'block',
+      drop: 'block',
+      delete: 'block',
+      privilege: 'block',
+    },
+    patterns: { '*': 'block' },
+  },
+  local: {
+    sql: {
+      unboundedDelete: 'ask',
+      unboundedUpdate: 'ask',
+      truncate: 'ask',
+      dropData: 'ask',
+      drop: 'none',
+      delete: 'none',
+      privilege: 'none',
+    },
+    patterns: { 'SQL *': 'none' },
+  },
+}
+
+export interface CompiledDatabaseEnvironment {
+  sql: Partial<SqlActions>
+  patterns: PatternOverride[]
+}
+
+/** The effective host rules and environments, compiled once */
+export interface CompiledDatabases {
+  hosts: { rule: DatabaseHostRule; regex: RegExp }[]
+  environments: Map<string, CompiledDatabaseEnvironment>
+}
+
+/** The environment a target's host maps to */
+export interface DatabaseEnvironmentMatch {
+  environment: string
+  rule: DatabaseHostRule
+  settings: CompiledDatabaseEnvironment | undefined
+}
+
+interface DatabaseClient {
+  /** Flags naming the host */
+  host: readonly string[]
+  /** Flags naming the port */
+  port: readonly string[]
+  /** Flags whose value may be a connection URL or conninfo string */
+  url: readonly string[]
+  /** Flags that take a value */
+  values: ReadonlySet<string>
+  /** Variables the client reads its host and port from */
+  env: { host?: string; port?: string }
+}
+
+const MYSQL: DatabaseClient = {
+  host: ['-h', '--host'],
+  port: ['-P', '--port'],
+  url: [],
+  values: new Set(['-h', '--host', '-P', '--port', '-u', '--user', '-e', '--execute', '-D', '--database', '-S', '--socket']),
+  env: { host: 'MYSQL_HOST', port: 'MYSQL_TCP_PORT' },
+}
+
+const MONGOSH: DatabaseClient = {
+  host: ['--host'],
+  port: ['--port'],
+  url: [],
+  values: new Set(['--host', '--port', '-u', '--username', '-p', '--password', '--eval', '-f', '--file', '--authenticationDatabase']),
+  env: {},
+}
+
+const CLIENTS: Record<string, DatabaseClient> = {
+  psql: {
+    host: ['-h', '--host'],
+    port: ['-p', '--port'],
+    url: ['-d', '--dbname'],
+    values: new Set([
+      '-h', '--host', '-p', '--port', '-U', '--username', '-d', '--dbname', '-c', '--command', '-f', '--file',
+      '-v', '--set', '--variable', '-o', '--output', '-P', '--pset', '-F', '-R', '-L', '--log-file',
+    ]),
+    env: { host: 'PGHOST', port: 'PGPORT' },
+  },
+  mysql: MYSQL,
+  mariadb: MYSQL,
+  mongosh: MONGOSH,
+  mongo: MONGOSH,
+  'redis-cli': {
+    host: ['-h'],
+    port: ['-p'],
+    url: ['-u'],
+    values: new Set(['-h', '-p', '-u', '-a', '-n', '-s', '--user', '--pass']),
+    env: {},
+  },
+  'clickhouse-client': {
+    host: ['-h', '--host'],
+    port: ['--port'],
+    url: [],
+    values: new Set(['-h', '--host', '--port', '-u', '--user', '--password', '-q', '--query', '-d', '--database']),
+    env: {},
+  },
+}
+
+/** ORM commands that drop, reset or empty the database they are pointed at */
+const ORM_COMMANDS: { program: string; command: string; flag?: string; category: SqlCategory }[] = [
+  { program: 'prisma', command: 'migrate reset', category: 'dropData' },
+  { program: 'prisma', command: 'db push', flag: '--force-reset', category: 'dropData' },
+  ...['rails', 'rake'].flatMap((program) => [
+    { program, command: 'db:drop', category: 'dropData' as const },
+    { program, command: 'db:reset', category: 'dropData' as const },
+    { program, command: 'db:purge', category: 'dropData' as const },
+    { program, command: 'db:migrate:reset', category: 'dropData' as const },
+    { program, command: 'db:schema:load', category: 'dropData' as const },
+    { program, command: 'db:truncate_all', category: 'truncate' as const },
+  ]),
+  { program: 'sequelize', command: 'db:drop', category: 'dropData' },
+  { program: 'sequelize-cli', command: 'db:drop', category: 'dropData' },
+  { program: 'typeorm', command: 'schema:drop', category: 'dropData' },
+]
+
+/** Package runners in front of an ORM CLI (`npx prisma`, `bundle exec rails`) and the subcommands they run it through */
+const RUNNERS: Record<string, ReadonlySet<string>> = {
+  npx: new Set(),
+  bunx: new Set(),
+  pnpx: new Set(),
+  pnpm: new Set(['exec', 'dlx']),
+  yarn: new Set(['exec', 'dlx']),
+  bundle: new Set(['exec']),
+}
+
+const URL_RE = /^(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|clickhouse):\/\/(?:[^@/?#]*@)?([^/?#]*)/i
+
+const CONNINFO_HOST_RE = /(?:^|\s)host\s*=\s*'?([^\s',]+)/
+
+export function compileDatabases(
+  hosts: readonly DatabaseHostRule[],
+  environments: Readonly<Record<string, DatabaseEnvironment>>,
+): CompiledDatabases {
+  return {
+    hosts: hosts.map((rule) => ({ rule, regex: nameRegex(rule.host) })),
+    environments: new Map(
+      Object.entries(environments).map(([name, env]) => [
+        name,
+        {
+          sql: Object.fromEntries(
+            Object.entries(env.sql || {}).map(([category, action]) => [category, action === 'none' ? null : action]),
+          ),
+          patterns: compilePatternOverrides(env.patterns),
+        },
+      ]),
+    ),
+  }
+}
+
+/**
+ * The first host and port of a connection URL (`postgres://app@db:5432/app`,
+ * `mongodb+srv://cluster0.example.net`), or null when `url` is not one or
+ * names no host
+ */
+export function parseConnectionUrl(url: string): { host: string; port: string | null } | null {
+  const authority = URL_RE.exec(url)?.[1].split(',')[0]
+  const match = authority ? /^(\[[^\]]*\]|[^:]*)(?::(\d+))?$/.exec(authority) : null
+  const host = match?.[1].replace(/^\[|\]$/g, '').toLowerCase()
+  return host ? { host, port: match![2] ?? null } : null
+}
+
+/** `words` without a package runner in front (`npx prisma ...` -> `prisma ...`) */
+function stripRunner(words: readonly string[]): string[] {
+  const subcommands = RUNNERS[words[0]]
+  if (!subcommands) return [...words]
+  let i = 1
+  while (words[i]?.startsWith('-')) i++
+  return words.slice(subcommands.has(words[i]) ? i + 1 : i)
+}
+
+/** The connection target of a database client's arguments */
+function clientTarget(client: DatabaseClient, args: readonly string[], vars: Record<string, string | undefined>) {
+  const { operands, flags } = parseArgs(args, client.values)
+  const flag = (names: readonly string[]) => names.find((name) => typeof flags.get(name) === 'string')
+
+  // A connection URL or conninfo string among the operands or URL flags
+  for (const [value, source] of [
+    ...client.url.map((name) => [flags.get(name), name] as const),
+    ...operands.map((operand) => [operand, 'argument'] as const),
+  ]) {
+    if (typeof value !== 'string') continue
+    const url = parseConnectionUrl(value)
+    if (url) return { ...url, source: `${source === 'argument' ? '' : `${source} `}URL` }
+    const conninfo = CONNINFO_HOST_RE.exec(value)
+    if (conninfo) return { host: resolved(conninfo[1])?.toLowerCase() ?? null, port: null, source: 'conninfo' }
+  }
+
+  const hostFlag = flag(client.host)
+  const portFlag = flag(client.port)
+  const port = portFlag ? resolved(String(flags.get(portFlag))) : client.env.port ? resolved(vars[client.env.port]) : null
+  if (hostFlag) {
+    return { host: resolved(String(flags.get(hostFlag)))?.toLowerCase() ?? null, port, source: hostFlag }
+  }
+  if (client.env.host && vars[client.env.host] !== undefined) {
+    return { host: vars[client.env.host]?.toLowerCase() || null, port, source: client.env.host }
+  }
+  return { host: null, port, source: '' }
+}
+
+/**
+ * The database clients and destructive ORM commands among `segments`,
+ * each with the host it connects to; null for other steps. `env` is the
+ * environment the command starts with; assignments and exports
+ * (`export PGHOST=db`) change it for later steps.
+ */
+export function databaseTargets(
+  segments: readonly ShellSegment[],
+  env: Readonly<Record<string, string | undefined>> = process.env,
+): (DatabaseTarget | null)[] {
+  const vars = commandVariables(env)
+  return segments.map((segment) => {
+    const own = stepVariables(vars, segment)
+    if (!own) return null
+
+    let [program = '', ...args] = stripRunner(commandWords(segment))
+    if (program === 'clickhouse' && args[0] === 'client') [program, ...args] = ['clickhouse-client', ...args.slice(1)]
+    const client = CLIENTS[program]
+    if (client) return { program, ...clientTarget(client, args, own), operation: null }
+
+    const operands = args.filter((a) => !a.startsWith('-'))
+    const orm = ORM_COMMANDS.find(
+      (c) =>
+        c.program === program &&
+        c.command.split(' ').every((word, i) => operands[i] === word) &&
+        (!c.flag || args.includes(c.flag)),
+    )
+    if (!orm) return null
+    const url = own.DATABASE_URL !== undefined ? parseConnectionUrl(resolved(own.DATABASE_URL) ?? '') : null
+    return {
+      program,
+      host: url?.host ?? null,
+      port: url?.port ?? null,
+      source: own.DATABASE_URL !== undefined ? 'DATABASE_URL' : '',
+      operation: { category: orm.category, reason: [program, orm.command, orm.flag].filter(Boolean).join(' ') },
+    }
+  })
+}
+
+/**
+ * The environment `target` connects to: that of the last host rule whose
+ * glob matches its host, so rules added by config take precedence over
+ * the defaults.
+ */
+export function matchDatabaseEnvironment(target: DatabaseTarget, compiled: CompiledDatabases): DatabaseEnvironmentMatch | null {
+  if (target.host === null) return null
+  let found: DatabaseHostRule | null = null
+  for (const { rule, regex } of compiled.hosts) {
+    if (regex.test(target.host)) found = rule
+  }
+  return found && { environment: found.environment, rule: found, settings: compiled.environments.get(found.environment) }
+}
+
+/** The action the environment of `match` gives a pattern; see patternOverride */
+export function databasePatternAction(match: DatabaseEnvironmentMatch, reason: string): Action | null | undefined {
+  return patternOverride(match.settings?.patterns, reason)
+}
@@ -0,0 +1,455 @@
+import { commandWords, type ShellRedirect, type ShellSegment } from './shell.js'
+import type { Action } from './patterns.js'
+
+// ---------------------------------------------------------------------------
+// Network egress
+// ---------------------------------------------------------------------------
+// Where commands and tools send requests. Network clients (curl, wget, nc,
+// scp, rsync...) are parsed into the hosts they contact and whether they
+// upload data (curl -d @file, curl -T, nc host < file, scp file host:) or
+// only download. Hosts are checked against rules first (cloud metadata and
+// link-local addresses block by default), then names that spell out a
+// private address (10.0.0.1.nip.io) block, then uploads to hosts outside
+// the allowlist ask. Rules and allowlist entries are host globs
+// (`*.example.com`), IP addresses or CIDR ranges (`10.0.0.0/8`, `fe80::/10`).
+// ---------------------------------------------------------------------------
+
+export type Direction = 'upload' | 'download'
+
+export interface EgressRule {
+  /** Host glob (`*.example.com`), IP address or CIDR range (`169.254.0.0/16`) */
+  host: string
+  action: Action
+  /** Only apply to uploads or to downloads; both when omitted */
+  direction?: Direction
+  reason?: string
+}
+
+/** A request a command or tool makes */
+export interface NetworkRequest {
+  /** Host name (lowercase) or IP address (IPv6 without brackets) */
+  host: string
+  direction: Direction
+  /** Program or tool that makes it */
+  program: string
+}
+
+export const DEFAULT_EGRESS_RULES: EgressRule[] = [
+  { host: '169.254.169.254', action: 'block', reason: 'Request to cloud metadata endpoint' },
+  { host: 'fd00:ec2::254', action: 'block', reason: 'Request to cloud metadata endpoint' },
+  { host: 'metadata.google.internal', action: 'block', reason: 'Request to cloud metadata endpoint' },
+  { host: 'metadata', action: 'block', reason: 'Request to cloud metadata endpoint' },
+  { host: '100.100.100.200', action: 'block', reason: 'Request to cloud metadata endpoint' },
+  { host: '169.254.0.0/16', action: 'block', reason: 'Request to link-local address' },
+  { host: 'fe80::/10', action: 'block', reason: 'Request to link-local address' },
+]
+
+/** Loopback: uploads to a local dev server are not egress */
+export const DEFAULT_EGRESS_ALLOW: string[] = ['localhost', '127.0.0.0/8', '::1']
+
+interface Ip {
+  version: 4 | 6
+  value: bigint
+}
+
+/** A host as rules see it */
+interface Host {
+  name: string
+  ip: Ip | null
+  /** IPv4 addresses spelled out in the name, which wildcard DNS resolves to (10.0.0.1.nip.io) */
+  embedded: Ip[]
+}
+
+type HostMatcher = (host: Host) => boolean
+
+/** The effective egress policy, compiled once */
+export interface CompiledEgress {
+  rules: { rule: EgressRule; matches: HostMatcher }[]
+  allow: HostMatcher[]
+  /** Action for uploads to hosts outside the allowlist; null allows them */
+  upload: Action | null
+  /** Action for downloads from hosts outside the allowlist; null allows them */
+  download: Action | null
+}
+
+export interface EgressVerdict {
+  action: Action
+  reason: string
+  /** Rule that matched; null when the host is outside the allowlist or names a private address */
+  rule: EgressRule | null
+}
+
+// ---------------------------------------------------------------------------
+// Hosts and addresses
+// ---------------------------------------------------------------------------
+
+/** Parse an IPv4 or IPv6 address; IPv4-mapped IPv6 (::ffff:a.b.c.d) is IPv4 */
+function parseIp(text: string): Ip | null {
+  const v4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(text)
+  if (v4) {
+    const octets = v4.slice(1).map(Number)
+    if (octets.some((o) => o > 255)) return null
+    return { version: 4, value: octets.reduce((n, o) => (n << 8n) + BigInt(o), 0n) }
+  }
+  if (!text.includes(':')) return null
+
+  const halves = text.replace(/%.*$/, '').split('::')
+  if (halves.length > 2) return null
+  const [head, tail] = halves.map((h) => (h === '' ? [] : h.split(':')))
+  // A trailing dotted quad fills the last two groups
+  const last = tail ?? head
+  if (last.length > 0 && last[last.length - 1].includes('.')) {
+    const embedded = parseIp(last[last.length - 1])
+    if (embedded?.version !== 4) return null
+    last.splice(-1, 1, (embedded.value >> 16n).toString(16), (embedded.value & 0xffffn).toString(16))
+  }
+  const missing = 8 - head.length - (tail?.length ?? 0)
+  if (tail ? missing < 1 : missing !== 0) return null
+  const groups = [...head, ...Array<string>(tail ? missing : 0).fill('0'), ...(tail ?? [])]
+  if (!groups.every((g) => /^[0-9a-f]{1,4}$/i.test(g))) return null
+
+  const value = groups.reduce((n, g) => (n << 16n) + BigInt(parseInt(g, 16)), 0n)
+  if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn }
+  return { version: 6, value }
+}
+
+/** Four decimal labels joined by dots or dashes, at any label of a name */
+const EMBEDDED_IPV4_RE = /(?<=^|[.-])(?=(\d{1,3})[.-](\d{1,3})[.-](\d{1,3})[.-](\d{1,3})(?:[.-]|$))/g
+
+function toHost(host: string): Host {
+  const name = host.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '')
+  const ip = parseIp(name)
+  const embedded: Ip[] = []
+  if (!ip) {
+    for (const m of name.matchAll(EMBEDDED_IPV4_RE)) {
+      const address = parseIp(m.slice(1, 5).join('.'))
+      if (address) embedded.push(address)
+    }
+  }
+  return { name, ip, embedded }
+}
+
+/** Prefix test for an address or CIDR range; null when `pattern` is neither */
+function ipMatcher(pattern: string): ((ip: Ip | null) => boolean) | null {
+  const [bracketed, bits] = pattern.toLowerCase().split('/')
+  const ip = parseIp(bracketed.replace(/^\[|\]$/g, ''))
+  if (!ip) return null
+  const width = ip.version === 4 ? 32 : 128
+  const prefix = bits === undefined ? width : Number(bits)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > width) return () => false
+  const shift = BigInt(width - prefix)
+  return (other) => other?.version === ip.version && other.value >> shift === ip.value >> shift
+}
+
+/**
+ * Private, shared and link-local IPv4 ranges. A host name that spells out
+ * one of these (10.0.0.1.nip.io, 192-168-1-1.sslip.io) reaches the internal
+ * network under a name no rule expects.
+ */
+const PRIVATE_RANGES = ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', '100.64.0.0/10', '169.254.0.0/16'].flatMap(
+  (range) => ipMatcher(range) ?? [],
+)
+
+/**
+ * Compile a rule or allowlist entry. An address or CIDR range matches by
+ * prefix, and with `embedded` also names that spell out a matching address
+ * (169.254.169.254.nip.io); anything else is a host glob where `*` matches
+ * any run of name characters, dots included.
+ */
+function hostMatcher(pattern: string, embedded = false): HostMatcher {
+  const matches = ipMatcher(pattern)
+  if (matches) return (host) => matches(host.ip) || (embedded && host.embedded.some(matches))
+  if (pattern.includes('/')) return () => false
+  const address = pattern.toLowerCase().replace(/^\[|\]$/g, '')
+  const source = address.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[a-z0-9_.-]*').replace(/\?/g, '[a-z0-9_-]')
+  const regex = new RegExp(`^${source}$`)
+  return ({ name }) => regex.test(name)
+}
+
+/**
+ * Host of a URL, or of a bare `host[:port][/path]` as curl and wget accept
+ * it. Numeric spellings of IPv4 addresses (2852039166, 0xa9.0xfe.0xa9.0xfe)
+ * come back dotted. Null when there is no host or it is not known yet
+ * (`https://$HOST/`).
+ */
+export function urlHost(target: string): string | null {
+  if (/[$`]/.test(target)) return null
+  const url = /^[a-z][a-z0-9+.-]*:\/\//i.test(target) ? target : `http://${target}`
+  try {
+    const host = toHost(new URL(url).hostname).name
+    return host || null
+  } catch {
+    return null
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Network clients
+// ---------------------------------------------------------------------------
+
+interface ParsedArgs {
+  operands: string[]
+  options: { flag: string; value?: string }[]
+}
+
+/**
+ * Split arguments into operands and options. `longValues` are the long
+ * options that take the next argument, `shortValues` the letters of short
+ * options that do (the rest of a cluster, or the next argument).
+ */
+function parseArgs(args: readonly string[], longValues: ReadonlySet<string>, shortValues: string): ParsedArgs {
+  const operands: string[] = []
+  const options: ParsedArgs['options'] = []
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--') {
+      operands.push(...args.slice(i + 1))
+      break
+    }
+    if (arg.startsWith('--')) {
+      const eq = arg.indexOf('=')
+      if (eq > 0) options.push({ flag: arg.slice(0, eq), value: arg.slice(eq + 1) })
+      else options.push(longValues.has(arg) ? { flag: arg, value: args[++i] } : { flag: arg })
+    } else if (arg.startsWith('-') && arg.length > 1) {
+      for (let j = 1; j < arg.length; j++) {
+        if (!shortValues.includes(arg[j])) {
+          options.push({ flag: `-${arg[j]}` })
+          continue
+        }
+        options.push({ flag: `-${arg[j]}`, value: j + 1 < arg.length ? arg.slice(j + 1) : args[++i] })
+        break
+      }
+    } else {
+      operands.push(arg)
+    }
+  }
+  return { operands, options }
+}
+
+const hasOption = ({ options }: ParsedArgs, flags: ReadonlySet<string>) => options.some((o) => flags.has(o.flag))
+
+const CURL_LONG_VALUES: ReadonlySet<string> = new Set([
+  '--data', '--data-ascii', '--data-binary', '--data-raw', '--data-urlencode', '--json', '--form',
+  '--form-string', '--upload-file', '--url', '--output', '--output-dir', '--header', '--request', '--user',
+  '--user-agent', '--referer', '--cookie', '--cookie-jar', '--config', '--proxy', '--proxy-user',
+  '--preproxy', '--socks4', '--socks5', '--socks5-hostname', '--resolve', '--connect-to', '--write-out',
+  '--range', '--continue-at', '--limit-rate', '--max-time', '--connect-timeout', '--retry',
+  '--retry-delay', '--retry-max-time', '--max-filesize', '--interface', '--dns-servers', '--cacert',
+  '--capath', '--cert', '--key', '--cert-type', '--key-type', '--dump-header', '--trace', '--trace-ascii',
+  '--stderr', '--time-cond', '--unix-socket', '--abstract-unix-socket', '--noproxy', '--oauth2-bearer',
+  '--aws-sigv4', '--variable', '--url-query', '--proto', '--proto-redir', '--local-port', '--speed-limit',
+  '--speed-time', '--netrc-file', '--quote', '--mail-from', '--mail-rcpt', '--expect100-timeout',
+])
+const CURL_SHORT_VALUES = 'AbcCdDeEFHKmoPQrtTuUwxXyYz'
+const CURL_UPLOAD: ReadonlySet<string> = new Set([
+  '-d', '--data', '--data-ascii', '--data-binary', '--data-raw', '--data-urlencode', '--json',
+  '-F', '--form', '--form-string', '-T', '--upload-file',
+])
+
+const WGET_LONG_VALUES: ReadonlySet<string> = new Set([
+  '--output-document', '--output-file', '--append-output', '--directory-prefix', '--user-agent', '--execute',
+  '--input-file', '--tries', '--timeout', '--wait', '--quota', '--level', '--accept', '--reject', '--domains',
+  '--include-directories', '--exclude-directories', '--base', '--header', '--user', '--password',
+  '--http-user', '--http-password', '--post-data', '--post-file', '--body-data', '--body-file', '--method',
+  '--referer', '--load-cookies', '--save-cookies', '--ca-certificate', '--certificate', '--private-key',
+  '--bind-address', '--limit-rate',
+])
+const WGET_SHORT_VALUES = 'OoaPUeitTwQlARDIXB'
+const WGET_UPLOAD: ReadonlySet<string> = new Set(['--post-data', '--post-file', '--body-data', '--body-file'])
+
+const NC_LONG_VALUES: ReadonlySet<string> = new Set(['--source', '--source-port', '--exec', '--sh-exec', '--proxy', '--wait'])
+const NC_SHORT_VALUES = 'pswiqxXecgGIOTVW'
+const NC_LISTEN: ReadonlySet<string> = new Set(['-l', '--listen'])
+
+const SSH_SHORT_VALUES = 'BbcDEeFIiJLlmOoPpQRSWw'
+const SCP_SHORT_VALUES = 'cFiJloPSDX'
+const SFTP_SHORT_VALUES = 'BbcDFiJloPRSs'
+const RSYNC_LONG_VALUES: ReadonlySet<string> = new Set([
+  '--rsh', '--filter', '--exclude', '--include', '--exclude-from', '--include-from', '--files-from',
+  '--block-size', '--port', '--partial-dir', '--temp-dir', '--backup-dir', '--suffix', '--chmod', '--chown',
+  '--log-file', '--password-file', '--bwlimit', '--timeout', '--contimeout', '--rsync-path', '--max-size',
+  '--min-size', '--compare-dest', '--copy-dest', '--link-dest', '--remote-option', '--out-format',
+])
+const RSYNC_SHORT_VALUES = 'efBTM'
+const NONE: ReadonlySet<string> = new Set()
+
+/** socat addresses that open a network connection (TCP:host:port) */
+const SOCAT_ADDRESS_RE = /^(?:(?:tcp|udp|sctp)[46]?|openssl)(?:-connect|-sendto)?:(\[[^\]]+\]|[^:,]+)|^(?:socks4a?|socks5|proxy):([^:,]+)/i
+
+/**
+ * Host of a remote path (`user@host:path`, `host::module`, `scp://host/`).
+ * Single letters are drive names (C:\...), not hosts.
+ */
+function remoteHost(arg: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(arg)) return urlHost(arg)
+  const m = /^(?:[^@/:]+@)?(\[[^\]]+\]|[^/:@[\]]{2,}):/.exec(arg)
+  return m ? toHost(m[1]).name : null
+}
+
+/** Host of `user@host` or `host` */
+const loginHost = (arg: string | undefined) => (arg ? urlHost(arg.replace(/^[^@]*@/, '')) : null)
+
+/** Requests of a copy between local and remote paths (scp, rsync): the last operand is the destination */
+function copyRequests(operands: readonly string[]): { host: string | null; direction: Direction }[] {
+  const destination = operands[operands.length - 1]
+  return [
+    ...operands.slice(0, -1).map((op) => ({ host: remoteHost(op), direction: 'download' as const })),
+    { host: destination === undefined ? null : remoteHost(destination), direction: 'upload' as const },
+  ]
+}
+
+type Client = (args: readonly string[], stdin: boolean) => { host: string | null; direction: Direction }[]
+
+const streamClient = (shortValues: string, longValues = NONE): Client => (args, stdin) => {
+  const parsed = parseArgs(args, longValues, shortValues)
+  if (hasOption(parsed, NC_LISTEN)) return []
+  return [{ host: loginHost(parsed.operands[0]), direction: stdin ? 'upload' : 'download' }]
+}
+
+/**
+ * Network clients by program. sftp and socat move data both ways, so they
+ * count as uploads; ssh only when its input is redirected or piped
+ * (`tar cz . | ssh host 'cat > x.tgz'`).
+ */
+const CLIENTS: Record<string, Client> = {
+  curl: (args) => {
+    const parsed = parseArgs(args, CURL_LONG_VALUES, CURL_SHORT_VALUES)
+    const urls = [...parsed.operands, ...parsed.options.filter((o) => o.flag === '--url').map((o) => o.value ?? '')]
+    const direction = hasOption(parsed, CURL_UPLOAD) ? 'upload' : 'download'
+    return urls.map((url) => ({ host: urlHost(url), direction }))
+  },
+  wget: (args) => {
+    const parsed = parseArgs(args, WGET_LONG_VALUES, WGET_SHORT_VALUES)
+    const direction = hasOption(parsed, WGET_UPLOAD) ? 'upload' : 'download'
+    return parsed.operands.map((url) => ({ host: urlHost(url), direction }))
+  },
+  nc: streamClient(NC_SHORT_VALUES, NC_LONG_VALUES),
+  ncat: streamClient(NC_SHORT_VALUES, NC_LONG_VALUES),
+  netcat: streamClient(NC_SHORT_VALUES, NC_LONG_VALUES),
+  telnet: streamClient('belnX'),
+  socat: (args) => {
+    const { operands } = parseArgs(args, NONE, '')
+    return operands.flatMap((address) => {
+      const m = SOCAT_ADDRESS_RE.exec(address)
+      return m ? [{ host: toHost(m[1] ?? m[2]).name, direction: 'upload' as const }] : []
+    })
+  },
+  ssh: (args, stdin) => {
+    if (!stdin) return []
+    return [{ host: loginHost(parseArgs(args, NONE, SSH_SHORT_VALUES).operands[0]), direction: 'upload' }]
+  },
+  scp: (args) => copyRequests(parseArgs(args, NONE, SCP_SHORT_VALUES).operands),
+  rsync: (args) => copyRequests(parseArgs(args, RSYNC_LONG_VALUES, RSYNC_SHORT_VALUES).operands),
+  sftp: (args) => {
+    const [target] = parseArgs(args, NONE, SFTP_SHORT_VALUES).operands
+    return [{ host: target && (remoteHost(target) ?? loginHost(target)), direction: 'upload' }]
+  },
+}
+
+/** curl options whose value is sent as is, or read from the file after `@` */
+const CURL_DATA: ReadonlySet<string> = new Set(['-d', '--data', '--data-ascii', '--data-binary', '--json'])
+const WGET_FILES: ReadonlySet<string> = new Set(['--post-file', '--body-file'])
+
+/** The local file a curl upload option sends, if it names one */
+function curlFile(flag: string, value: string): string | null {
+  if (flag === '-T' || flag === '--upload-file') return value
+  // -F name=@file;type=text/plain, -F name=<file
+  if (flag === '-F' || flag === '--form') return /^[^=]*=[@<]([^;]+)/.exec(value)?.[1] ?? null
+  // --data-urlencode @file or name@file
+  if (flag === '--data-urlencode') return /^[^=@]*@(.+)$/.exec(value)?.[1] ?? null
+  return CURL_DATA.has(flag) && value.startsWith('@') ? value.slice(1) : null
+}
+
+/**
+ * The local files `segment` uploads: `curl -d @file`, `-F name=@file`,
+ * `-T file`, `wget --post-file file`. Standard input (`@-`, `-T .`) is
+ * not a file.
+ */
+export function uploadedFiles(segment: ShellSegment): string[] {
+  const [program = '', ...args] = commandWords(segment)
+  let files: (string | null)[]
+  if (program === 'curl') {
+    const { options } = parseArgs(args, CURL_LONG_VALUES, CURL_SHORT_VALUES)
+    files = options.map(({ flag, value }) => (value === undefined ? null : curlFile(flag, value)))
+  } else if (program === 'wget') {
+    const { options } = parseArgs(args, WGET_LONG_VALUES, WGET_SHORT_VALUES)
+    files = options.map(({ flag, value }) => (WGET_FILES.has(flag) ? value ?? null : null))
+  } else {
+    return []
+  }
+  return files.filter((file): file is string => !!file && file !== '-' && file !== '.')
+}
+
+/** Redirections that feed a file or text to standard input */
+function isInput({ op }: ShellRedirect): boolean {
+  return /^0?(?:<|<<|<<-|<<<|<>)$/.test(op)
+}
+
+/**
+ * The requests `segment` makes. `piped` says its standard input comes
+ * from the previous command of a pipeline, which makes a stream client
+ * (nc, ssh) an upload.
+ */
+export function networkRequests(segment: ShellSegment, piped = false): NetworkRequest[] {
+  const [program = '', ...args] = commandWords(segment)
+  const client = CLIENTS[program]
+  if (!client) return []
+  const stdin = piped || segment.redirects.some(isInput)
+  const requests: NetworkRequest[] = []
+  for (const { host, direction } of client(args, stdin)) {
+    if (host && !requests.some((r) => r.host === host && r.direction === direction)) {
+      requests.push({ host, direction, program })
+    }
+  }
+  return requests
+}
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+export function compileEgress(
+  rules: readonly EgressRule[],
+  allow: readonly string[] = [],
+  upload: Action | null = 'ask',
+  download: Action | null = null,
+): CompiledEgress {
+  return {
+    rules: rules.map((rule) => ({ rule, matches: hostMatcher(rule.host, true) })),
+    allow: allow.map((entry) => hostMatcher(entry)),
+    upload,
+    download,
+  }
+}
+
+/**
+ * What the policy does with `request`: the most severe matching rule
+ * (block over ask, then list order), else the upload or download action
+ * for hosts outside the allowlist. Null when the request may go ahead.
+ */
+export function checkEgress(request: NetworkRequest, compiled: CompiledEgress): EgressVerdict | null {
+  const host = toHost(request.host)
+  let found: EgressRule | null = null
+  for (const { rule, matches } of compiled.rules) {
+    if ((rule.direction && rule.direction !== request.direction) || !matches(host)) continue
+    if (rule.action === 'block') {
+      found = rule
+      break
+    }
+    found ??= rule
+  }
+  if (found) {
+    const reason = found.reason ?? `Request to denied host ${found.host}`
+    return { action: found.action, reason, rule: found }
+  }
+  if (host.embedded.some((ip) => PRIVATE_RANGES.some((inRange) => inRange(ip)))) {
+    return { action: 'block', reason: 'Request to a host name that resolves to a private address', rule: null }
+  }
+
+  const action = compiled[request.direction]
+  if (!action || compiled.allow.some((matches) => matches(host))) return null
+  const reason = request.direction === 'upload'
+    ? `Upload to ${request.host}, which is not in the egress allowlist`
+    : `Download from ${request.host}, which is not in the egress allowlist`
+  return { action, reason, rule: null }
+}
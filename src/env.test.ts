@@ -0,0 +1,135 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseShellCommand } from './shell.js'
+import {
+  checkEnvironmentAccess,
+  compileVariables,
+  DEFAULT_PROTECTED_VARIABLES,
+  environmentDump,
+  environmentReads,
+  matchVariable,
+} from './env.js'
+
+const segment = (command: string) => parseShellCommand(command)[0]
+
+// ---------------------------------------------------------------------------
+// environmentDump
+// ---------------------------------------------------------------------------
+
+describe('environmentDump', () => {
+  const cases: [string, string | null][] = [
+    ['env', 'env'],
+    ['sudo env', 'env'],
+    ['env -0', 'env'],
+    ['printenv', 'printenv'],
+    ['printenv -0', 'printenv'],
+    ['set', 'set'],
+    ['export', 'export'],
+    ['export -p', 'export -p'],
+    ['declare -px', 'declare -px'],
+    ['cat /proc/self/environ', '/proc/*/environ'],
+    ['tr "\\0" "\\n" < /proc/1/environ', '/proc/*/environ'],
+    ['strings /proc/$$/environ', '/proc/*/environ'],
+    ['node -e "console.log(process.env)"', 'process.env'],
+    ['node -p "JSON.stringify(process.env)"', 'process.env'],
+    ['python3 -c "import os; print(os.environ)"', 'os.environ'],
+    ['python -c "import os; print(dict(os.environ.items()))"', 'os.environ'],
+    ["ruby -e 'p ENV'", 'ENV'],
+    ["perl -e 'print %ENV'", '%ENV'],
+    ['pwsh -c "Get-ChildItem env:"', null],
+    ['Get-ChildItem env:', 'Get-ChildItem env:'],
+    ['gci Env:\\', 'gci env:'],
+    ['env NODE_ENV=test npm test', null],
+    ['printenv HOME', null],
+    ['set -euo pipefail', null],
+    ['export PATH=/usr/bin:$PATH', null],
+    ['declare -f my_function', null],
+    ['node -e "console.log(process.env.HOME)"', null],
+    ['grep -rn "process.env" src/', null],
+    ['python3 -c "import os; print(os.environ.get(\'HOME\'))"', null],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should ${expected ? 'detect' : 'ignore'}: ${command}`, () => {
+      assert.equal(environmentDump(segment(command)), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// environmentReads
+// ---------------------------------------------------------------------------
+
+describe('environmentReads', () => {
+  const cases: [string, string[]][] = [
+    ['echo $GITHUB_TOKEN', ['GITHUB_TOKEN']],
+    ['echo "${NPM_TOKEN:-none}" $1', ['NPM_TOKEN']],
+    ["echo '$NOT_EXPANDED' \\$ALSO_NOT", []],
+    ['printenv AWS_SECRET_ACCESS_KEY', ['AWS_SECRET_ACCESS_KEY']],
+    ['declare -p DB_PASSWORD', ['DB_PASSWORD']],
+    ['node -e "console.log(process.env.STRIPE_KEY, process.env[\'OTHER\'])"', ['STRIPE_KEY', 'OTHER']],
+    ['python3 -c "import os; print(os.environ[\'A\'], os.getenv(\'B\'))"', ['A', 'B']],
+    ["ruby -e 'puts ENV[\"C\"]'", ['C']],
+    ['echo %API_KEY%', ['API_KEY']],
+    ['Write-Output $env:AZURE_CLIENT_SECRET', ['AZURE_CLIENT_SECRET']],
+    ['grep -rn "process.env.STRIPE_KEY" src/', []],
+    ['GITHUB_TOKEN=abc gh pr list', []],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should read ${JSON.stringify(expected)}: ${command}`, () => {
+      assert.deepStrictEqual(environmentReads(segment(command)), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// matchVariable / checkEnvironmentAccess
+// ---------------------------------------------------------------------------
+
+describe('matchVariable', () => {
+  const compiled = compileVariables(DEFAULT_PROTECTED_VARIABLES)
+
+  const cases: [string, string | null, string | null][] = [
+    ['GITHUB_TOKEN', '*_TOKEN', 'ask'],
+    ['github_token', '*_TOKEN', 'ask'],
+    ['AWS_SECRET_ACCESS_KEY', 'AWS_SECRET_ACCESS_KEY', 'block'],
+    ['AWS_REGION', 'AWS_*', 'ask'],
+    ['DEPLOY_PRIVATE_KEY', '*_PRIVATE_KEY', 'block'],
+    ['CLIENT_SECRET_VALUE', '*_SECRET_*', 'ask'],
+    ['HOME', null, null],
+    ['TOKENIZERS_PARALLELISM', null, null],
+  ]
+
+  for (const [name, rule, action] of cases) {
+    it(`should match ${name} to ${rule}`, () => {
+      const variable = matchVariable(name, compiled)
+      assert.equal(variable?.name ?? null, rule)
+      assert.equal(variable?.action ?? null, action)
+    })
+  }
+
+  it('should prefer a block rule listed after an ask rule', () => {
+    const custom = compileVariables([
+      { name: 'DEPLOY_*', action: 'ask' },
+      { name: 'DEPLOY_KEY', action: 'block' },
+    ])
+    assert.equal(matchVariable('DEPLOY_KEY', custom)?.action, 'block')
+  })
+})
+
+describe('checkEnvironmentAccess', () => {
+  it('should report a dump, then each protected variable read', () => {
+    const compiled = compileVariables(DEFAULT_PROTECTED_VARIABLES, 'ask')
+    const command = 'node -e "console.log(process.env, process.env.NPM_TOKEN, process.env.HOME)"'
+    const accesses = checkEnvironmentAccess(segment(command), compiled)
+    assert.deepStrictEqual(
+      accesses.map((a) => [a.kind === 'variable' ? a.name : a.kind, a.action]),
+      [['dump', 'ask'], ['NPM_TOKEN', 'ask']],
+    )
+  })
+
+  it('should not report dumps when the dump action is null', () => {
+    assert.deepStrictEqual(checkEnvironmentAccess(segment('env'), compileVariables([], null)), [])
+  })
+})
@@ -0,0 +1,177 @@
+import { commandWords, type ShellSegment } from './shell.js'
+import { variableReferences } from './variables.js'
+import type { Action } from './patterns.js'
+import { nameRegex } from './args.js'
+
+// ---------------------------------------------------------------------------
+// Protected environment variables
+// ---------------------------------------------------------------------------
+// Credentials often live in the environment rather than on disk. A command
+// exposes them by dumping the whole environment (env, printenv, set,
+// export -p, /proc/self/environ, console.log(process.env)) or by reading a
+// protected variable ($GITHUB_TOKEN, printenv AWS_SECRET_ACCESS_KEY,
+// os.environ['DB_PASSWORD']). Variable names are matched against globs
+// (`*_TOKEN`, `AWS_*`), case-insensitively; each rule has its own action.
+// ---------------------------------------------------------------------------
+
+export interface ProtectedVariable {
+  /** Variable name glob: `*` matches any run of name characters */
+  name: string
+  action: Action
+}
+
+/**
+ * Variables SDKs read for themselves block; the rest ask, since passing a
+ * token or password to a command (`-var db_password=$DB_PASSWORD`) is often
+ * legitimate.
+ */
+export const DEFAULT_PROTECTED_VARIABLES: ProtectedVariable[] = [
+  { name: 'AWS_SECRET_ACCESS_KEY', action: 'block' },
+  { name: 'AWS_SESSION_TOKEN', action: 'block' },
+  { name: 'AZURE_CLIENT_SECRET', action: 'block' },
+  { name: '*_PRIVATE_KEY', action: 'block' },
+  { name: '*_SECRET', action: 'ask' },
+  { name: '*_SECRET_*', action: 'ask' },
+  { name: 'SECRET_*', action: 'ask' },
+  { name: '*_PASSWORD', action: 'ask' },
+  { name: '*_PASSWD', action: 'ask' },
+  { name: 'PASSWORD', action: 'ask' },
+  { name: '*_TOKEN', action: 'ask' },
+  { name: 'TOKEN', action: 'ask' },
+  { name: '*_API_KEY', action: 'ask' },
+  { name: '*_APIKEY', action: 'ask' },
+  { name: '*_ACCESS_KEY', action: 'ask' },
+  { name: '*_CREDENTIALS', action: 'ask' },
+  { name: 'DATABASE_URL', action: 'ask' },
+  { name: 'AWS_*', action: 'ask' },
+]
+
+/** The effective variable policy, compiled once */
+export interface CompiledVariables {
+  variables: { variable: ProtectedVariable; regex: RegExp }[]
+  /** Action for commands that dump the whole environment; null to allow */
+  dump: Action | null
+}
+
+/** A protected variable read, or the whole environment dumped */
+export type EnvironmentAccess =
+  | { kind: 'dump'; action: Action; via: string }
+  | { kind: 'variable'; action: Action; name: string; variable: ProtectedVariable }
+
+/** Programs whose inline code is searched for environment access */
+const INTERPRETER_RE = /^(?:node|nodejs|deno|bun|python[0-9.]*|ruby|perl|php|pwsh|powershell(?:\.exe)?)$/i
+
+/** /proc/<pid>/environ, /proc/self/environ, /proc/*\/environ */
+const PROC_ENVIRON_RE = /\/proc\/(?:self|thread-self|\d+|\*|\$\$|\$\{?\w+\}?)\/(?:task\/\d+\/)?environ\b/
+
+/** Whole-environment access in interpreter code */
+const CODE_DUMP_RES: [RegExp, string][] = [
+  [/\b(?:process|Bun)\.env\b(?!\s*(?:\?\.|\.|\[))/, 'process.env'],
+  [/\bDeno\.env\.toObject\b/, 'Deno.env.toObject()'],
+  [/\bos\.environ\b(?!\s*(?:\[|\.get\b))/, 'os.environ'],
+  [/\bENV\.(?:to_h|to_a|each|inspect|keys|values|map)\b|\b(?:p|puts|pp)\s+ENV\b/, 'ENV'],
+  [/%ENV\b/, '%ENV'],
+  [/\$_ENV\b(?!\s*\[)|\bgetenv\(\s*\)/, '$_ENV'],
+  [/\[(?:System\.)?Environment\]::GetEnvironmentVariables\b/i, '[Environment]::GetEnvironmentVariables()'],
+]
+
+/** Single variables read in interpreter code (name in group 1) */
+const CODE_VARIABLE_RES: RegExp[] = [
+  /\b(?:process|Bun)\.env(?:\?\.|\.)([A-Za-z_]\w*)/g,
+  /\b(?:process|Bun)\.env\[\s*['"`]([A-Za-z_]\w*)['"`]\s*\]/g,
+  /\bDeno\.env\.get\(\s*['"`]([A-Za-z_]\w*)/g,
+  /\bos\.environ\[\s*['"]([A-Za-z_]\w*)['"]\s*\]/g,
+  /\bos\.environ\.get\(\s*['"]([A-Za-z_]\w*)/g,
+  /\b[Gg]etenv\(\s*['"]([A-Za-z_]\w*)/g,
+  /\bENV(?:\.fetch\(\s*|\[\s*)['"]([A-Za-z_]\w*)/g,
+  /\$ENV\{\s*['"]?([A-Za-z_]\w*)/g,
+  /\$_ENV\[\s*['"]([A-Za-z_]\w*)/g,
+  /::GetEnvironmentVariable\(\s*['"]([A-Za-z_]\w*)/gi,
+]
+
+/** `$env:NAME` (PowerShell) and `%NAME%` (cmd) */
+const OTHER_SHELL_VARIABLE_RES: RegExp[] = [/\$env:([A-Za-z_]\w*)/gi, /%([A-Za-z_]\w*)%/g]
+
+/** Listing the env: drive (Get-ChildItem env:, gci env:, dir env:) */
+const POWERSHELL_LIST: ReadonlySet<string> = new Set(['get-childitem', 'gci', 'ls', 'dir', 'get-item', 'gi'])
+
+export function compileVariables(
+  variables: readonly ProtectedVariable[],
+  dump: Action | null = 'block',
+): CompiledVariables {
+  return { variables: variables.map((variable) => ({ variable, regex: nameRegex(variable.name, '\\w') })), dump }
+}
+
+/** The most severe rule matching `name`, if any (block over ask, then list order) */
+export function matchVariable(name: string, compiled: CompiledVariables): ProtectedVariable | null {
+  let found: ProtectedVariable | null = null
+  for (const { variable, regex } of compiled.variables) {
+    if (!regex.test(name)) continue
+    if (variable.action === 'block') return variable
+    found ??= variable
+  }
+  return found
+}
+
+/**
+ * How `segment` dumps the whole environment, e.g. `env` or `process.env`;
+ * null when it does not.
+ */
+export function environmentDump(segment: ShellSegment): string | null {
+  const words = commandWords(segment)
+  const [program = '', ...args] = words
+  const flagsOnly = (re: RegExp) => args.every((a) => re.test(a))
+
+  // `env` and `sudo env` with nothing to run print the environment
+  if (words.length === 0 && segment.argv.some((w) => w.slice(w.lastIndexOf('/') + 1) === 'env')) return 'env'
+  if (program === 'printenv' && flagsOnly(/^-/)) return 'printenv'
+  if (program === 'set' && args.length === 0) return 'set'
+  if ((program === 'export' || program === 'declare' || program === 'typeset') && flagsOnly(/^-[px]+$/)) {
+    return `${program}${args.length ? ' ' + args.join(' ') : ''}`
+  }
+  if (POWERSHELL_LIST.has(program.toLowerCase()) && args.some((a) => /^env:[\\/]?\*?$/i.test(a))) {
+    return `${program} env:`
+  }
+  if (PROC_ENVIRON_RE.test(segment.text)) return '/proc/*/environ'
+  if (INTERPRETER_RE.test(program)) {
+    for (const [re, via] of CODE_DUMP_RES) {
+      if (re.test(segment.text)) return via
+    }
+  }
+  return null
+}
+
+/** Names of the environment variables `segment` reads */
+export function environmentReads(segment: ShellSegment): string[] {
+  // $env:NAME is PowerShell, read below
+  const names = new Set(variableReferences(segment.text.replace(/\$env:/gi, '')))
+  // printenv NAME, declare -p NAME
+  const [program = '', ...args] = commandWords(segment)
+  if (program === 'printenv' || (/^(?:declare|typeset|export)$/.test(program) && args.includes('-p'))) {
+    for (const arg of args) if (!arg.startsWith('-') && !arg.includes('=')) names.add(arg)
+  }
+  for (const re of OTHER_SHELL_VARIABLE_RES) {
+    for (const m of segment.text.matchAll(re)) names.add(m[1])
+  }
+  if (INTERPRETER_RE.test(program)) {
+    for (const re of CODE_VARIABLE_RES) {
+      for (const m of segment.text.matchAll(re)) names.add(m[1])
+    }
+  }
+  return [...names]
+}
+
+/**
+ * Every way `segment` exposes the environment: a dump, then each protected
+ * variable it reads.
+ */
+export function checkEnvironmentAccess(segment: ShellSegment, compiled: CompiledVariables): EnvironmentAccess[] {
+  const accesses: EnvironmentAccess[] = []
+  const via = compiled.dump && environmentDump(segment)
+  if (compiled.dump && via) accesses.push({ kind: 'dump', action: compiled.dump, via })
+  for (const name of environmentReads(segment)) {
+    const variable = matchVariable(name, compiled)
+    if (variable) accesses.push({ kind: 'variable', action: variable.action, name, variable })
+  }
+  return accesses
+}
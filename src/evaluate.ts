@@ -0,0 +1,719 @@
+import {
+  evaluatePath,
+  evaluateShellPaths,
+  extractEncodedPayloads,
+  inQuotedArgument,
+  matchAllPatterns,
+  trackWorkingDirectories,
+  unwrapShellCommand,
+  type Action,
+  type CompiledPaths,
+  type CompiledPatterns,
+  type ExceptedPath,
+  type ProtectionLevel,
+  type ShellPathViolation,
+} from './patterns.js'
+import { extractToolTargets, type ArgRole, type ToolArgMap } from './tools.js'
+import { parsePatch, patchAccesses, patchAddedLines } from './patch.js'
+import { findSecrets, type CompiledSecrets, type SecretDetector } from './secrets.js'
+import { checkEnvironmentAccess, type CompiledVariables } from './env.js'
+import { checkEgress, networkRequests, uploadedFiles, urlHost, type CompiledEgress } from './egress.js'
+import { toolRuleTargets, type CompiledToolRules } from './mcp.js'
+import { classifyMongo, classifySql, databaseSql, type SqlActions } from './sql.js'
+import { kubeCommands, matchKubeContext, type CompiledKube } from './kube.js'
+import {
+  cloudCalls,
+  environmentPatternAction,
+  matchCloudEnvironment,
+  IDENTITY_KINDS,
+  type CloudCall,
+  type CompiledCloud,
+} from './cloud.js'
+import {
+  databasePatternAction,
+  databaseTargets,
+  matchDatabaseEnvironment,
+  type CompiledDatabases,
+  type DatabaseTarget,
+} from './database.js'
+import { parseShellCommand } from './shell.js'
+import { scanScripts } from './scripts.js'
+import { expandVariables } from './variables.js'
+import { normalizeCommand } from './normalize.js'
+
+// ---------------------------------------------------------------------------
+// Shell command evaluation
+// ---------------------------------------------------------------------------
+// A command is checked as a whole: the original text, its unwrapped,
+// normalized and variable-expanded forms, every simple command in them and
+// the scripts they run. Every pattern match and path violation becomes a
+// finding, and the most severe one decides: block > ask > allow. The order
+// of DEFAULT_PATTERNS only decides which of equally severe findings is
+// reported first.
+// ---------------------------------------------------------------------------
+
+export type Decision = Action | 'allow'
+
+export interface Finding {
+  action: Action
+  /** Headline: the rule's reason or the protected path violated */
+  reason: string
+  /** Text that triggered the finding */
+  match: string
+  /** Further lines of the report (protection level, segment, script) */
+  details: string[]
+  /** Log message and fields */
+  message: string
+  extra: Record<string, unknown>
+}
+
+export interface Evaluation {
+  /** Action of the most severe finding, or 'allow' */
+  decision: Decision
+  /** Every finding, most severe first */
+  findings: Finding[]
+  /** Files and path tokens allowed by a path exception */
+  excepted: ExceptedPath[]
+}
+
+/** The effective policy, compiled once */
+export interface Policy {
+  patterns: CompiledPatterns
+  paths: CompiledPaths
+  exceptions: CompiledPaths<string>
+  secrets: CompiledSecrets
+  variables: CompiledVariables
+  egress: CompiledEgress
+  toolRules: CompiledToolRules
+  sql: Partial<SqlActions>
+  kube: CompiledKube
+  cloud: CompiledCloud
+  databases: CompiledDatabases
+}
+
+const SEVERITY: Record<Action, number> = { block: 0, ask: 1 }
+
+/** Reasons of the patterns that match SQL as text (`SQL DROP TABLE`) */
+const SQL_PATTERN_RE = /^SQL\b/
+
+/** Protection levels that block each kind of file access */
+const BLOCKING_LEVELS: Record<Exclude<ArgRole, 'command' | 'patch' | 'content' | 'url' | 'sql'>, ReadonlySet<ProtectionLevel>> = {
+  read: new Set(['zeroAccess']),
+  write: new Set(['zeroAccess', 'readOnly']),
+  delete: new Set(['zeroAccess', 'readOnly', 'noDelete']),
+}
+
+/** Order findings most severe first and take the decision from the first */
+function decide(findings: Iterable<Finding>, excepted: ExceptedPath[]): Evaluation {
+  const sorted = [...findings].sort((a, b) => SEVERITY[a.action] - SEVERITY[b.action])
+  return { decision: sorted[0]?.action ?? 'allow', findings: sorted, excepted }
+}
+
+/** `aws profile prod (--profile)`: the identity of a cloud call and where it came from */
+function identityText({ provider, identity, region, source }: CloudCall): string {
+  return `${provider} ${IDENTITY_KINDS[provider]} ${identity}${region ? ` in ${region}` : ''} (${source})`
+}
+
+/** `psql host prod-db (-h)`: the host a database step connects to and where it came from */
+function hostText({ program, host, port, source }: DatabaseTarget): string {
+  return `${program} host ${host}${port ? `:${port}` : ''} (${source})`
+}
+
+/** A SQL statement on one line, shortened for the report */
+function statementText(text: string): string {
+  return text.replace(/\s+/g, ' ').slice(0, 100)
+}
+
+function verbFor(operation: ShellPathViolation['operation']): string {
+  return operation === 'access' ? 'access' : operation === 'write' ? 'write to' : 'delete'
+}
+
+function pathFinding(
+  { protectedPath: prot, operation }: ShellPathViolation,
+  text: string,
+  details: string[],
+  context: string,
+  extra: Record<string, unknown>,
+): Finding {
+  return {
+    action: 'block',
+    reason: `Cannot ${verbFor(operation)} protected path "${prot.path}"`,
+    match: text,
+    details: [`Protection level: ${prot.level}`, ...details],
+    message: `Blocked ${operation} on protected path ${context}`,
+    extra: { ...extra, path: prot.path, level: prot.level },
+  }
+}
+
+/**
+ * Evaluate a shell command against the policy. `directory` is the session
+ * directory: relative paths and local scripts are resolved against it.
+ */
+export function evaluateShellCommand(command: string, policy: Policy, directory: string): Evaluation {
+  const { patterns, paths, exceptions } = policy
+  const findings = new Map<string, Finding>()
+  const add = (key: string, finding: Finding) => {
+    if (!findings.has(key)) findings.set(key, finding)
+  }
+  const logged = { command: command.slice(0, 100) }
+
+  // Unwrap shell wrappers (e.g. bash -c "rm -rf /") to inspect the inner
+  // commands, normalize obfuscated spellings (r''m, \rm, $'\x72\x6d',
+  // ${IFS}, homoglyphs) and expand the variables each command sets for
+  // itself (T=/; rm -rf $T). The original command comes first.
+  const commandsToCheck: string[] = []
+  const rewritten = new Set<string>()
+  const unresolved = new Map<string, string>()
+  const check = (cmd: string) => {
+    if (!commandsToCheck.includes(cmd)) commandsToCheck.push(cmd)
+  }
+  const normalized = normalizeCommand(command)
+  const roots = normalized === command ? [command] : [command, normalized]
+  for (const root of roots) {
+    for (const inner of [root, ...unwrapShellCommand(root)]) {
+      const variants = [inner, normalizeCommand(inner)]
+      for (const cmd of variants) {
+        if (cmd !== inner) rewritten.add(cmd)
+        check(cmd)
+        const expansion = expandVariables(cmd, { HOME: process.env.HOME ?? '' })
+        for (const { name, segment } of expansion.unresolved) {
+          if (!unresolved.has(name)) unresolved.set(name, segment)
+        }
+        if (expansion.command === cmd) continue
+        rewritten.add(expansion.command)
+        check(expansion.command)
+        for (const nested of unwrapShellCommand(expansion.command)) check(nested)
+      }
+    }
+  }
+  rewritten.add(normalized)
+
+  // Split each command into its simple commands so every step of a
+  // compound command (`a && b; c | d`) is checked on its own, in the
+  // directory it runs in (cd/pushd/popd are followed).
+  const parsed = commandsToCheck.map((cmd) => {
+    const segments = parseShellCommand(cmd)
+    return {
+      cmd,
+      unwrapped: cmd !== command && !rewritten.has(cmd),
+      segments,
+      cwds: trackWorkingDirectories(segments, directory),
+    }
+  })
+  const where = (text: string) => (text !== command ? [`Segment: ${text}`] : [])
+  const via = (unwrapped: boolean) => (unwrapped ? ' (unwrapped from shell wrapper)' : '')
+
+  // The aws, gcloud and az steps and the environment their identity maps
+  // to, and the database steps and the environment of their host. The
+  // environment of the step a pattern matches in can raise or lower that
+  // pattern (1); database environments replace the SQL actions (8) and
+  // cloud environments check mutating calls (10).
+  const clouds = parsed.map(({ segments, cwds }) =>
+    cloudCalls(segments, cwds).map((call) => call && { call, target: matchCloudEnvironment(call, policy.cloud) }),
+  )
+  const databases = parsed.map(({ segments }) =>
+    databaseTargets(segments).map((target) => target && { target, match: matchDatabaseEnvironment(target, policy.databases) }),
+  )
+
+  // The SQL each database step runs. Its statements are classified by
+  // the SQL tokenizer (8), so the SQL patterns of step 1 skip the step,
+  // the step piping SQL into it and the statements unwrapped from its
+  // stdin: `psql -c "SELECT 'DROP TABLE x'"` drops nothing.
+  const sqlSources = parsed.map(({ segments, cwds }) => segments.map((_, i) => databaseSql(segments, i, cwds[i])))
+  const sqlTexts = sqlSources.flat(2).map(({ sql }) => sql)
+  const runsSql = (n: number, i: number) => {
+    const segment = parsed[n].segments[i]
+    const piped = segment.operator === '|' || segment.operator === '|&'
+    return sqlSources[n][i].length > 0 || (piped && sqlSources[n][i + 1]?.length > 0) ||
+      sqlTexts.some((sql) => sql.includes(segment.text))
+  }
+  const environmentAt = (n: number, i: number, reason: string) => {
+    const cloud = clouds[n][i]
+    if (cloud?.target) {
+      const action = environmentPatternAction(cloud.target, reason)
+      return { action, environment: cloud.target.environment, via: identityText(cloud.call) }
+    }
+    const database = databases[n][i]
+    if (database?.match) {
+      const action = databasePatternAction(database.match, reason)
+      return { action, environment: database.match.environment, via: hostText(database.target) }
+    }
+    return null
+  }
+
+  // 1. Dangerous command patterns, step by step. Multi-stage pipelines
+  //    are checked last, for patterns that span a pipe (curl | sh, fork
+  //    bombs). Comments and heredoc bodies are not part of any step, and
+  //    a match inside a quoted argument known to be data (a commit
+  //    message, a search pattern, printed text) does not count. A match
+  //    takes the environment of the step it was found in.
+  const patternTexts = new Map<string, { unwrapped: boolean; steps: [number, number][] }>()
+  const addText = (text: string, unwrapped: boolean, steps: [number, number][]) => {
+    const entry = patternTexts.get(text)
+    if (entry) entry.steps.push(...steps)
+    else patternTexts.set(text, { unwrapped, steps })
+  }
+  for (const [n, { unwrapped, segments }] of parsed.entries()) {
+    for (const [i, segment] of segments.entries()) addText(segment.text, unwrapped, [[n, i]])
+    for (const [i, segment] of segments.entries()) {
+      if (segments[i - 1]?.pipeline === segment.pipeline) continue
+      const steps = segments.flatMap((s, j): [number, number][] => (s.pipeline === segment.pipeline ? [[n, j]] : []))
+      if (steps.length > 1) addText(segment.pipeline, unwrapped, steps)
+    }
+  }
+  const reportedPatterns: { reason: string; action: Action; host: string | null }[] = []
+  for (const [text, { unwrapped, steps }] of patternTexts) {
+    for (const { match, pattern } of matchAllPatterns(text, patterns)) {
+      if (inQuotedArgument(text, match)) continue
+      const matched = steps.filter(([n, i]) => parsed[n].segments[i].text.includes(match))
+      for (const [n, i] of matched.length > 0 ? matched : steps) {
+        if (SQL_PATTERN_RE.test(pattern.reason) && runsSql(n, i)) continue
+        const target = environmentAt(n, i, pattern.reason)
+        if (target?.action === null) continue
+        const action = target?.action ?? pattern.action
+        const environment = target?.action ? [`Environment: ${target.environment} (${target.via})`] : []
+        reportedPatterns.push({ reason: pattern.reason, action, host: databases[n][i]?.target.host ?? null })
+        add(`pattern:${pattern.reason}:${match}:${environment.join('')}`, {
+          action,
+          reason: pattern.reason,
+          match,
+          details: ['', `Command: ${match}`, ...environment, ...where(text)],
+          message: (action === 'block' ? 'Blocked dangerous command' : 'Flagged command for confirmation') + via(unwrapped),
+          extra: { ...logged, segment: text.slice(0, 100), reason: pattern.reason },
+        })
+      }
+    }
+  }
+
+  // 2. Three-tier path protection for each simple command
+  //    zeroAccess: block if path appears in command at all
+  //    readOnly:   block only writes/deletes (cat ~/.bashrc is fine)
+  //    noDelete:   block only deletes (echo >> .gitignore is fine)
+  //    Relative paths are resolved against the directory each step runs
+  //    in, following cd/pushd/popd (cd ~ && cat .ssh/id_rsa). Files a
+  //    network client uploads (curl -d @.env) are read. Paths an
+  //    exception lets through (cat .env.example) are reported as such.
+  const excepted = new Map<string, ExceptedPath>()
+  const except = (entries: readonly ExceptedPath[]) => {
+    for (const entry of entries) {
+      const key = `${entry.filePath}\0${entry.exception}`
+      if (!excepted.has(key)) excepted.set(key, entry)
+    }
+  }
+  // Rewritten forms of a command share most of their steps
+  const checkedSteps = new Set<string>()
+  for (const { unwrapped, segments, cwds } of parsed) {
+    for (const [i, segment] of segments.entries()) {
+      const step = `${cwds[i]}\0${segment.text}`
+      if (checkedSteps.has(step)) continue
+      checkedSteps.add(step)
+      const { violations, excepted: allowed } = evaluateShellPaths(segment.text, paths, cwds[i], exceptions)
+      except(allowed)
+      for (const file of uploadedFiles(segment)) {
+        const result = evaluatePath(file, paths, exceptions, cwds[i])
+        if (!result) continue
+        const { protectedPath, exception } = result
+        if (exception) except([{ filePath: file, path: protectedPath.path, exception }])
+        else if (BLOCKING_LEVELS.read.has(protectedPath.level)) violations.push({ protectedPath, operation: 'access' })
+      }
+      for (const violation of violations) {
+        const details = [...where(segment.text), ...(cwds[i] !== directory ? [`Working directory: ${cwds[i]}`] : [])]
+        add(
+          `path:${violation.protectedPath.path}:${violation.operation}`,
+          pathFinding(violation, segment.text, details, unwrapped ? '(unwrapped from shell wrapper)' : 'in command', {
+            ...logged,
+            segment: segment.text.slice(0, 100),
+          }),
+        )
+      }
+    }
+  }
+
+  // 3. The contents of local scripts the command executes or sources
+  //    (bash cleanup.sh, source env.sh, ./scripts/reset.sh)
+  const scanned = scanScripts(commandsToCheck, directory, patterns, paths, exceptions)
+  except(scanned.excepted)
+  for (const finding of scanned.findings) {
+    const { file, line } = finding
+    const location = `${file}:${line}`
+    const scriptExtra = { ...logged, file, line }
+    if (finding.violation) {
+      const { violation } = finding
+      add(
+        `script:${location}:${violation.protectedPath.path}:${violation.operation}`,
+        pathFinding(violation, location, [`Script: ${location}`], 'in script', scriptExtra),
+      )
+      continue
+    }
+    const { match: text, pattern } = finding.match
+    add(`script:${location}:${pattern.reason}:${text}`, {
+      action: pattern.action,
+      reason: pattern.reason,
+      match: `${text} (${location})`,
+      details: ['', `Command: ${text}`, `Script: ${location}`],
+      message: pattern.action === 'block' ? 'Blocked dangerous command in script' : 'Flagged script command for confirmation',
+      extra: { ...scriptExtra, reason: pattern.reason },
+    })
+  }
+  // A script too large to read could hide anything
+  for (const file of scanned.skipped) {
+    add(`script:${file}`, {
+      action: 'ask',
+      reason: 'Executed script is too large to inspect',
+      match: file,
+      details: ['', `Script: ${file}`],
+      message: 'Flagged uninspectable script for confirmation',
+      extra: { ...logged, file },
+    })
+  }
+
+  // 4. Payloads decoded straight into a shell or interpreter that could
+  //    not be decoded for inspection (curl ... | base64 -d | sh)
+  for (const payload of commandsToCheck.flatMap((cmd) => extractEncodedPayloads(cmd).undecodable)) {
+    add(`payload:${payload}`, {
+      action: 'ask',
+      reason: 'Decoded payload executed by a shell or interpreter cannot be inspected',
+      match: payload,
+      details: ['', `Command: ${payload}`],
+      message: 'Flagged undecodable payload for confirmation',
+      extra: { ...logged, segment: payload.slice(0, 100) },
+    })
+  }
+
+  // 5. Variables we could not resolve where they decide what is deleted,
+  //    overwritten or run (rm -rf "$X"/)
+  for (const [name, segment] of unresolved) {
+    add(`variable:${name}`, {
+      action: 'ask',
+      reason: `Unresolved variable $${name} in a dangerous position`,
+      match: segment,
+      details: ['', `Command: ${segment}`],
+      message: 'Flagged unresolved variable for confirmation',
+      extra: { ...logged, segment: segment.slice(0, 100), variable: name },
+    })
+  }
+
+  // 6. Environment variables: commands that dump the whole environment
+  //    (env, printenv, export -p, /proc/self/environ) or read protected
+  //    variables ($GITHUB_TOKEN, os.environ['DB_PASSWORD'])
+  for (const { unwrapped, segments } of parsed) {
+    for (const segment of segments) {
+      for (const access of checkEnvironmentAccess(segment, policy.variables)) {
+        const verb = access.action === 'block' ? 'Blocked' : 'Flagged'
+        const extra = { ...logged, segment: segment.text.slice(0, 100) }
+        if (access.kind === 'dump') {
+          add('env:dump', {
+            action: access.action,
+            reason: `Command dumps every environment variable (${access.via})`,
+            match: segment.text,
+            details: ['', `Command: ${segment.text}`],
+            message: `${verb} environment dump${via(unwrapped)}`,
+            extra: { ...extra, via: access.via },
+          })
+        } else {
+          add(`env:${access.name}`, {
+            action: access.action,
+            reason: `Command reads protected environment variable ${access.name}`,
+            match: segment.text,
+            details: ['', `Variable: ${access.name} (protected by ${access.variable.name})`, ...where(segment.text)],
+            message: `${verb} protected environment variable${via(unwrapped)}`,
+            extra: { ...extra, variable: access.name, rule: access.variable.name },
+          })
+        }
+      }
+    }
+  }
+
+  // 7. Network egress: requests to denied hosts (cloud metadata, link-local)
+  //    and uploads to hosts outside the allowlist (curl -T, nc host < file)
+  for (const { unwrapped, segments } of parsed) {
+    for (const [i, segment] of segments.entries()) {
+      const piped = i > 0 && (segments[i - 1].operator === '|' || segments[i - 1].operator === '|&')
+      for (const request of networkRequests(segment, piped)) {
+        const verdict = checkEgress(request, policy.egress)
+        if (!verdict) continue
+        const verb = verdict.action === 'block' ? 'Blocked' : 'Flagged'
+        add(`egress:${request.direction}:${request.host}`, {
+          action: verdict.action,
+          reason: verdict.reason,
+          match: segment.text,
+          details: ['', `Host: ${request.host} (${request.direction} via ${request.program})`, ...where(segment.text)],
+          message: `${verb} ${verdict.rule ? 'request to denied host' : `${request.direction} outside the egress allowlist`}${via(unwrapped)}`,
+          extra: {
+            ...logged,
+            segment: segment.text.slice(0, 100),
+            host: request.host,
+            direction: request.direction,
+            rule: verdict.rule?.host,
+          },
+        })
+      }
+    }
+  }
+
+  // 8. SQL that database clients run (psql -c, mysql -e, sqlite3 db "...",
+  //    -f files, heredocs), classified statement by statement with the
+  //    actions of the environment the client's host maps to. A reason
+  //    the SQL patterns of step 1 already reported for the same host at
+  //    the same severity (through a wrapper: bash -c "psql ...") is not
+  //    reported again. ORM commands that drop or reset a database
+  //    (prisma migrate reset) take the action of their category there,
+  //    or the default one when their host is unknown: prisma reads
+  //    DATABASE_URL from .env itself. mongosh scripts (--eval, -f) are
+  //    classified by the destructive methods they call.
+  for (const [n, { unwrapped, segments }] of parsed.entries()) {
+    for (const [i, segment] of segments.entries()) {
+      const database = databases[n][i]
+      const environment = database?.match
+      const actions = { ...policy.sql, ...environment?.settings?.sql }
+      const connection = database && environment ? [`Environment: ${environment.environment} (${hostText(database.target)})`] : []
+      for (const { program, from, sql, language } of sqlSources[n][i]) {
+        for (const { statement, verdict } of language === 'mongo' ? classifyMongo(sql) : classifySql(sql)) {
+          const action = actions[verdict.category]
+          if (!action) continue
+          const host = database?.target.host ?? null
+          const reported = reportedPatterns.some(
+            (p) => p.reason === verdict.reason && p.host === host && SEVERITY[p.action] <= SEVERITY[action],
+          )
+          if (reported) continue
+          const text = statementText(statement.text)
+          add(`sql:${host ?? ''}:${verdict.reason}:${text}`, {
+            action,
+            reason: verdict.reason,
+            match: text,
+            details: ['', `Statement: ${text}`, `Client: ${program} (${from})`, ...connection, ...where(segment.text)],
+            message: `${action === 'block' ? 'Blocked' : 'Flagged'} SQL statement${via(unwrapped)}`,
+            extra: { ...logged, segment: segment.text.slice(0, 100), category: verdict.category, statement: text },
+          })
+        }
+      }
+
+      const operation = database?.target.operation
+      const action = operation && actions[operation.category]
+      if (!database || !operation || !action) continue
+      const { program, host } = database.target
+      const against = environment ? ` against ${environment.environment} database "${host}"` : host ? ` against database "${host}"` : ''
+      add(`orm:${operation.reason}:${host ?? ''}`, {
+        action,
+        reason: `${operation.reason}${against}`,
+        match: segment.text,
+        details: ['', `Command: ${segment.text}`, ...connection],
+        message: `${action === 'block' ? 'Blocked' : 'Flagged'} ${program} command${environment ? ` in ${environment.environment}` : ''}${via(unwrapped)}`,
+        extra: {
+          ...logged,
+          segment: segment.text.slice(0, 100),
+          category: operation.category,
+          host,
+          environment: environment?.environment,
+        },
+      })
+    }
+  }
+
+  // 9. Kubernetes: kubectl, oc and helm commands in a context a context
+  //    rule matches (mutating verbs in a `*prod*` context ask)
+  for (const { unwrapped, segments, cwds } of parsed) {
+    const commands = kubeCommands(segments, cwds)
+    for (const [i, kube] of commands.entries()) {
+      if (!kube) continue
+      const rule = matchKubeContext(kube, policy.kube)
+      if (!rule) continue
+      const segment = segments[i]
+      add(`kube:${kube.context}:${kube.verb}`, {
+        action: rule.action,
+        reason: rule.reason ?? `${kube.program} ${kube.verb} in context "${kube.context}"`,
+        match: segment.text,
+        details: ['', `Context: ${kube.context} (${kube.source})`, `Rule: ${rule.context}`, ...where(segment.text)],
+        message: `${rule.action === 'block' ? 'Blocked' : 'Flagged'} ${kube.program} command in protected context${via(unwrapped)}`,
+        extra: {
+          ...logged,
+          segment: segment.text.slice(0, 100),
+          context: kube.context,
+          verb: kube.verb,
+          rule: rule.context,
+        },
+      })
+    }
+  }
+
+  // 10. Cloud: mutating aws, gcloud and az calls against an identity
+  //     mapped to an environment that flags them (anything that changes a
+  //     `*prod*` profile, project or subscription asks)
+  for (const [n, { unwrapped, segments }] of parsed.entries()) {
+    for (const [i, step] of clouds[n].entries()) {
+      const target = step?.target
+      const action = target?.settings?.mutating
+      if (!step || !target || !action || !step.call.mutating) continue
+      const { call } = step
+      const segment = segments[i]
+      add(`cloud:${call.provider}:${call.identity}:${call.verb}`, {
+        action,
+        reason: `${call.provider} ${call.verb} against ${target.environment} ${IDENTITY_KINDS[call.provider]} "${call.identity}"`,
+        match: segment.text,
+        details: ['', `Identity: ${identityText(call)}`, `Environment: ${target.environment} (rule ${target.rule.identity})`, ...where(segment.text)],
+        message: `${action === 'block' ? 'Blocked' : 'Flagged'} mutating ${call.provider} call in ${target.environment}${via(unwrapped)}`,
+        extra: {
+          ...logged,
+          segment: segment.text.slice(0, 100),
+          provider: call.provider,
+          identity: call.identity,
+          environment: target.environment,
+          verb: call.verb,
+        },
+      })
+    }
+  }
+
+  return decide(findings.values(), [...excepted.values()])
+}
+
+/**
+ * Evaluate any tool call. `tools` says which arguments are files read,
+ * written or deleted, which are shell commands, which are patches and
+ * which are content written into a file; each is checked and the most
+ * severe finding decides, as for a shell command. A patch is checked file
+ * by file: an added or updated file is written, a deleted one deleted, a
+ * rename deletes its source and writes its destination. Written content
+ * and the lines a patch adds are scanned for secrets. A URL is a download
+ * checked against the egress policy; SQL is classified statement by
+ * statement. Tool rules then check the arguments
+ * of tools matched by name glob (MCP tools) the same way, or match them
+ * against the command patterns, or give the call a fixed action.
+ */
+export function evaluateToolCall(
+  tool: string,
+  args: Record<string, unknown>,
+  tools: ToolArgMap,
+  policy: Policy,
+  directory: string,
+): Evaluation {
+  const findings: Finding[] = []
+  const excepted: ExceptedPath[] = []
+
+  const checkFile = (filePath: string, role: keyof typeof BLOCKING_LEVELS, arg: string, source: string) => {
+    const result = evaluatePath(filePath, policy.paths, policy.exceptions, directory)
+    if (!result) return
+    const { protectedPath: prot, exception } = result
+    if (exception) {
+      excepted.push({ filePath, path: prot.path, exception })
+      return
+    }
+    if (!BLOCKING_LEVELS[role].has(prot.level)) return
+    findings.push({
+      action: 'block',
+      reason: `Cannot ${role === 'write' ? 'write to' : role} protected path "${prot.path}"`,
+      match: filePath,
+      details: [`Protection level: ${prot.level}`, `Tool: ${tool} (${arg}: ${source})`],
+      message: `Blocked ${tool} on protected path`,
+      extra: { tool, arg, filePath, path: prot.path, level: prot.level },
+    })
+  }
+
+  const { action } = policy.secrets
+  const secretFinding = (detector: SecretDetector, arg: string, line: number): Finding => ({
+    action,
+    reason: `${detector.name} in written content`,
+    match: `${arg} line ${line}`,
+    details: [`Detector: ${detector.id}`, `Tool: ${tool} (${arg}, line ${line})`],
+    message: action === 'block' ? `Blocked secret in ${tool} content` : `Flagged secret in ${tool} content for confirmation`,
+    extra: { tool, arg, detector: detector.id, line },
+  })
+
+  const checkTarget = (arg: string, role: ArgRole, value: string) => {
+    if (role === 'command') {
+      const shell = evaluateShellCommand(value, policy, directory)
+      findings.push(...shell.findings)
+      excepted.push(...shell.excepted)
+    } else if (role === 'patch') {
+      for (const { path, role: access, operation } of patchAccesses(parsePatch(value))) {
+        checkFile(path, access, arg, `${operation} ${path}`)
+      }
+      const added = patchAddedLines(value)
+      for (const { detector, line } of findSecrets(added.map((l) => l.text).join('\n'), policy.secrets)) {
+        findings.push(secretFinding(detector, arg, added[line - 1].line))
+      }
+    } else if (role === 'content') {
+      for (const { detector, line } of findSecrets(value, policy.secrets)) {
+        findings.push(secretFinding(detector, arg, line))
+      }
+    } else if (role === 'url') {
+      const host = urlHost(value)
+      const verdict = host && checkEgress({ host, direction: 'download', program: tool }, policy.egress)
+      if (!verdict) return
+      findings.push({
+        action: verdict.action,
+        reason: verdict.reason,
+        match: value,
+        details: [`Host: ${host}`, `Tool: ${tool} (${arg}: ${value})`],
+        message: `${verdict.action === 'block' ? 'Blocked' : 'Flagged'} ${tool} ${verdict.rule ? 'request to denied host' : 'download outside the egress allowlist'}`,
+        extra: { tool, arg, host, rule: verdict.rule?.host },
+      })
+    } else if (role === 'sql') {
+      for (const { statement, verdict } of classifySql(value)) {
+        const sqlAction = policy.sql[verdict.category]
+        if (!sqlAction) continue
+        const text = statementText(statement.text)
+        findings.push({
+          action: sqlAction,
+          reason: verdict.reason,
+          match: text,
+          details: ['', `Statement: ${text}`, `Tool: ${tool} (${arg})`],
+          message: `${sqlAction === 'block' ? 'Blocked' : 'Flagged'} SQL statement in ${tool}`,
+          extra: { tool, arg, category: verdict.category, statement: text },
+        })
+      }
+    } else {
+      checkFile(value, role, arg, value)
+    }
+  }
+
+  for (const { arg, role, value } of extractToolTargets(tool, args, tools)) checkTarget(arg, role, value)
+
+  for (const target of toolRuleTargets(tool, args, policy.toolRules)) {
+    if ('check' in target) {
+      const { rule, check, arg, value } = target
+      if (check !== 'patterns') {
+        checkTarget(arg, check, value)
+        continue
+      }
+      for (const { match, pattern } of matchAllPatterns(value, policy.patterns)) {
+        findings.push({
+          action: pattern.action,
+          reason: pattern.reason,
+          match,
+          details: ['', `Tool: ${tool} (${arg}: ${value.slice(0, 100)})`],
+          message: pattern.action === 'block' ? `Blocked dangerous ${tool} argument` : `Flagged ${tool} argument for confirmation`,
+          extra: { tool, arg, rule: rule.tool, reason: pattern.reason },
+        })
+      }
+    } else {
+      const { rule, action, arg, value } = target
+      findings.push({
+        action,
+        reason: rule.reason ?? `${tool} is a restricted tool`,
+        match: value === undefined ? tool : `${tool} (${arg}: ${value.slice(0, 100)})`,
+        details: [`Tool: ${tool}`, `Rule: ${rule.tool}`],
+        message: action === 'block' ? `Blocked ${tool} by tool rule` : `Flagged ${tool} by tool rule for confirmation`,
+        extra: { tool, rule: rule.tool },
+      })
+    }
+  }
+  return decide(findings, excepted)
+}
+
+/**
+ * Report for the agent: the most severe finding in full, then a line for
+ * each of the others.
+ */
+export function formatFindings(findings: readonly Finding[]): string {
+  const [first, ...rest] = findings
+  if (!first) return ''
+  const report = [first.reason, ...first.details].join('\n')
+  if (rest.length === 0) return report
+  return `${report}\n\nAlso found:\n` + rest.map((f) => `- [${f.action}] ${f.reason}: ${f.match}`).join('\n')
+}
+
+/** One-line summary of the findings, for the confirmation dialog */
+export function summarizeFindings(findings: readonly Finding[]): string {
+  return findings.map((f) => `${f.match} (${f.reason})`).join('; ')
+}
@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { compileGlob, expandBraces, escapeGlob, isGlobPattern } from './glob.js'
+
+// ---------------------------------------------------------------------------
+// expandBraces
+// ---------------------------------------------------------------------------
+
+describe('expandBraces', () => {
+  const cases: [string, string[]][] = [
+    ['.env.{local,production}', ['.env.local', '.env.production']],
+    ['{a,b}/{c,d}', ['a/c', 'a/d', 'b/c', 'b/d']],
+    ['x.{json,y{a,}ml}', ['x.json', 'x.yaml', 'x.yml']],
+    ['{single}', ['{single}']],
+    ['\\{a,b}', ['\\{a,b}']],
+    ['{a,b', ['{a,b']],
+    ['plain', ['plain']],
+  ]
+
+  for (const [pattern, expected] of cases) {
+    it(`should expand: ${pattern}`, () => {
+      assert.deepStrictEqual(expandBraces(pattern), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// isGlobPattern / escapeGlob
+// ---------------------------------------------------------------------------
+
+describe('isGlobPattern', () => {
+  const cases: [string, boolean][] = [
+    ['*.pem', true],
+    ['id_?sa', true],
+    ['id_[re]sa', true],
+    ['.env.{a,b}', true],
+    ['config/**', true],
+    ['dist/', false],
+    ['{literal}', false],
+    ['~/.ssh', false],
+  ]
+
+  for (const [pattern, expected] of cases) {
+    it(`should classify: ${pattern}`, () => {
+      assert.equal(isGlobPattern(pattern), expected)
+    })
+  }
+
+  it('should escape glob syntax', () => {
+    const escaped = escapeGlob('/home/a*b[1]{x}')
+    assert.equal(isGlobPattern(escaped), false)
+    assert.ok(compileGlob(escaped, true).test('/home/a*b[1]{x}/.ssh'))
+    assert.ok(!compileGlob(escaped, true).test('/home/aXb1x'))
+  })
+})
+
+// ---------------------------------------------------------------------------
+// compileGlob
+// ---------------------------------------------------------------------------
+
+describe('compileGlob', () => {
+  describe('anchored', () => {
+    const cases: [string, string, boolean][] = [
+      ['config/**/secrets/*.json', 'config/secrets/db.json', true],
+      ['config/**/secrets/*.json', 'config/prod/eu/secrets/db.json', true],
+      ['config/**/secrets/*.json', 'config/secrets/db.yaml', false],
+      ['config/**/secrets/*.json', 'other/config/secrets/db.json', false],
+      ['infra/prod/**', 'infra/prod', true],
+      ['infra/prod/**', 'infra/prod/main.tf', true],
+      ['infra/prod/**', 'infra/production/main.tf', false],
+      ['**/.env.{local,production}', '.env.local', true],
+      ['**/.env.{local,production}', 'apps/web/.env.production', true],
+      ['**/.env.{local,production}', 'apps/web/.env.test', false],
+      ['/etc', '/etc/hosts', true],
+      ['/etc', '/etcetera', false],
+      ['src/*.ts', 'src/a.ts', true],
+      ['src/*.ts', 'src/lib/a.ts', false],
+      ['a?c', 'abc', true],
+      ['a?c', 'a/c', false],
+      ['**', 'anything/at/all', true],
+    ]
+
+    for (const [glob, path, expected] of cases) {
+      it(`${glob} ${expected ? 'should' : 'should not'} match ${path}`, () => {
+        assert.equal(compileGlob(glob, true).test(path), expected)
+      })
+    }
+  })
+
+  describe('unanchored', () => {
+    const cases: [string, string, boolean][] = [
+      ['dist', 'packages/web/dist/index.js', true],
+      ['dist', 'packages/web/distribution/index.js', false],
+      ['*.pem', '/srv/certs/server.pem', true],
+      ['*.pem', '/srv/certs/server.pem.txt', false],
+      ['id_[re]sa*', '/home/me/.ssh/id_rsa.pub', true],
+      ['id_[re]sa*', '/home/me/.ssh/id_esa', true],
+      ['id_[re]sa*', '/home/me/.ssh/id_dsa', false],
+      ['id_[!r]sa', 'keys/id_dsa', true],
+      ['id_[!r]sa', 'keys/id_rsa', false],
+      ['[]]x', 'a/]x', true],
+      ['file[0-9].txt', 'a/file7.txt', true],
+      ['file[0-9].txt', 'a/fileX.txt', false],
+      ['[unclosed', 'a/[unclosed', true],
+      ['a\\*b', 'x/a*b', true],
+      ['a\\*b', 'x/aXb', false],
+    ]
+
+    for (const [glob, path, expected] of cases) {
+      it(`${glob} ${expected ? 'should' : 'should not'} match ${path}`, () => {
+        assert.equal(compileGlob(glob, false).test(path), expected)
+      })
+    }
+  })
+})
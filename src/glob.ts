@@ -0,0 +1,134 @@
+// ---------------------------------------------------------------------------
+// Glob matching
+// ---------------------------------------------------------------------------
+// ProtectedPath entries are gitignore-style globs: `*` and `?` match within
+// one path segment, `**` matches any number of segments, `[abc]` / `[!abc]`
+// / `[a-z]` match one character, `{a,b}` expands to alternatives and `\`
+// escapes the next character. A pattern matches a path and everything
+// below it, so `dist` covers `dist/app.js` and `config/**` covers `config`.
+// ---------------------------------------------------------------------------
+
+/** True if `pattern` uses glob syntax (`*`, `?`, `[...]` or `{a,b}`) */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[]/.test(pattern.replace(/\\./g, '')) || expandBraces(pattern).length > 1
+}
+
+/** Escape glob syntax so `text` matches literally */
+export function escapeGlob(text: string): string {
+  return text.replace(/[*?[\]{}\\]/g, '\\$&')
+}
+
+/**
+ * Expand `{a,b}` alternatives, nested braces included:
+ * `.env.{local,prod}` -> `.env.local`, `.env.prod`. Braces without a
+ * top-level comma are literal.
+ */
+export function expandBraces(pattern: string): string[] {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '\\') {
+      i++
+      continue
+    }
+    if (pattern[i] !== '{') continue
+
+    let depth = 0
+    const bounds = [i]
+    for (let j = i; j < pattern.length; j++) {
+      const c = pattern[j]
+      if (c === '\\') {
+        j++
+      } else if (c === '{') {
+        depth++
+      } else if (c === ',' && depth === 1) {
+        bounds.push(j)
+      } else if (c === '}' && --depth === 0) {
+        if (bounds.length === 1) break
+        bounds.push(j)
+        const prefix = pattern.slice(0, i)
+        const suffix = pattern.slice(j + 1)
+        const expanded: string[] = []
+        for (let k = 0; k + 1 < bounds.length; k++) {
+          const alternative = pattern.slice(bounds[k] + 1, bounds[k + 1])
+          expanded.push(...expandBraces(prefix + alternative + suffix))
+        }
+        return expanded
+      }
+    }
+  }
+  return [pattern]
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+/** Index of the `]` closing the class opened at `start`, or -1 */
+function classEnd(glob: string, start: number): number {
+  let i = start + 1
+  if (glob[i] === '!' || glob[i] === '^') i++
+  // A `]` right after the opening bracket is part of the class
+  if (glob[i] === ']') i++
+  return glob.indexOf(']', i)
+}
+
+/** Regex source for one path segment (no `/`) */
+function segmentSource(segment: string): string {
+  let out = ''
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i]
+    if (c === '\\' && i + 1 < segment.length) {
+      out += escapeRegex(segment[++i])
+    } else if (c === '*') {
+      while (segment[i + 1] === '*') i++
+      out += '[^/]*'
+    } else if (c === '?') {
+      out += '[^/]'
+    } else if (c === '[' && classEnd(segment, i) !== -1) {
+      const end = classEnd(segment, i)
+      const body = segment.slice(i + 1, end)
+      const negated = body[0] === '!' || body[0] === '^'
+      const chars = (negated ? body.slice(1) : body).replace(/[\\\]^[]/g, '\\$&')
+      out += negated ? `[^/${chars}]` : `[${chars}]`
+      i = end
+    } else {
+      out += escapeRegex(c)
+    }
+  }
+  return out
+}
+
+/** Regex source for a brace-free glob */
+function globSource(glob: string): string {
+  const segments = glob.split('/')
+  let out = ''
+  segments.forEach((segment, i) => {
+    const last = i === segments.length - 1
+    if (segment === '**') {
+      // `**/b` and `a/**/b`: any depth; `a/**`: a and everything below
+      out += last ? (i === 0 ? '.*' : '(?:/.*)?') : (i === 0 ? '(?:.*/)?' : '/(?:.*/)?')
+      return
+    }
+    if (i > 0 && segments[i - 1] !== '**') out += '/'
+    out += segmentSource(segment)
+  })
+  return out
+}
+
+const cache = new Map<string, RegExp>()
+
+/**
+ * Compile a glob into a RegExp over `/`-separated paths. The regex matches
+ * the path a glob names and anything below it. Anchored globs must match
+ * from the start of the path; unanchored ones may start at any segment
+ * (`dist` matches `packages/web/dist/index.js`).
+ */
+export function compileGlob(glob: string, anchored: boolean): RegExp {
+  const key = `${anchored}:${glob}`
+  let regex = cache.get(key)
+  if (!regex) {
+    const source = expandBraces(glob).map(globSource).join('|')
+    regex = new RegExp(`${anchored ? '^' : '(?:^|/)'}(?:${source})(?:/.*)?$`)
+    cache.set(key, regex)
+  }
+  return regex
+}
@@ -2,17 +2,32 @@ import type { Plugin } from "@opencode-ai/plugin"
 import {
   DEFAULT_PATTERNS,
   DEFAULT_PROTECTED_PATHS,
-  matchPattern,
-  checkPathProtection,
-  checkShellPathViolation,
-  unwrapShellCommand,
+  DEFAULT_PATH_EXCEPTIONS,
+  compilePatterns,
+  compilePaths,
 } from "./patterns.js"
+import { DEFAULT_TOOL_ARGS } from "./tools.js"
+import {
+  DEFAULT_REDACT_TOOLS,
+  DEFAULT_SECRET_ALLOWLIST,
+  DEFAULT_SECRET_DETECTORS,
+  compileSecrets,
+  redactSecrets,
+} from "./secrets.js"
+import { DEFAULT_PROTECTED_VARIABLES, compileVariables } from "./env.js"
+import { DEFAULT_EGRESS_ALLOW, DEFAULT_EGRESS_RULES, compileEgress } from "./egress.js"
+import { DEFAULT_TOOL_RULES, compileToolRules } from "./mcp.js"
+import { DEFAULT_SQL_ACTIONS } from "./sql.js"
+import { DEFAULT_KUBE_CONTEXTS, compileKubeContexts } from "./kube.js"
+import { DEFAULT_CLOUD_ENVIRONMENTS, DEFAULT_CLOUD_IDENTITIES, compileCloud } from "./cloud.js"
+import { DEFAULT_DATABASE_ENVIRONMENTS, DEFAULT_DATABASE_HOSTS, compileDatabases } from "./database.js"
+import { evaluateToolCall, formatFindings, summarizeFindings, type Policy } from "./evaluate.js"
 import { loadConfig, applyConfig } from "./config.js"
 
 interface PendingAsk {
-  reason: string
-  match: string
   tool: string
+  /** Every finding, shown in the confirmation dialog */
+  summary: string
 }
 
 // ---------------------------------------------------------------------------
@@ -22,10 +37,55 @@ interface PendingAsk {
 export const DamageControl: Plugin = async ({ client, directory }) => {
   // Load and apply custom configuration
   const { config, warnings } = loadConfig(directory)
-  const { patterns, paths } = applyConfig(config, DEFAULT_PATTERNS, DEFAULT_PROTECTED_PATHS)
+  const effective = applyConfig(config, {
+    patterns: DEFAULT_PATTERNS,
+    paths: DEFAULT_PROTECTED_PATHS,
+    exceptions: DEFAULT_PATH_EXCEPTIONS,
+    tools: DEFAULT_TOOL_ARGS,
+    secrets: { detectors: DEFAULT_SECRET_DETECTORS, allow: DEFAULT_SECRET_ALLOWLIST, redact: DEFAULT_REDACT_TOOLS },
+    env: { variables: DEFAULT_PROTECTED_VARIABLES },
+    egress: { rules: DEFAULT_EGRESS_RULES, allow: DEFAULT_EGRESS_ALLOW },
+    toolRules: DEFAULT_TOOL_RULES,
+    sql: DEFAULT_SQL_ACTIONS,
+    kube: DEFAULT_KUBE_CONTEXTS,
+    cloud: { identities: DEFAULT_CLOUD_IDENTITIES, environments: DEFAULT_CLOUD_ENVIRONMENTS },
+    databases: { hosts: DEFAULT_DATABASE_HOSTS, environments: DEFAULT_DATABASE_ENVIRONMENTS },
+  })
+  const tools = effective.tools
+  const redactTools = new Set(effective.secrets.redact)
+
+  // Compiled once: every tool call reuses the regexes and the path index
+  const policy: Policy = {
+    patterns: compilePatterns(effective.patterns),
+    paths: compilePaths(effective.paths),
+    exceptions: compilePaths(effective.exceptions),
+    secrets: compileSecrets(effective.secrets.detectors, effective.secrets.allow, effective.secrets.action),
+    variables: compileVariables(effective.env.variables, effective.env.dump),
+    egress: compileEgress(
+      effective.egress.rules,
+      effective.egress.allow,
+      effective.egress.upload,
+      effective.egress.download,
+    ),
+    toolRules: compileToolRules(effective.toolRules),
+    sql: effective.sql,
+    kube: compileKubeContexts(effective.kube),
+    cloud: compileCloud(effective.cloud.identities, effective.cloud.environments),
+    databases: compileDatabases(effective.databases.hosts, effective.databases.environments),
+  }
 
   const hasCustomConfig =
-    config.patterns !== undefined || config.paths !== undefined
+    config.patterns !== undefined ||
+    config.paths !== undefined ||
+    config.tools !== undefined ||
+    config.secrets !== undefined ||
+    config.env !== undefined ||
+    config.egress !== undefined ||
+    config.mcp !== undefined ||
+    config.sql !== undefined ||
+    config.kube !== undefined ||
+    config.cloud !== undefined ||
+    config.databases !== undefined
 
   await client.app.log({
     body: {
@@ -35,8 +95,18 @@ export const DamageControl: Plugin = async ({ client, directory }) => {
       extra: {
         directory,
         customConfig: hasCustomConfig,
-        patterns: patterns.length,
-        paths: paths.length,
+        patterns: effective.patterns.length,
+        paths: effective.paths.length,
+        exceptions: effective.exceptions.length,
+        tools: Object.keys(tools).length,
+        secretDetectors: effective.secrets.detectors.length,
+        redactTools: effective.secrets.redact.length,
+        variables: effective.env.variables.length,
+        egressRules: effective.egress.rules.length,
+        toolRules: effective.toolRules.length,
+        kubeContexts: effective.kube.length,
+        cloudIdentities: effective.cloud.identities.length,
+        databaseHosts: effective.databases.hosts.length,
       },
     },
   })
@@ -60,8 +130,9 @@ export const DamageControl: Plugin = async ({ client, directory }) => {
     // -----------------------------------------------------------------------
     // Hook 1: Inspect tool calls before execution
     //
-    // - action:'block' -> throw immediately (hard block)
-    // - action:'ask'   -> stash match, return void (proceed to permission
+    // Calls are decided by their most severe finding:
+    // - action:'block' -> throw with every finding (hard block)
+    // - action:'ask'   -> stash findings, return void (proceed to permission
     //                     system where hook 2 forces the confirmation dialog)
     // -----------------------------------------------------------------------
     'tool.execute.before': async (input, output) => {
@@ -77,153 +148,40 @@ export const DamageControl: Plugin = async ({ client, directory }) => {
         },
       })
 
-      // -- Shell commands --
-      if (tool === 'bash' || tool === 'shell' || tool === 'cmd') {
-        const command = args.command as string
-        if (!command) return
-
-        // Unwrap shell wrappers (e.g. bash -c "rm -rf /") to inspect
-        // the inner commands. The original command is checked first.
-        const commandsToCheck = [command, ...unwrapShellCommand(command)]
-
-        // 1. Check dangerous command patterns
-        for (const cmd of commandsToCheck) {
-          const result = matchPattern(cmd, patterns)
-          if (result) {
-            const { match, pattern } = result
-
-            if (pattern.action === 'block') {
-              await client.app.log({
-                body: {
-                  service: 'damage-control',
-                  level: 'warn',
-                  message: cmd === command
-                    ? 'Blocked dangerous command'
-                    : 'Blocked dangerous command (unwrapped from shell wrapper)',
-                  extra: { command: command.slice(0, 100), reason: pattern.reason },
-                },
-              })
-              throw new Error(
-                `DAMAGE_CONTROL_BLOCKED: ${pattern.reason}\n\n` +
-                `Command: ${match}`
-              )
-            }
-
-            // action === 'ask' -- stash for permission.ask hook
-            await client.app.log({
-              body: {
-                service: 'damage-control',
-                level: 'warn',
-                message: cmd === command
-                  ? 'Flagged command for confirmation'
-                  : 'Flagged command for confirmation (unwrapped from shell wrapper)',
-                extra: { command: command.slice(0, 100), reason: pattern.reason },
-              },
-            })
-            pendingAsks.set(input.callID, {
-              reason: pattern.reason,
-              match,
-              tool,
-            })
-            return // proceed to permission system
-          }
-        }
-
-        // 2. Check three-tier path protection for shell commands
-        //    zeroAccess: block if path appears in command at all
-        //    readOnly:   block only writes/deletes (cat ~/.bashrc is fine)
-        //    noDelete:   block only deletes (echo >> .gitignore is fine)
-        for (const cmd of commandsToCheck) {
-          const violation = checkShellPathViolation(cmd, paths)
-          if (violation) {
-            const { protectedPath: prot, operation } = violation
-            const verb = operation === 'access' ? 'access'
-              : operation === 'write' ? 'write to'
-              : 'delete'
-            await client.app.log({
-              body: {
-                service: 'damage-control',
-                level: 'warn',
-                message: cmd === command
-                  ? `Blocked ${operation} on protected path in command`
-                  : `Blocked ${operation} on protected path (unwrapped from shell wrapper)`,
-                extra: { command: command.slice(0, 100), path: prot.path, level: prot.level },
-              },
-            })
-            throw new Error(
-              `DAMAGE_CONTROL_BLOCKED: Cannot ${verb} protected path "${prot.path}"\n` +
-              `Protection level: ${prot.level}`
-            )
-          }
-        }
+      // Every file and command the call touches, per the tool argument
+      // map; the most severe finding decides
+      const { decision, findings, excepted } = evaluateToolCall(tool, args, tools, policy, directory)
+      for (const { filePath, path, exception } of excepted) {
+        await client.app.log({
+          body: {
+            service: 'damage-control',
+            level: 'info',
+            message: 'Allowed by path exception',
+            extra: { tool, filePath, path, exception },
+          },
+        })
       }
-
-      // -- Read operations --
-      // Only zeroAccess paths block reads. readOnly and noDelete allow reading.
-      if (tool === 'read' || tool === 'glob' || tool === 'grep') {
-        const filePath = args.filePath as string
-        if (!filePath) return
-
-        const prot = checkPathProtection(filePath, paths)
-        if (prot && prot.level === 'zeroAccess') {
-          await client.app.log({
-            body: {
-              service: 'damage-control',
-              level: 'warn',
-              message: 'Blocked read of protected path',
-              extra: { filePath, path: prot.path },
-            },
-          })
-          throw new Error(
-            `DAMAGE_CONTROL_BLOCKED: Cannot read protected path "${prot.path}"`
-          )
-        }
+      for (const finding of findings) {
+        await client.app.log({
+          body: {
+            service: 'damage-control',
+            level: 'warn',
+            message: finding.message,
+            extra: finding.extra,
+          },
+        })
       }
 
-      // -- Write/edit operations --
-      // zeroAccess and readOnly block writes. noDelete allows writes.
-      if (tool === 'edit' || tool === 'write' || tool === 'create') {
-        const filePath = args.filePath as string
-        if (!filePath) return
-
-        const prot = checkPathProtection(filePath, paths)
-        if (prot && (prot.level === 'zeroAccess' || prot.level === 'readOnly')) {
-          await client.app.log({
-            body: {
-              service: 'damage-control',
-              level: 'warn',
-              message: `Blocked ${tool} on protected path`,
-              extra: { filePath, path: prot.path, level: prot.level },
-            },
-          })
-          throw new Error(
-            `DAMAGE_CONTROL_BLOCKED: Cannot ${tool} protected path "${prot.path}"\n` +
-            `Protection level: ${prot.level}`
-          )
-        }
+      if (decision === 'block') {
+        throw new Error(`DAMAGE_CONTROL_BLOCKED: ${formatFindings(findings)}`)
       }
-
-      // -- Delete operations --
-      // All three levels block deletes.
-      if (tool === 'delete' || tool === 'remove') {
-        const filePath = args.filePath as string
-        if (!filePath) return
-
-        const prot = checkPathProtection(filePath, paths)
-        if (prot) {
-          await client.app.log({
-            body: {
-              service: 'damage-control',
-              level: 'warn',
-              message: `Blocked ${tool} on protected path`,
-              extra: { filePath, path: prot.path, level: prot.level },
-            },
-          })
-          throw new Error(
-            `DAMAGE_CONTROL_BLOCKED: Cannot ${tool} protected path "${prot.path}"\n` +
-            `Protection level: ${prot.level}`
-          )
-        }
+      if (decision === 'ask') {
+        // Stash for the permission.ask hook
+        pendingAsks.set(input.callID, {
+          tool,
+          summary: summarizeFindings(findings),
+        })
+        // proceed to permission system
       }
     },
 
@@ -249,12 +207,46 @@ export const DamageControl: Plugin = async ({ client, directory }) => {
           service: 'damage-control',
           level: 'warn',
           message: 'Forcing confirmation dialog',
-          extra: { reason: pending.reason, match: pending.match },
+          extra: { tool: pending.tool, findings: pending.summary },
         },
       })
 
-      // Force the confirmation dialog
+      // Force the confirmation dialog and name everything that was found:
+      // the title is what the dialog shows
+      input.title = `${input.title} -- damage-control flagged: ${pending.summary}`
+      input.metadata = { ...input.metadata, damageControl: pending.summary }
       output.status = 'ask'
     },
+
+    // -----------------------------------------------------------------------
+    // Hook 3: Redact secrets from tool output
+    //
+    // Output of tools that can print credentials (env dumps, config files,
+    // error messages) is scanned before the model sees it; each secret is
+    // replaced by [REDACTED:<detector>].
+    // -----------------------------------------------------------------------
+    'tool.execute.after': async (input, output) => {
+      const tool = input.tool
+      if (!redactTools.has(tool) || typeof output.output !== 'string') return
+
+      const { text, redactions } = redactSecrets(output.output, policy.secrets)
+      if (redactions.length === 0) return
+      output.output = text
+      // The bash tool keeps its own copy of the output for display
+      if (typeof output.metadata?.output === 'string') {
+        output.metadata.output = redactSecrets(output.metadata.output, policy.secrets).text
+      }
+
+      for (const { detector, line } of redactions) {
+        await client.app.log({
+          body: {
+            service: 'damage-control',
+            level: 'warn',
+            message: 'Redacted secret from tool output',
+            extra: { tool, detector: detector.id, line },
+          },
+        })
+      }
+    },
   }
 }
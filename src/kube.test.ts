@@ -0,0 +1,117 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { delimiter, join } from 'node:path'
+import { parseShellCommand } from './shell.js'
+import {
+  compileKubeContexts,
+  DEFAULT_KUBE_CONTEXTS,
+  kubeCommands,
+  matchKubeContext,
+  type KubeCommand,
+} from './kube.js'
+
+// ---------------------------------------------------------------------------
+// kubeCommands
+// ---------------------------------------------------------------------------
+
+describe('kubeCommands', () => {
+  let dir: string
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dc-kube-'))
+    writeFileSync(join(dir, 'config'), 'apiVersion: v1\nclusters: []\ncurrent-context: kind-dev\nusers:\n- name: dev\n  user:\n    token: abc\n')
+    writeFileSync(join(dir, 'prod.yaml'), 'apiVersion: v1\ncurrent-context: "prod-eu-1"\n')
+    writeFileSync(join(dir, 'empty.yaml'), 'apiVersion: v1\nkind: Config\n')
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  /** [verb, mutating, context, source] of every kube step in `command` */
+  const commands = (command: string, kubeconfig = 'config') => {
+    const segments = parseShellCommand(command)
+    return kubeCommands(segments, segments.map(() => dir), kubeconfig)
+      .filter((c): c is KubeCommand => c !== null)
+      .map((c) => [c.verb, c.mutating, c.context, c.source])
+  }
+
+  const cases: [string, unknown[][]][] = [
+    ['kubectl get pods', [['get', false, 'kind-dev', 'current-context in config']]],
+    ['kubectl --context prod-eu-1 delete namespace api', [['delete', true, 'prod-eu-1', '--context']]],
+    ['kubectl -n api --context=prod-eu-1 scale deploy/api --replicas 0', [['scale', true, 'prod-eu-1', '--context']]],
+    ['kubectl --kubeconfig prod.yaml rollout restart deploy/api', [['rollout restart', true, 'prod-eu-1', 'current-context in prod.yaml']]],
+    ['kubectl rollout status deploy/api', [['rollout status', false, 'kind-dev', 'current-context in config']]],
+    ['KUBECONFIG=prod.yaml kubectl drain node-1', [['drain', true, 'prod-eu-1', 'current-context in prod.yaml']]],
+    ['export KUBECONFIG=prod.yaml && kubectl apply -f app.yaml', [['apply', true, 'prod-eu-1', 'current-context in prod.yaml']]],
+    [
+      'kubectl config use-context prod-eu-1 && kubectl delete pod api-0',
+      [['config use-context', false, 'kind-dev', 'current-context in config'], ['delete', true, 'prod-eu-1', 'use-context']],
+    ],
+    ['kubectx prod-us && kubectl cordon node-1', [['cordon', true, 'prod-us', 'use-context']]],
+    ['kubectl apply --dry-run=client -f app.yaml', [['apply', false, 'kind-dev', 'current-context in config']]],
+    ['kubectl --context "$CTX" delete pod x', [['delete', true, null, '--context']]],
+    ['helm upgrade --install api ./chart --kube-context prod-eu-1', [['upgrade', true, 'prod-eu-1', '--kube-context']]],
+    ['helm list', [['list', false, 'kind-dev', 'current-context in config']]],
+    ['git status', []],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should resolve ${JSON.stringify(expected)}: ${command}`, () => {
+      assert.deepStrictEqual(commands(command), expected)
+    })
+  }
+
+  it('should take the first KUBECONFIG file that sets a current-context', () => {
+    const kubeconfig = ['missing.yaml', 'empty.yaml', 'prod.yaml', 'config'].join(delimiter)
+    assert.deepStrictEqual(commands('kubectl delete pod x', kubeconfig), [
+      ['delete', true, 'prod-eu-1', 'current-context in prod.yaml'],
+    ])
+  })
+
+  it('should leave the context unset without a readable kubeconfig', () => {
+    assert.deepStrictEqual(commands('kubectl delete pod x', 'missing.yaml'), [['delete', true, null, '']])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// matchKubeContext
+// ---------------------------------------------------------------------------
+
+describe('matchKubeContext', () => {
+  const command = (verb: string, context: string | null, mutating = true): KubeCommand => ({
+    program: 'kubectl',
+    verb,
+    mutating,
+    context,
+    source: '--context',
+  })
+
+  const cases: [KubeCommand, string | null][] = [
+    [command('delete', 'prod-eu-1'), 'ask'],
+    [command('rollout restart', 'gke_acme_europe-west1_production'), 'ask'],
+    [command('get', 'prod-eu-1', false), null],
+    [command('delete', 'kind-dev'), null],
+    [command('delete', null), null],
+  ]
+
+  const compiled = compileKubeContexts(DEFAULT_KUBE_CONTEXTS)
+  for (const [cmd, expected] of cases) {
+    it(`should ${expected ?? 'allow'} ${cmd.verb} in ${cmd.context}`, () => {
+      assert.equal(matchKubeContext(cmd, compiled)?.action ?? null, expected)
+    })
+  }
+
+  it('should apply listed verbs whether or not they mutate, and let block win', () => {
+    const custom = compileKubeContexts([
+      { context: 'prod-*', action: 'ask' },
+      { context: 'prod-*', action: 'block', verbs: ['delete', 'rollout'] },
+      { context: 'prod-*', action: 'ask', verbs: ['exec'] },
+    ])
+    assert.equal(matchKubeContext(command('scale', 'prod-eu-1'), custom)?.action, 'ask')
+    assert.equal(matchKubeContext(command('delete', 'prod-eu-1'), custom)?.action, 'block')
+    assert.equal(matchKubeContext(command('rollout undo', 'prod-eu-1'), custom)?.action, 'block')
+    assert.equal(matchKubeContext(command('exec', 'prod-eu-1', false), custom)?.action, 'ask')
+    assert.equal(matchKubeContext(command('exec', 'staging', false), custom), null)
+  })
+})
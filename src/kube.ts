@@ -0,0 +1,187 @@
+import { delimiter } from 'node:path'
+import { commandWords, type ShellSegment } from './shell.js'
+import type { Action } from './patterns.js'
+import { nameRegex, parseArgs, readConfigFile, resolved } from './args.js'
+
+// ---------------------------------------------------------------------------
+// Kubernetes contexts
+// ---------------------------------------------------------------------------
+// The same `kubectl delete` is routine against kind-dev and an incident
+// against prod-eu-1. Each kubectl, oc and helm command is resolved to the
+// context it runs against: its --context (helm --kube-context) flag, a
+// `kubectl config use-context` or `kubectx` earlier in the command, or the
+// current-context of its kubeconfig (--kubeconfig, KUBECONFIG, then
+// ~/.kube/config). Only the current-context line is read; nothing else
+// from a kubeconfig reaches a report. Context rules then match the context
+// by glob and give mutating verbs (or the verbs they list) an action.
+// ---------------------------------------------------------------------------
+
+export interface KubeContextRule {
+  /** Context name glob (`prod-*`, `*production*`) */
+  context: string
+  action: Action
+  /** Verbs it applies to (`delete`, `rollout restart`, `exec`); every mutating verb when omitted */
+  verbs?: string[]
+  reason?: string
+}
+
+/** A kubectl, oc or helm command and the context it runs against */
+export interface KubeCommand {
+  program: string
+  /** Verb, with its subcommand for `rollout` and `config` (`rollout restart`) */
+  verb: string
+  /** Whether the verb changes the cluster (a dry run does not) */
+  mutating: boolean
+  /** Effective context; null when it cannot be worked out */
+  context: string | null
+  /** Where the context came from: the flag, `use-context` or the kubeconfig file */
+  source: string
+}
+
+/** Confirm changes to clusters that look like production */
+export const DEFAULT_KUBE_CONTEXTS: KubeContextRule[] = [{ context: '*prod*', action: 'ask' }]
+
+/** The effective context rules, compiled once */
+export interface CompiledKube {
+  rules: { rule: KubeContextRule; regex: RegExp }[]
+}
+
+interface KubeClient {
+  /** Flags naming the context */
+  context: ReadonlySet<string>
+  /** Flags that take a value (context and kubeconfig flags included) */
+  values: ReadonlySet<string>
+  mutating: ReadonlySet<string>
+}
+
+const KUBECTL: KubeClient = {
+  context: new Set(['--context']),
+  values: new Set([
+    '--context', '--kubeconfig', '--cluster', '--user', '-n', '--namespace', '-s', '--server', '--token', '--as',
+    '--as-group', '--as-uid', '--request-timeout', '--cache-dir', '--certificate-authority', '--client-certificate',
+    '--client-key', '--tls-server-name', '-v', '--profile', '--profile-output', '-l', '--selector', '-f', '--filename',
+    '-o', '--output', '-c', '--container', '--field-selector', '-p', '--patch', '--replicas', '--image', '--type',
+  ]),
+  mutating: new Set([
+    'apply', 'create', 'delete', 'replace', 'patch', 'edit', 'scale', 'autoscale', 'drain', 'cordon', 'uncordon',
+    'taint', 'label', 'annotate', 'set', 'expose', 'run', 'rollout restart', 'rollout undo', 'rollout pause',
+    'rollout resume',
+  ]),
+}
+
+const CLIENTS: Record<string, KubeClient> = {
+  kubectl: KUBECTL,
+  oc: KUBECTL,
+  helm: {
+    context: new Set(['--kube-context']),
+    values: new Set([
+      '--kube-context', '--kubeconfig', '-n', '--namespace', '--kube-apiserver', '--kube-token', '--kube-as-user',
+      '--kube-as-group', '--kube-ca-file', '--registry-config', '--repository-config', '--repository-cache',
+      '-f', '--values', '--set', '--set-string', '--set-file', '--version', '--timeout', '-o', '--output',
+    ]),
+    mutating: new Set(['install', 'upgrade', 'uninstall', 'delete', 'del', 'un', 'rollback']),
+  },
+}
+
+/** Verbs whose subcommand is part of the verb */
+const SUBCOMMAND_VERBS: ReadonlySet<string> = new Set(['rollout', 'config'])
+
+const CURRENT_CONTEXT_RE = /^\s*["']?current-context["']?\s*:\s*(?:"([^"]*)"|'([^']*)'|([^\s,#]+))/m
+
+export function compileKubeContexts(rules: readonly KubeContextRule[]): CompiledKube {
+  return { rules: rules.map((rule) => ({ rule, regex: nameRegex(rule.context) })) }
+}
+
+/** The current-context of the first kubeconfig file that sets one */
+function currentContext(kubeconfig: string, cwd: string): { context: string; file: string } | null {
+  for (const file of kubeconfig.split(delimiter)) {
+    const match = file ? CURRENT_CONTEXT_RE.exec(readConfigFile(file, cwd) ?? '') : null
+    const context = match && (match[1] ?? match[2] ?? match[3])
+    if (context) return { context, file }
+  }
+  return null
+}
+
+/** `KUBECONFIG` set by an assignment (`KUBECONFIG=x`, `export KUBECONFIG=x`) */
+function kubeconfigAssignment(assignments: readonly string[]): string | undefined {
+  const assignment = [...assignments].reverse().find((a) => a.startsWith('KUBECONFIG='))
+  return assignment?.slice('KUBECONFIG='.length)
+}
+
+/**
+ * The kubectl, oc and helm commands among `segments`, each with the
+ * context it runs against; null for other steps. `cwds` are the
+ * directories the steps run in. `kubeconfig` is the KUBECONFIG the
+ * command starts with; a step that sets KUBECONFIG, switches context
+ * (`kubectl config use-context`, `kubectx`) changes it for later steps.
+ */
+export function kubeCommands(
+  segments: readonly ShellSegment[],
+  cwds: readonly string[],
+  kubeconfig = process.env.KUBECONFIG || '~/.kube/config',
+): (KubeCommand | null)[] {
+  let switched: string | null = null
+  return segments.map((segment, i) => {
+    const [program = '', ...args] = commandWords(segment)
+    if (segment.argv.length === 0 || program === 'export') {
+      kubeconfig = kubeconfigAssignment(program === 'export' ? args : segment.assignments) ?? kubeconfig
+      return null
+    }
+    if (program === 'kubectx' && args.length === 1 && !args[0].startsWith('-')) {
+      switched = resolved(args[0])
+      return null
+    }
+    const client = CLIENTS[program]
+    if (!client) return null
+
+    const { operands, flags } = parseArgs(args, client.values)
+    const verb = SUBCOMMAND_VERBS.has(operands[0]) && operands[1] ? `${operands[0]} ${operands[1]}` : (operands[0] ?? '')
+    const dryRun = flags.has('--dry-run') && flags.get('--dry-run') !== 'none'
+    const command: KubeCommand = {
+      program,
+      verb,
+      mutating: !dryRun && (client.mutating.has(verb) || client.mutating.has(operands[0])),
+      context: null,
+      source: '',
+    }
+
+    const flag = [...client.context].find((f) => flags.has(f))
+    if (flag) {
+      command.context = resolved(String(flags.get(flag)))
+      command.source = flag
+    } else if (switched) {
+      command.context = switched
+      command.source = 'use-context'
+    } else {
+      const file = flags.get('--kubeconfig') ?? kubeconfigAssignment(segment.assignments) ?? kubeconfig
+      const current = resolved(String(file)) && currentContext(String(file), cwds[i])
+      if (current) {
+        command.context = current.context
+        command.source = `current-context in ${current.file}`
+      }
+    }
+
+    if (verb === 'config use-context' && operands[2]) switched = resolved(operands[2])
+    return command
+  })
+}
+
+/**
+ * The context rule for `command`: the most severe (block over ask, then
+ * list order) whose glob matches its context and whose verbs include its
+ * verb, or that has no verbs and the command is mutating.
+ */
+export function matchKubeContext(command: KubeCommand, compiled: CompiledKube): KubeContextRule | null {
+  if (command.context === null) return null
+  let found: KubeContextRule | null = null
+  for (const { rule, regex } of compiled.rules) {
+    if (!regex.test(command.context)) continue
+    const applies = rule.verbs
+      ? rule.verbs.some((v) => command.verb === v || command.verb.startsWith(`${v} `))
+      : command.mutating
+    if (!applies) continue
+    if (rule.action === 'block') return rule
+    found ??= rule
+  }
+  return found
+}
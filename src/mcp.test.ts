@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { compileToolRules, DEFAULT_TOOL_RULES, toolRuleTargets, type ToolRule } from './mcp.js'
+
+// ---------------------------------------------------------------------------
+// toolRuleTargets
+// ---------------------------------------------------------------------------
+
+describe('toolRuleTargets', () => {
+  const compiled = compileToolRules(DEFAULT_TOOL_RULES)
+
+  const cases: [string, Record<string, unknown>, [string, string | undefined][]][] = [
+    ['filesystem_read_file', { path: '/home/me/.ssh/id_rsa' }, [['read', '/home/me/.ssh/id_rsa']]],
+    ['fs_read_multiple_files', { paths: ['a.ts', 'b.ts'] }, [['read', 'a.ts'], ['read', 'b.ts']]],
+    ['filesystem_list_directory_with_sizes', { path: '/srv' }, [['read', '/srv']]],
+    ['filesystem_write_file', { path: 'a.ts', content: 'x' }, [['write', 'a.ts'], ['content', 'x']]],
+    [
+      'filesystem_edit_file',
+      { path: 'a.ts', edits: [{ oldText: 'a', newText: 'b' }, { oldText: 'c', newText: 'd' }] },
+      [['write', 'a.ts'], ['content', 'b'], ['content', 'd']],
+    ],
+    ['filesystem_move_file', { source: 'a', destination: 'b' }, [['delete', 'a'], ['write', 'b']]],
+    ['git_git_status', { repo_path: '/work/app' }, [['read', '/work/app']]],
+    ['git_git_init', { repo_path: '/work/new' }, [['read', '/work/new'], ['write', '/work/new']]],
+    ['postgres_query', { sql: 'SELECT 1' }, [['sql', 'SELECT 1']]],
+    ['sqlite_write_query', { query: 'DELETE FROM t' }, [['sql', 'DELETE FROM t']]],
+    ['sqlite_read_query', { query: 'SELECT 1' }, [['sql', 'SELECT 1']]],
+    ['brave_search_query', { query: 'how to drop table users' }, []],
+    ['github_delete_repository', { owner: 'o', repo: 'r' }, [['block', undefined]]],
+    ['github_delete_file', { path: 'a' }, [['ask', undefined]]],
+    ['gh_delete_repository', { owner: 'o', repo: 'r' }, [['block', undefined]]],
+    ['mcp__github__delete_file', { path: 'a' }, [['ask', undefined]]],
+    ['mcp__github__delete_branch', { branch: 'b' }, [['ask', undefined]]],
+    ['gh_merge_pull_request', { pull_number: 1 }, [['ask', undefined]]],
+    ['mcp__git__git_status', { repo_path: '/work/app' }, [['read', '/work/app']]],
+    ['calc_digit_sum', { repo_path: '/work/app' }, []],
+    ['github_push_files', { files: [{ path: 'a', content: 'x' }] }, [['content', 'x']]],
+    ['github_list_issues', { owner: 'o' }, []],
+    ['bash', { command: 'ls' }, []],
+  ]
+
+  for (const [tool, args, expected] of cases) {
+    it(`should check ${JSON.stringify(expected)}: ${tool}`, () => {
+      const targets = toolRuleTargets(tool, args, compiled)
+      assert.deepStrictEqual(targets.map((t) => [t.rule.check ?? t.rule.action, t.value]), expected)
+    })
+  }
+
+  it('should apply a fixed action only when its argument is passed', () => {
+    const rules: ToolRule[] = [{ tool: 'deploy_*', arg: 'environment', action: 'ask', reason: 'Deploy' }]
+    const custom = compileToolRules(rules)
+    assert.deepStrictEqual(toolRuleTargets('deploy_run', { service: 'api' }, custom), [])
+    assert.deepStrictEqual(toolRuleTargets('deploy_run', { environment: 'prod' }, custom), [
+      { rule: rules[0], action: 'ask', arg: 'environment', value: 'prod' },
+    ])
+  })
+
+  it('should keep the first block among fixed actions', () => {
+    const custom = compileToolRules([
+      { tool: 'admin_*', action: 'ask', reason: 'Admin tool' },
+      { tool: 'admin_drop_*', action: 'block', reason: 'Admin drop' },
+      { tool: 'admin_drop_all', action: 'block', reason: 'Later block' },
+    ])
+    assert.deepStrictEqual(toolRuleTargets('ADMIN_DROP_ALL', {}, custom).map((t) => t.rule.reason), ['Admin drop'])
+  })
+})
@@ -0,0 +1,127 @@
+import { argValues, type ArgRole } from './tools.js'
+import type { Action } from './patterns.js'
+import { nameRegex } from './args.js'
+
+// ---------------------------------------------------------------------------
+// Tool rules
+// ---------------------------------------------------------------------------
+// MCP tools arrive named `<server>_<tool>` (postgres_query,
+// github_delete_repository, filesystem_write_file) and are not in the tool
+// argument map. Tool rules match tool names by glob. A rule either checks
+// one argument -- as a file read, written or deleted, as content scanned
+// for secrets, as a shell command, URL or SQL, or against the dangerous
+// command patterns (`patterns`) -- or gives the call a fixed action.
+// ---------------------------------------------------------------------------
+
+/** How a rule checks its argument: like a tool argument role, or by pattern */
+export type RuleCheck = ArgRole | 'patterns'
+
+export interface ToolRule {
+  /** Tool name glob: `*` matches any run of characters (`*_write_file`) */
+  tool: string
+  /** Argument checked (`sql`, `edits[].newText`); the whole call when omitted */
+  arg?: string
+  /** How the argument is checked; rules without one apply `action` */
+  check?: RuleCheck
+  /** Fixed action for every call (with `arg`, every call that passes it) */
+  action?: Action
+  /** Headline of a fixed action */
+  reason?: string
+}
+
+/**
+ * Rules for the reference MCP servers, whatever name they are registered
+ * under: filesystem, git, postgres, sqlite and github.
+ */
+export const DEFAULT_TOOL_RULES: ToolRule[] = [
+  // -- filesystem --
+  { tool: '*_read_file', arg: 'path', check: 'read' },
+  { tool: '*_read_text_file', arg: 'path', check: 'read' },
+  { tool: '*_read_media_file', arg: 'path', check: 'read' },
+  { tool: '*_read_multiple_files', arg: 'paths', check: 'read' },
+  { tool: '*_list_directory*', arg: 'path', check: 'read' },
+  { tool: '*_directory_tree', arg: 'path', check: 'read' },
+  { tool: '*_search_files', arg: 'path', check: 'read' },
+  { tool: '*_get_file_info', arg: 'path', check: 'read' },
+  { tool: '*_write_file', arg: 'path', check: 'write' },
+  { tool: '*_write_file', arg: 'content', check: 'content' },
+  { tool: '*_edit_file', arg: 'path', check: 'write' },
+  { tool: '*_edit_file', arg: 'edits[].newText', check: 'content' },
+  { tool: '*_create_directory', arg: 'path', check: 'write' },
+  { tool: '*_move_file', arg: 'source', check: 'delete' },
+  { tool: '*_move_file', arg: 'destination', check: 'write' },
+
+  // -- git (every tool takes the repository path) --
+  { tool: '*_git_*', arg: 'repo_path', check: 'read' },
+  { tool: '*_git_init', arg: 'repo_path', check: 'write' },
+
+  // -- postgres (query) and sqlite (read_query, write_query, create_table).
+  //    Other tools take free text as `query` (search_query), so sqlite's
+  //    is only read by its own tool names --
+  { tool: '*_query', arg: 'sql', check: 'sql' },
+  { tool: '*_read_query', arg: 'query', check: 'sql' },
+  { tool: '*_write_query', arg: 'query', check: 'sql' },
+  { tool: '*_create_table', arg: 'query', check: 'sql' },
+
+  // -- github (any other delete is caught while the server name says github) --
+  { tool: '*_delete_repository', action: 'block', reason: 'Delete a GitHub repository' },
+  { tool: '*_delete_file', action: 'ask', reason: 'Delete a file in a repository' },
+  { tool: '*github*_delete_*', action: 'ask', reason: 'Delete through the GitHub API' },
+  { tool: '*_merge_pull_request', action: 'ask', reason: 'Merge a GitHub pull request' },
+  { tool: '*_create_or_update_file', arg: 'content', check: 'content' },
+  { tool: '*_push_files', arg: 'files[].content', check: 'content' },
+]
+
+/** The effective tool rules, compiled once */
+export interface CompiledToolRules {
+  rules: { rule: ToolRule; regex: RegExp }[]
+}
+
+/** An argument value a checking rule reads */
+export interface ToolRuleCheck {
+  rule: ToolRule
+  check: RuleCheck
+  arg: string
+  value: string
+}
+
+/** A fixed action; `arg` and `value` are unset when it applies to the whole call */
+export interface ToolRuleAction {
+  rule: ToolRule
+  action: Action
+  arg?: string
+  value?: string
+}
+
+export type ToolRuleTarget = ToolRuleCheck | ToolRuleAction
+
+export function compileToolRules(rules: readonly ToolRule[]): CompiledToolRules {
+  return { rules: rules.map((rule) => ({ rule, regex: nameRegex(rule.tool) })) }
+}
+
+/**
+ * What the rules check in a call of `tool`: every value of every argument
+ * a checking rule names, and the most severe fixed action (block over
+ * ask, then list order).
+ */
+export function toolRuleTargets(
+  tool: string,
+  args: Record<string, unknown>,
+  compiled: CompiledToolRules,
+): ToolRuleTarget[] {
+  const targets: ToolRuleCheck[] = []
+  let fixed: ToolRuleAction | null = null
+  for (const { rule, regex } of compiled.rules) {
+    if (!regex.test(tool)) continue
+    const { arg, check, action } = rule
+    const values = arg === undefined ? [] : argValues(args, arg)
+    if (check) {
+      if (arg !== undefined) for (const value of values) targets.push({ rule, check, arg, value })
+      continue
+    }
+    if (!action || (arg !== undefined && values.length === 0)) continue
+    if (fixed?.action === 'block') continue
+    if (!fixed || action === 'block') fixed = { rule, action, arg, value: values[0] }
+  }
+  return fixed ? [fixed, ...targets] : targets
+}
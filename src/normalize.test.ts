@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { normalizeCommand, foldUnicode } from './normalize.js'
+import { matchPattern, DEFAULT_PATTERNS } from './patterns.js'
+
+// ---------------------------------------------------------------------------
+// normalizeCommand
+// ---------------------------------------------------------------------------
+
+describe('normalizeCommand', () => {
+  describe('quoting and escapes', () => {
+    const cases: [string, string][] = [
+      ["r''m -rf /", 'rm -rf /'],
+      ['\\rm -rf /', 'rm -rf /'],
+      ['r"m" -rf /', 'rm -rf /'],
+      ["$'\\x72\\x6d' -rf /", 'rm -rf /'],
+      ["$'\\162\\155' -rf /", 'rm -rf /'],
+      ['"git" "push" "--force"', 'git push --force'],
+      ['g\\it p\\ush -\\f', 'git push -f'],
+      ['git commit -m "fix: a && b"', "git commit -m 'fix: a && b'"],
+      ["echo \"it's\"", "echo 'it'\\''s'"],
+      ['X="a b" make', "X='a b' make"],
+      ['echo $(date) *.ts', 'echo $(date) *.ts'],
+      ['cat "~/.ssh/id_rsa"', "cat '~/.ssh/id_rsa'"],
+    ]
+
+    for (const [command, expected] of cases) {
+      it(`should normalize: ${command}`, () => {
+        assert.equal(normalizeCommand(command), expected)
+      })
+    }
+  })
+
+  describe('$IFS', () => {
+    const cases: [string, string][] = [
+      ['rm${IFS}-rf${IFS}/', 'rm -rf /'],
+      ['rm$IFS-rf$IFS/', 'rm -rf /'],
+      ['rm${IFS%?}-rf /', 'rm -rf /'],
+      ['echo $IFSX', 'echo $IFSX'],
+    ]
+
+    for (const [command, expected] of cases) {
+      it(`should replace IFS in: ${command}`, () => {
+        assert.equal(normalizeCommand(command), expected)
+      })
+    }
+  })
+
+  describe('structure', () => {
+    const cases: [string, string][] = [
+      ["l''s && r''m -rf /", 'ls && rm -rf /'],
+      ['a | b; c || d & e', 'a | b ; c || d & e'],
+      ['echo x > "out file" 2>&1', "echo x >'out file' 2>&1"],
+      ['cat <<EOF | sh\nreboot\nEOF', 'cat | sh'],
+      ['sh <<< "rm -rf /"', "sh <<< 'rm -rf /'"],
+      ['', ''],
+    ]
+
+    for (const [command, expected] of cases) {
+      it(`should rebuild: ${JSON.stringify(command)}`, () => {
+        assert.equal(normalizeCommand(command), expected)
+      })
+    }
+  })
+
+  describe('obfuscated commands should match patterns', () => {
+    const cases: [string, string][] = [
+      ["r''m -rf /", 'Recursive delete from root'],
+      ['\\rm -rf /', 'Recursive delete from root'],
+      ["$'\\x72\\x6d' -rf /", 'Recursive delete from root'],
+      ['rm${IFS}-rf${IFS}/', 'Recursive delete from root'],
+      ['terraform​ destroy', 'terraform destroy'],
+      ['tеrraform destroy', 'terraform destroy'],
+      ['ｒｍ -rf /', 'Recursive delete from root'],
+      ['git push –f', 'git push -f (use --force-with-lease)'],
+      ['"sudo" "reb""oot"', 'System reboot'],
+    ]
+
+    for (const [command, reason] of cases) {
+      it(`should detect: ${command}`, () => {
+        assert.equal(matchPattern(normalizeCommand(command), DEFAULT_PATTERNS)?.pattern.reason, reason)
+      })
+    }
+  })
+})
+
+// ---------------------------------------------------------------------------
+// foldUnicode
+// ---------------------------------------------------------------------------
+
+describe('foldUnicode', () => {
+  const cases: [string, string][] = [
+    ['rm', 'rm'],
+    ['rм', 'rm'],
+    ['ѕudo', 'sudo'],
+    ['ᴅʀᴏᴘ', 'ᴅʀᴏᴘ'],
+    ['ＤＲＯＰ ＴＡＢＬＥ', 'DROP TABLE'],
+    ['r‍m﻿', 'rm'],
+    ['a‮b', 'ab'],
+    ['–rf', '-rf'],
+    ['／etc／passwd', '/etc/passwd'],
+  ]
+
+  for (const [text, expected] of cases) {
+    it(`should fold: ${JSON.stringify(text)}`, () => {
+      assert.equal(foldUnicode(text), expected)
+    })
+  }
+})
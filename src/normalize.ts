@@ -0,0 +1,100 @@
+import { parseShellCommand, type ShellOperator, type ShellWord } from './shell.js'
+
+// ---------------------------------------------------------------------------
+// Command normalization
+// ---------------------------------------------------------------------------
+// Shell quoting gives many spellings of the same command: `r''m -rf /`,
+// `\rm -rf /`, `r"m" -rf /`, `$'\x72\x6d' -rf /`, `rm${IFS}-rf${IFS}/`.
+// Unicode adds look-alikes (Cyrillic `р`, fullwidth `ｒｍ`) and invisible
+// zero-width characters. The canonical form rebuilds every simple command
+// from its words after quote removal, so the regexes in DEFAULT_PATTERNS
+// see what the shell will actually run.
+// ---------------------------------------------------------------------------
+
+/** Invisible characters: zero-width spaces/joiners, bidi controls, BOM, soft hyphen */
+const INVISIBLE_RE = /[\u00ad\u180e\u200b-\u200f\u202a-\u202e\u2060-\u2064\ufeff]/g
+
+/** Look-alike characters that NFKC leaves alone, mapped to ASCII */
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p', 'с': 'c',
+  'т': 't', 'у': 'y', 'х': 'x', 'і': 'i', 'ј': 'j', 'ѕ': 's', 'ԁ': 'd', 'ԛ': 'q', 'ԝ': 'w',
+  'А': 'A', 'В': 'B', 'Е': 'E', 'К': 'K', 'М': 'M', 'Н': 'H', 'О': 'O', 'Р': 'P', 'С': 'C',
+  'Т': 'T', 'Х': 'X', 'І': 'I', 'Ј': 'J', 'Ѕ': 'S',
+  // Greek
+  'α': 'a', 'ο': 'o', 'ρ': 'p', 'ν': 'v', 'ι': 'i', 'κ': 'k',
+  'Α': 'A', 'Β': 'B', 'Ε': 'E', 'Ζ': 'Z', 'Η': 'H', 'Ι': 'I', 'Κ': 'K', 'Μ': 'M', 'Ν': 'N',
+  'Ο': 'O', 'Ρ': 'P', 'Τ': 'T', 'Υ': 'Y', 'Χ': 'X',
+  // Latin extensions and punctuation
+  'ɡ': 'g', 'ı': 'i', 'ȷ': 'j',
+  '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-', '−': '-', '∕': '/', '⁄': '/',
+}
+
+const CONFUSABLES_RE = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'g')
+
+/** `$IFS`, `${IFS}` and `${IFS...}` slices all stand for whitespace */
+const IFS_RE = /\$\{IFS[^}]*\}|\$IFS(?![A-Za-z0-9_])/g
+
+/** Characters that need quoting to stay inside one word */
+const NEEDS_QUOTES_RE = /[\s;&|<>()`$"'\\*?[\]#~{}]/
+
+/**
+ * Fold Unicode look-alikes to ASCII: NFKC (fullwidth and compatibility
+ * forms), confusable Cyrillic/Greek letters and dashes, and invisible
+ * characters removed.
+ */
+export function foldUnicode(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(INVISIBLE_RE, '')
+    .replace(CONFUSABLES_RE, (c) => CONFUSABLES[c])
+}
+
+/** Quote a literal value only if it would otherwise split or expand */
+function quote(value: string): string {
+  return NEEDS_QUOTES_RE.test(value) ? `'${value.replace(/'/g, `'\\''`)}'` : value
+}
+
+/** Write a word back in canonical form: unquoted where possible */
+function canonicalWord(word: ShellWord): string {
+  // Unquoted words keep expansions ($(...), *) as written
+  if (!word.quoted && !word.raw.includes('\\')) return word.raw
+  return quote(word.value)
+}
+
+function operatorText(op: ShellOperator | null): string {
+  switch (op) {
+    case null: return ''
+    case '\n': return '\n'
+    case '(':
+    case ')': return '; '
+    case '&': return ' & '
+    default: return ` ${op} `
+  }
+}
+
+/**
+ * Return the canonical form of a shell command: Unicode folded, `$IFS`
+ * replaced by a space and each simple command rebuilt from its words with
+ * quote splitting, backslash escapes and ANSI-C quoting removed. Heredoc
+ * bodies are dropped; they are inspected by `unwrapShellCommand`.
+ */
+export function normalizeCommand(command: string): string {
+  const folded = foldUnicode(command).replace(IFS_RE, ' ')
+  return parseShellCommand(folded)
+    .map((segment) => {
+      const parts = [
+        ...segment.assignments.map((a) => {
+          const eq = a.indexOf('=')
+          return a.slice(0, eq + 1) + quote(a.slice(eq + 1))
+        }),
+        ...segment.words.map(canonicalWord),
+        ...segment.redirects
+          .filter((r) => r.body === undefined)
+          .map((r) => r.op + (r.op.endsWith('<<<') ? ` ${quote(r.target)}` : quote(r.target))),
+      ]
+      return parts.join(' ') + operatorText(segment.operator)
+    })
+    .join('')
+    .trim()
+}
@@ -0,0 +1,177 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parsePatch, patchAccesses, patchAddedLines } from './patch.js'
+
+// ---------------------------------------------------------------------------
+// parsePatch: apply_patch envelope
+// ---------------------------------------------------------------------------
+
+describe('parsePatch (envelope)', () => {
+  it('should list added, updated, moved and deleted files in order', () => {
+    const patch = [
+      '*** Begin Patch',
+      '*** Add File: src/new.ts',
+      '+export const x = 1',
+      '*** Update File: src/old.ts',
+      '*** Move to: src/renamed.ts',
+      '@@ function a()',
+      '-*** Delete File: not/a/header.ts',
+      '+  return 2',
+      '*** Update File: README.md',
+      '@@',
+      '-old',
+      '+new',
+      '*** Delete File: .gitignore',
+      '*** End Patch',
+    ].join('\n')
+    assert.deepStrictEqual(parsePatch(patch), [
+      { operation: 'add', path: 'src/new.ts' },
+      { operation: 'rename', path: 'src/old.ts', to: 'src/renamed.ts' },
+      { operation: 'update', path: 'README.md' },
+      { operation: 'delete', path: '.gitignore' },
+    ])
+  })
+
+  it('should accept CRLF line endings', () => {
+    const patch = '*** Begin Patch\r\n*** Update File: a.ts\r\n@@\r\n-x\r\n+y\r\n*** End Patch\r\n'
+    assert.deepStrictEqual(parsePatch(patch), [{ operation: 'update', path: 'a.ts' }])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// parsePatch: unified diff
+// ---------------------------------------------------------------------------
+
+describe('parsePatch (unified diff)', () => {
+  const cases: [string, string[], ReturnType<typeof parsePatch>][] = [
+    [
+      'a git update',
+      ['diff --git a/src/a.ts b/src/a.ts', 'index 1111111..2222222 100644', '--- a/src/a.ts', '+++ b/src/a.ts', '@@ -1 +1 @@', '-x', '+y'],
+      [{ operation: 'update', path: 'src/a.ts' }],
+    ],
+    [
+      'a git new file',
+      ['diff --git a/b.ts b/b.ts', 'new file mode 100644', '--- /dev/null', '+++ b/b.ts', '@@ -0,0 +1,2 @@', '+a', '+b'],
+      [{ operation: 'add', path: 'b.ts' }],
+    ],
+    [
+      'a git deleted file',
+      ['diff --git a/.env b/.env', 'deleted file mode 100644', '--- a/.env', '+++ /dev/null', '@@ -1 +0,0 @@', '-KEY=1'],
+      [{ operation: 'delete', path: '.env' }],
+    ],
+    [
+      'a git pure rename',
+      ['diff --git a/old.ts b/new.ts', 'similarity index 100%', 'rename from old.ts', 'rename to new.ts'],
+      [{ operation: 'rename', path: 'old.ts', to: 'new.ts' }],
+    ],
+    [
+      'a git copy',
+      ['diff --git a/a.ts b/c.ts', 'similarity index 90%', 'copy from a.ts', 'copy to c.ts', '--- a/a.ts', '+++ b/c.ts', '@@ -1 +1 @@', '-x', '+y'],
+      [{ operation: 'copy', path: 'a.ts', to: 'c.ts' }],
+    ],
+    [
+      'a git mode change without hunks',
+      ['diff --git a/run.sh b/run.sh', 'old mode 100644', 'new mode 100755'],
+      [{ operation: 'update', path: 'run.sh' }],
+    ],
+    [
+      'a git binary deletion',
+      ['diff --git a/logo.png b/logo.png', 'deleted file mode 100644', 'Binary files a/logo.png and /dev/null differ'],
+      [{ operation: 'delete', path: 'logo.png' }],
+    ],
+    [
+      'quoted paths',
+      ['--- "a/my file.ts"', '+++ "b/my file.ts"', '@@ -1 +1 @@', '-x', '+y'],
+      [{ operation: 'update', path: 'my file.ts' }],
+    ],
+    [
+      'diff -u with timestamps and several files',
+      [
+        '--- src/a.ts\t2024-01-01 10:00:00.000000000 +0000',
+        '+++ src/a.ts\t2024-01-02 10:00:00.000000000 +0000',
+        '@@ -1,2 +1,2 @@',
+        ' keep',
+        '-x',
+        '+y',
+        '--- package-lock.json\t2024-01-01 10:00:00.000000000 +0000',
+        '+++ package-lock.json\t2024-01-02 10:00:00.000000000 +0000',
+        '@@ -1 +1 @@',
+        '-{}',
+        '+{ }',
+      ],
+      [
+        { operation: 'update', path: 'src/a.ts' },
+        { operation: 'update', path: 'package-lock.json' },
+      ],
+    ],
+    [
+      'diff -u of a backup against the file',
+      ['--- config.json.orig', '+++ config.json', '@@ -1 +1 @@', '-a', '+b'],
+      [
+        { operation: 'update', path: 'config.json.orig' },
+        { operation: 'update', path: 'config.json' },
+      ],
+    ],
+    [
+      'removed and added lines that look like headers',
+      ['--- a/notes.md', '+++ b/notes.md', '@@ -1,2 +1,2 @@', '--- a/.env', '+++ b/.env', '-x', '+y'],
+      [{ operation: 'update', path: 'notes.md' }],
+    ],
+    [
+      'a context line with its trailing space stripped',
+      ['--- a/x.md', '+++ b/x.md', '@@ -1,3 +1,3 @@', 'a', '', '-b', '+c', '--- a/y.md', '+++ b/y.md', '@@ -1 +1 @@', '-d', '+e'],
+      [
+        { operation: 'update', path: 'x.md' },
+        { operation: 'update', path: 'y.md' },
+      ],
+    ],
+  ]
+
+  for (const [name, lines, expected] of cases) {
+    it(`should parse ${name}`, () => {
+      assert.deepStrictEqual(parsePatch(lines.join('\n') + '\n'), expected)
+    })
+  }
+
+  it('should return nothing for text that is not a patch', () => {
+    assert.deepStrictEqual(parsePatch('just some text\n--- not a header'), [])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// patchAccesses
+// ---------------------------------------------------------------------------
+
+describe('patchAccesses', () => {
+  it('should map each operation to the paths it reads, writes and deletes', () => {
+    const accesses = patchAccesses([
+      { operation: 'add', path: 'a' },
+      { operation: 'update', path: 'b' },
+      { operation: 'delete', path: 'c' },
+      { operation: 'rename', path: 'd', to: 'e' },
+      { operation: 'copy', path: 'f', to: 'g' },
+    ])
+    assert.deepStrictEqual(
+      accesses.map(({ path, role }) => [path, role]),
+      [
+        ['a', 'write'],
+        ['b', 'write'],
+        ['c', 'delete'],
+        ['d', 'delete'],
+        ['e', 'write'],
+        ['f', 'read'],
+        ['g', 'write'],
+      ],
+    )
+  })
+})
+
+describe('patchAddedLines', () => {
+  it('should return added lines with their patch line numbers, without file headers', () => {
+    const patch = ['--- a/x.ts', '+++ b/x.ts', '@@ -1 +1,2 @@', '-old', '+new', '+more', ' same'].join('\n')
+    assert.deepStrictEqual(patchAddedLines(patch), [
+      { line: 5, text: 'new' },
+      { line: 6, text: 'more' },
+    ])
+  })
+})
@@ -0,0 +1,210 @@
+// ---------------------------------------------------------------------------
+// Patch parsing
+// ---------------------------------------------------------------------------
+// Patch tools send one blob that can add, change, delete and rename any
+// number of files. Two formats are understood:
+//
+//   apply_patch envelope         unified diff (git or diff -u)
+//   *** Begin Patch              diff --git a/old b/new
+//   *** Add File: path           rename from old / rename to new
+//   *** Update File: path        --- a/path  (or /dev/null)
+//   *** Move to: new/path        +++ b/path  (or /dev/null)
+//   *** Delete File: path        @@ -1,3 +1,4 @@
+//   *** End Patch
+//
+// Hunk bodies are skipped by their line counts, so a removed line that
+// reads `-- x` is never taken for a `--- x` header.
+// ---------------------------------------------------------------------------
+
+export type PatchOperation = 'add' | 'update' | 'delete' | 'rename' | 'copy'
+
+export interface PatchFile {
+  operation: PatchOperation
+  /** File the operation applies to; the source of a rename or copy */
+  path: string
+  /** Destination of a rename or copy */
+  to?: string
+}
+
+/** What a patch does to one path */
+export interface PatchAccess {
+  path: string
+  role: 'read' | 'write' | 'delete'
+  operation: PatchOperation
+}
+
+const ENVELOPE_RE = /^\*\*\* Begin Patch\s*$/m
+const HUNK_RE = /^@@ -\d+(?:,(\d+))? \+\d+(?:,(\d+))? @@/
+
+function parseEnvelope(lines: string[]): PatchFile[] {
+  const files: PatchFile[] = []
+  for (const line of lines) {
+    const m = /^\*\*\* (Add|Update|Delete) File: (.+?)\s*$/.exec(line)
+    if (m) {
+      const operation = m[1] === 'Add' ? 'add' : m[1] === 'Delete' ? 'delete' : 'update'
+      files.push({ operation, path: m[2] })
+      continue
+    }
+    const move = /^\*\*\* Move to: (.+?)\s*$/.exec(line)
+    const last = files[files.length - 1]
+    if (move && last?.operation === 'update') {
+      last.operation = 'rename'
+      last.to = move[1]
+    }
+  }
+  return files
+}
+
+/** Path from a `---` / `+++` / `rename from` header: unquoted, timestamp dropped */
+function headerPath(text: string): string {
+  let path = text.split('\t')[0].trim()
+  if (path.startsWith('"') && path.endsWith('"') && path.length > 1) {
+    path = path.slice(1, -1).replace(/\\(.)/g, '$1')
+  }
+  return path
+}
+
+interface DiffHeader {
+  /** Paths from `diff --git a/x b/y`, used when there are no ---/+++ lines */
+  gitOld?: string
+  gitNew?: string
+  old?: string
+  new?: string
+  added?: boolean
+  deleted?: boolean
+  renameFrom?: string
+  renameTo?: string
+  copyFrom?: string
+  copyTo?: string
+}
+
+function diffFiles(h: DiffHeader): PatchFile[] {
+  const strip = h.old !== undefined && h.new !== undefined &&
+    (h.old.startsWith('a/') || h.old === '/dev/null') &&
+    (h.new.startsWith('b/') || h.new === '/dev/null')
+  const oldPath = h.old === undefined || h.old === '/dev/null' ? h.gitOld : strip ? h.old.slice(2) : h.old
+  const newPath = h.new === undefined || h.new === '/dev/null' ? h.gitNew : strip ? h.new.slice(2) : h.new
+
+  if (h.copyFrom && h.copyTo) return [{ operation: 'copy', path: h.copyFrom, to: h.copyTo }]
+  if (h.renameFrom && h.renameTo) return [{ operation: 'rename', path: h.renameFrom, to: h.renameTo }]
+  if (h.deleted || h.new === '/dev/null') return oldPath ? [{ operation: 'delete', path: oldPath }] : []
+  if (h.added || h.old === '/dev/null') return newPath ? [{ operation: 'add', path: newPath }] : []
+  if (!oldPath || !newPath) return []
+  if (oldPath === newPath) return [{ operation: 'update', path: oldPath }]
+  // git names a rename in its header; diff -u of `x.orig` and `x` updates
+  // whichever of the two exists
+  if (h.gitOld !== undefined) return [{ operation: 'rename', path: oldPath, to: newPath }]
+  return [{ operation: 'update', path: oldPath }, { operation: 'update', path: newPath }]
+}
+
+function parseUnified(lines: string[]): PatchFile[] {
+  const files: PatchFile[] = []
+  let header: DiffHeader | null = null
+  const flush = () => {
+    if (header) files.push(...diffFiles(header))
+    header = null
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+
+    const hunk = HUNK_RE.exec(line)
+    if (hunk) {
+      // Skip the hunk body by its line counts
+      let oldLines = hunk[1] === undefined ? 1 : Number(hunk[1])
+      let newLines = hunk[2] === undefined ? 1 : Number(hunk[2])
+      while ((oldLines > 0 || newLines > 0) && i + 1 < lines.length) {
+        const c = lines[i + 1][0]
+        if (c === '-') {
+          oldLines--
+        } else if (c === '+') {
+          newLines--
+        } else if (c === ' ' || c === undefined) {
+          // Context, or a context line whose trailing space was stripped
+          oldLines--
+          newLines--
+        } else if (c !== '\\') {
+          break
+        }
+        i++
+      }
+      continue
+    }
+
+    if (line.startsWith('diff --git ')) {
+      flush()
+      const m = /^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/.exec(line)
+      header = m ? { gitOld: m[1], gitNew: m[2] } : {}
+      continue
+    }
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      // A second ---/+++ pair without a diff --git line starts a new file
+      if (header?.old !== undefined) flush()
+      header ??= {}
+      header.old = headerPath(line.slice(4))
+      header.new = headerPath(lines[++i].slice(4))
+      continue
+    }
+    if (!header) continue
+
+    const ext = /^(new file mode|deleted file mode|rename from|rename to|copy from|copy to) ?(.*)$/.exec(line)
+    if (!ext) continue
+    switch (ext[1]) {
+      case 'new file mode': header.added = true; break
+      case 'deleted file mode': header.deleted = true; break
+      case 'rename from': header.renameFrom = headerPath(ext[2]); break
+      case 'rename to': header.renameTo = headerPath(ext[2]); break
+      case 'copy from': header.copyFrom = headerPath(ext[2]); break
+      case 'copy to': header.copyTo = headerPath(ext[2]); break
+    }
+  }
+  flush()
+  return files
+}
+
+/**
+ * Parse a patch in apply_patch envelope or unified diff format into the
+ * files it touches, in order.
+ */
+export function parsePatch(text: string): PatchFile[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  return ENVELOPE_RE.test(text) ? parseEnvelope(lines) : parseUnified(lines)
+}
+
+/**
+ * The accesses the parsed files make: adds and updates write, deletes
+ * delete, a rename deletes its source and writes its destination, and a
+ * copy reads its source and writes its destination.
+ */
+export function patchAccesses(files: readonly PatchFile[]): PatchAccess[] {
+  return files.flatMap(({ operation, path, to }): PatchAccess[] => {
+    switch (operation) {
+      case 'add':
+      case 'update':
+        return [{ path, role: 'write', operation }]
+      case 'delete':
+        return [{ path, role: 'delete', operation }]
+      case 'rename':
+        return [{ path, role: 'delete', operation }, { path: to!, role: 'write', operation }]
+      case 'copy':
+        return [{ path, role: 'read', operation }, { path: to!, role: 'write', operation }]
+    }
+  })
+}
+
+/**
+ * The lines a patch adds, without their `+`, each with its 1-based line
+ * number in the patch. `+++` file headers are not included.
+ */
+export function patchAddedLines(text: string): { line: number; text: string }[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const added: { line: number; text: string }[] = []
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      i++
+    } else if (lines[i].startsWith('+')) {
+      added.push({ line: i + 1, text: lines[i].slice(1) })
+    }
+  }
+  return added
+}
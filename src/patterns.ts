@@ -1,13 +1,73 @@
+import { dirname, isAbsolute, relative, resolve } from 'node:path'
+import { compileGlob, escapeGlob, expandBraces, isGlobPattern } from './glob.js'
+import {
+  parseShellCommand,
+  commandWords,
+  decodeAnsiC,
+  extractSubstitutions,
+  type ShellOperator,
+  type ShellSegment,
+} from './shell.js'
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export type Action = 'block' | 'ask'
 
+/**
+ * Where a pattern applies:
+ *   anywhere = regex searched in the raw command text (default)
+ *   command  = regex anchored at the program being run, matched against
+ *              each simple command's words (`sudo`, `env` etc. skipped)
+ */
+export type PatternScope = 'command' | 'anywhere'
+
 export interface Pattern {
   pattern: string
   reason: string
   action: Action
+  scope?: PatternScope
+}
+
+/** Predicate on a positional argument of a CommandRule */
+export interface ArgMatcher {
+  /** Position among the arguments after the subcommand (omit = any) */
+  index?: number
+  /** Regex the argument must match */
+  pattern: string
+}
+
+/**
+ * Structured rule matched against a parsed command's argv instead of its
+ * raw text. Every field that is present must hold for the rule to fire.
+ *
+ * Name fields accept `|`-separated alternatives (`'namespace|ns'`).
+ * Combined short flags are expanded (`-rf` counts as `-r` and `-f`) and
+ * `--flag=value` counts as `--flag`.
+ */
+export interface CommandRule {
+  /** Program name, e.g. 'git' or 'kubectl|oc' */
+  command: string
+  /** Subcommand path after the program, e.g. ['delete', 'namespace|ns'] */
+  subcommand?: string[]
+  /** Flags that must all be present */
+  flags?: string[]
+  /** At least one of these flags must be present */
+  anyFlags?: string[]
+  /** None of these flags may be present */
+  notFlags?: string[]
+  /** Predicates on positional arguments after the subcommand */
+  args?: ArgMatcher[]
+  reason: string
+  action: Action
+}
+
+/** Anything that can appear in the pattern list */
+export type Rule = Pattern | CommandRule
+
+export function isCommandRule(rule: Rule): rule is CommandRule {
+  return typeof (rule as CommandRule).command === 'string'
 }
 
 export type ProtectionLevel = 'zeroAccess' | 'readOnly' | 'noDelete'
@@ -22,20 +82,24 @@ export interface ProtectedPath {
 // ---------------------------------------------------------------------------
 // action: 'block' = hard block, never executes
 // action: 'ask'   = prompt user for confirmation via OpenCode permission dialog
+//
+// scope: 'command' = only fires when the program itself is run, so
+//                    `git commit -m "fix shutdown"` or `grep reboot src/`
+//                    are not mistaken for the real thing
 // ---------------------------------------------------------------------------
 export const DEFAULT_PATTERNS: Pattern[] = [
   // -- System destruction (block) --
   { pattern: 'rm\\s+-rf\\s+/', reason: 'Recursive delete from root', action: 'block' },
   { pattern: ':\\(\\)\\ \\{:', reason: 'Fork bomb', action: 'block' },
-  { pattern: 'fork\\(\\)', reason: 'Fork bomb', action: 'block' },
+  { pattern: 'fork\\(\\)', reason: 'Fork bomb', action: 'block', scope: 'command' },
   { pattern: '>\\s*/dev/sd', reason: 'Direct device write', action: 'block' },
-  { pattern: 'mkfs\\.', reason: 'Format filesystem', action: 'block' },
+  { pattern: 'mkfs\\b', reason: 'Format filesystem', action: 'block', scope: 'command' },
   { pattern: 'kill\\s+-9\\s+-1', reason: 'Kill all processes', action: 'block' },
   { pattern: 'killall\\s+-9', reason: 'Kill all processes', action: 'block' },
   { pattern: 'pkill\\s+-9', reason: 'pkill -9', action: 'block' },
-  { pattern: 'shutdown', reason: 'System shutdown', action: 'block' },
-  { pattern: 'reboot', reason: 'System reboot', action: 'block' },
-  { pattern: 'init\\s+0', reason: 'System halt', action: 'block' },
+  { pattern: '(?:systemctl\\s+)?(?:shutdown|poweroff)\\b', reason: 'System shutdown', action: 'block', scope: 'command' },
+  { pattern: '(?:systemctl\\s+)?reboot\\b', reason: 'System reboot', action: 'block', scope: 'command' },
+  { pattern: '(?:tel)?init\\s+0\\b', reason: 'System halt', action: 'block', scope: 'command' },
   { pattern: 'format\\s+[a-z]:', reason: 'Windows format', action: 'block' },
   { pattern: 'dd\\s+.*of=/dev/', reason: 'dd writing to device', action: 'block' },
 
@@ -43,7 +107,7 @@ export const DEFAULT_PATTERNS: Pattern[] = [
   { pattern: '\\bdel\\s+/s\\s+/q', reason: 'Windows recursive delete without confirmation', action: 'block' },
   { pattern: '\\brd\\s+/s\\s+/q', reason: 'Windows remove directory tree silently', action: 'block' },
   { pattern: '\\brmdir\\s+/s\\s+/q', reason: 'Windows remove directory tree silently', action: 'block' },
-  { pattern: '\\bdiskpart\\b', reason: 'Windows disk partitioning tool', action: 'block' },
+  { pattern: 'diskpart\\b', reason: 'Windows disk partitioning tool', action: 'block', scope: 'command' },
   { pattern: 'powershell.*Remove-Item.*-Recurse.*-Force', reason: 'PowerShell recursive force delete', action: 'block' },
   { pattern: 'pwsh.*Remove-Item.*-Recurse.*-Force', reason: 'PowerShell recursive force delete', action: 'block' },
   { pattern: '\\bRemove-Item\\b.*-Recurse.*-Force', reason: 'PowerShell recursive force delete', action: 'block' },
@@ -85,6 +149,8 @@ export const DEFAULT_PATTERNS: Pattern[] = [
   { pattern: '\\brm\\s+(-[^\\s]*)*-[rRf]', reason: 'rm with recursive or force flags', action: 'ask' },
   { pattern: '\\brm\\s+--recursive', reason: 'rm with --recursive flag', action: 'ask' },
   { pattern: '\\brm\\s+--force', reason: 'rm with --force flag', action: 'ask' },
+  { pattern: '\\bfind\\s+(?:-[HLP]\\s+)*/\\s.*-delete\\b', reason: 'find -delete from root', action: 'block' },
+  { pattern: '\\bfind\\s.*-delete\\b', reason: 'find -delete', action: 'ask' },
   { pattern: '\\brmdir\\s+--ignore-fail-on-non-empty', reason: 'rmdir ignore-fail', action: 'ask' },
 
   // -- Permissions (ask) --
@@ -121,7 +187,7 @@ export const DEFAULT_PATTERNS: Pattern[] = [
   { pattern: 'sysctl\\s+-w', reason: 'sysctl -w (modifies kernel parameter)', action: 'ask' },
   { pattern: 'update-rc\\.d\\s+\\S+\\s+disable', reason: 'update-rc.d disable (disables init service)', action: 'ask' },
   { pattern: 'update-rc\\.d\\s+\\S+\\s+remove', reason: 'update-rc.d remove (removes init service)', action: 'ask' },
-  { pattern: 'visudo', reason: 'visudo (modifies sudoers file)', action: 'ask' },
+  { pattern: 'visudo\\b', reason: 'visudo (modifies sudoers file)', action: 'ask', scope: 'command' },
   { pattern: 'iptables\\s+-F', reason: 'iptables -F (flushes all firewall rules)', action: 'block' },
   { pattern: 'iptables\\s+-X', reason: 'iptables -X (deletes all user chains)', action: 'block' },
   { pattern: 'ufw\\s+disable', reason: 'ufw disable (disables firewall)', action: 'ask' },
@@ -155,11 +221,17 @@ export const DEFAULT_PATTERNS: Pattern[] = [
   { pattern: 'kubectl\\s+delete\\s+namespace', reason: 'kubectl delete namespace', action: 'ask' },
   { pattern: 'kubectl\\s+delete\\s+all\\s+--all', reason: 'kubectl delete all --all', action: 'block' },
   { pattern: 'kubectl\\s+delete\\s+.*--all\\s+--all-namespaces', reason: 'kubectl delete across all namespaces', action: 'block' },
+  {
+    pattern: '(?:kubectl|oc)\\b.*\\sconfig\\s+view\\b.*\\s--(?:raw|flatten)\\b',
+    reason: 'kubectl config view --raw (prints kubeconfig credentials)',
+    action: 'block',
+    scope: 'command',
+  },
   { pattern: 'helm\\s+uninstall', reason: 'helm uninstall', action: 'ask' },
 
   // -- Database CLIs --
-  { pattern: 'redis-cli\\s+FLUSHALL', reason: 'redis FLUSHALL', action: 'block' },
-  { pattern: 'redis-cli\\s+FLUSHDB', reason: 'redis FLUSHDB', action: 'ask' },
+  { pattern: 'redis-cli\\s+.*\\bFLUSHALL', reason: 'redis FLUSHALL', action: 'block' },
+  { pattern: 'redis-cli\\s+.*\\bFLUSHDB', reason: 'redis FLUSHDB', action: 'ask' },
   { pattern: 'dropdb\\b', reason: 'PostgreSQL dropdb', action: 'block' },
   { pattern: 'mysqladmin\\s+drop', reason: 'MySQL drop database', action: 'block' },
   { pattern: 'mongosh.*dropDatabase', reason: 'MongoDB dropDatabase', action: 'block' },
@@ -217,12 +289,16 @@ export const DEFAULT_PATTERNS: Pattern[] = [
 //   readOnly    = allow read, block write + edit + delete (system dirs, configs)
 //   noDelete    = allow read + write + edit, block delete only (project infra)
 //
-// Path syntax:
-//   - Literal prefix match: '~/.ssh', '/etc/'
-//   - Glob wildcards:  '*' matches any characters except '/'
-//                      '**' is not needed — we match basename or full path
+// Path syntax (gitignore-style, see glob.ts):
+//   - Absolute and home paths: '~/.ssh', '/etc/'
+//   - Relative names match at any depth: 'dist/', '*.pem'
+//   - Relative paths with a '/' are anchored to the project: 'infra/prod/**'
+//   - Globs: '*', '?', '**', '[abc]', '{a,b}'
 //   - Tilde is expanded to $HOME at match time
 //
+// Exceptions (DEFAULT_PATH_EXCEPTIONS) take precedence over every protected
+// path: a file matching one is never protected.
+//
 // ---------------------------------------------------------------------------
 
 export const DEFAULT_PROTECTED_PATHS: ProtectedPath[] = [
@@ -343,11 +419,22 @@ export const DEFAULT_PROTECTED_PATHS: ProtectedPath[] = [
   { path: '.dockerignore', level: 'noDelete' },
 ]
 
+/** Committed templates that hold no secrets but match `.env*` */
+export const DEFAULT_PATH_EXCEPTIONS: string[] = [
+  '.env*.example',
+  '.env*.sample',
+  '.env*.template',
+]
+
 // ---------------------------------------------------------------------------
 // Shell wrapper unwrapping
 // ---------------------------------------------------------------------------
 // Detects commands wrapped inside shell invocations like `bash -c "rm -rf /"`,
-// `python -c "import os; os.system('rm -rf /')"`, or `env sh -c "..."`.
+// `python -c "import os; os.system('rm -rf /')"`, or `env sh -c "..."`,
+// heredoc / here-string bodies fed to a shell, interpreter or DB client, and
+// commands embedded in another command: substitutions, `eval`, `find -exec`
+// and `xargs` / `parallel` targets, and base64 / hex / escaped payloads
+// decoded straight into a shell or interpreter.
 // Returns all extracted inner command strings so they can be pattern-matched
 // independently. Returns an empty array if no wrapper is detected.
 // ---------------------------------------------------------------------------
@@ -361,6 +448,353 @@ const WRAPPER_INTERPRETERS = ['python', 'python3', 'ruby', 'perl', 'node']
 /** Windows shells with their own flag syntax */
 const WINDOWS_WRAPPERS = ['cmd', 'powershell', 'pwsh']
 
+/** Database clients that run statements read from stdin */
+const WRAPPER_DB_CLIENTS = [
+  'psql', 'mysql', 'mariadb', 'sqlite3', 'sqlite', 'mongosh', 'mongo',
+  'redis-cli', 'clickhouse-client', 'duckdb', 'sqlcmd',
+]
+
+/** Programs whose stdin is executed: shells, interpreters and DB clients */
+const STDIN_RUNNERS: ReadonlySet<string> = new Set([
+  ...WRAPPER_SHELLS, ...WRAPPER_INTERPRETERS, ...WINDOWS_WRAPPERS, ...WRAPPER_DB_CLIENTS,
+])
+
+function runsStdin(segment: ShellSegment): boolean {
+  const program = commandWords(segment)[0]
+  return program !== undefined && STDIN_RUNNERS.has(program.replace(/\.exe$/i, '').toLowerCase())
+}
+
+/**
+ * Extract heredoc and here-string bodies that end up on the stdin of a
+ * shell, interpreter or database client -- either directly (`bash <<EOF`,
+ * `sh <<< "..."`, `psql <<SQL`) or through a pipe (`cat <<EOF | sh`).
+ */
+function extractStdinBodies(command: string): string[] {
+  const segments = parseShellCommand(command)
+  const bodies: string[] = []
+
+  for (let i = 0; i < segments.length; i++) {
+    const inputs = segments[i].redirects.flatMap((r) =>
+      r.op.endsWith('<<<') ? [r.target] : r.body !== undefined ? [r.body] : [],
+    )
+    if (inputs.length === 0) continue
+
+    // Follow the pipeline to the command that ends up reading the body
+    let j = i
+    while (!runsStdin(segments[j]) && (segments[j].operator === '|' || segments[j].operator === '|&') &&
+      j + 1 < segments.length) {
+      j++
+    }
+    if (runsStdin(segments[j])) bodies.push(...inputs.filter((b) => b.trim().length > 0))
+  }
+  return bodies
+}
+
+/** Search programs whose pattern operand is data: `rg 'rm -rf /' src` */
+const SEARCH_PROGRAMS: ReadonlySet<string> = new Set(['grep', 'egrep', 'fgrep', 'rg', 'ag', 'ack'])
+
+/** Search flags that consume a value other than the pattern */
+const SEARCH_VALUE_FLAGS: ReadonlySet<string> = new Set([
+  '-A', '-B', '-C', '-f', '-g', '-m', '-t', '--file', '--glob', '--max-count', '--type',
+])
+
+/** git subcommands whose `-m` / `--message` value is a message */
+const MESSAGE_SUBCOMMANDS: ReadonlySet<string> = new Set(['commit', 'tag', 'stash', 'merge'])
+
+/**
+ * Indices into `segment.words` of the arguments its program takes as
+ * data: the message of `git commit -m`, the pattern of a grep-like search
+ * and the arguments `echo` / `printf` print to the terminal. Printed text
+ * that is redirected or piped anywhere may end up being run, so it is not
+ * data.
+ */
+function dataArguments(segment: ShellSegment): number[] {
+  const words = commandWords(segment)
+  const offset = segment.words.length - words.length
+  const program = words[0]?.replace(/\.exe$/i, '').toLowerCase()
+  const indices: number[] = []
+
+  if (program === 'echo' || program === 'printf') {
+    const piped = segment.operator === '|' || segment.operator === '|&'
+    if (piped || segment.redirects.some((r) => r.op.includes('>'))) return []
+    for (let i = 1; i < words.length; i++) indices.push(offset + i)
+  } else if (program === 'git' && MESSAGE_SUBCOMMANDS.has(words[1])) {
+    for (let i = 2; i < words.length - 1; i++) {
+      if (words[i] === '-m' || words[i] === '--message') indices.push(offset + ++i)
+    }
+  } else if (program !== undefined && (SEARCH_PROGRAMS.has(program) || (program === 'git' && words[1] === 'grep'))) {
+    let explicit = false
+    let operand = -1
+    for (let i = program === 'git' ? 2 : 1; i < words.length; i++) {
+      if (words[i] === '--') {
+        if (operand === -1 && i + 1 < words.length) operand = i + 1
+        break
+      }
+      if (words[i] === '-e' || words[i] === '--regexp') {
+        explicit = true
+        if (i + 1 < words.length) indices.push(offset + ++i)
+      } else if (SEARCH_VALUE_FLAGS.has(words[i])) {
+        i++
+      } else if (!words[i].startsWith('-') && operand === -1) {
+        operand = i
+      }
+    }
+    if (!explicit && operand !== -1) indices.push(offset + operand)
+  }
+  return indices
+}
+
+/**
+ * True if every occurrence of `match` in `text` lies inside one quoted
+ * argument that its program takes as data: a commit message, a search
+ * pattern or text printed to the terminal (`git commit -m "DROP TABLE
+ * users"`, `rg 'rm -rf /'`). Any other quoted argument may be run by its
+ * program (`su -c`, `tmux send-keys`, `docker exec`) and never counts,
+ * nor does anything piped into a shell, interpreter or database client.
+ */
+export function inQuotedArgument(text: string, match: string): boolean {
+  const ranges: [number, number][] = []
+  const segments = parseShellCommand(text)
+  let cursor = 0
+  for (const [i, segment] of segments.entries()) {
+    const start = text.indexOf(segment.text, cursor)
+    if (start === -1) return false
+    cursor = start + segment.text.length
+
+    const data = dataArguments(segment)
+    if (data.length === 0) continue
+    if (segments.slice(i).some((s) => s.pipeline === segment.pipeline && runsStdin(s))) continue
+
+    let at = start
+    for (const [n, word] of segment.words.entries()) {
+      const position = text.indexOf(word.raw, at)
+      if (position === -1) break
+      at = position + word.raw.length
+      if (word.quoted && data.includes(n)) ranges.push([position, at])
+    }
+  }
+
+  let found = false
+  for (let i = text.indexOf(match); i !== -1; i = text.indexOf(match, i + 1)) {
+    if (!ranges.some(([start, end]) => i >= start && i + match.length <= end)) return false
+    found = true
+  }
+  return found
+}
+
+/** xargs flags that consume a separate value */
+const XARGS_VALUE_FLAGS: ReadonlySet<string> = new Set([
+  '-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s',
+  '--arg-file', '--delimiter', '--max-args', '--max-lines', '--max-procs', '--max-chars', '--process-slot-var',
+])
+
+/** parallel flags that consume a separate value */
+const PARALLEL_VALUE_FLAGS: ReadonlySet<string> = new Set([
+  '-a', '-d', '-I', '-j', '-L', '-n', '-N', '-P', '-S',
+  '--arg-file', '--delay', '--delimiter', '--jobs', '--joblog', '--max-args', '--sshlogin', '--timeout',
+])
+
+/** find actions that run a command, terminated by `;` or `+` */
+const FIND_EXEC_ACTIONS: ReadonlySet<string> = new Set(['-exec', '-execdir', '-ok', '-okdir'])
+
+/** Return the command words following the options of `xargs` / `parallel` */
+function skipOptions(words: string[], valueFlags: ReadonlySet<string>): string[] {
+  let i = 1
+  while (i < words.length && words[i].startsWith('-')) {
+    if (words[i] === '--') return words.slice(i + 1)
+    i += valueFlags.has(words[i]) ? 2 : 1
+  }
+  return words.slice(i)
+}
+
+/**
+ * Extract commands embedded in a simple command that the shell or the
+ * program will run: `$(...)`, backticks and process substitutions,
+ * `eval` arguments, `find -exec/-execdir/-ok` commands and the command
+ * `xargs` / `parallel` run for each input.
+ */
+function extractEmbeddedCommands(command: string): string[] {
+  const results: string[] = []
+
+  for (const segment of parseShellCommand(command)) {
+    results.push(...extractSubstitutions(segment.text))
+
+    const words = commandWords(segment)
+    // Same words with their original quoting, so the inner command re-lexes correctly
+    const raw = segment.words.slice(segment.words.length - words.length).map((w) => w.raw)
+    const program = words[0]
+
+    if (program === 'eval' && words.length > 1) {
+      results.push(words.slice(1).join(' '))
+    } else if (program === 'xargs' || program === 'parallel') {
+      const flags = program === 'xargs' ? XARGS_VALUE_FLAGS : PARALLEL_VALUE_FLAGS
+      let inner = skipOptions(raw, flags)
+      const sep = inner.findIndex((w) => w === ':::' || w === '::::' || w === ':::+')
+      if (sep !== -1) inner = inner.slice(0, sep)
+      if (inner.length > 0) results.push(inner.join(' '))
+    } else if (program === 'find') {
+      for (let i = 1; i < words.length; i++) {
+        if (FIND_EXEC_ACTIONS.has(words[i])) {
+          const start = i + 1
+          while (i + 1 < words.length && words[i + 1] !== ';' && words[i + 1] !== '+') i++
+          if (i + 1 > start) results.push(raw.slice(start, i + 1).join(' '))
+          i++ // terminator
+        }
+      }
+    }
+  }
+  return results
+}
+
+/** Stages that pass their input through unchanged */
+const PASSTHROUGH_COMMANDS: ReadonlySet<string> = new Set(['cat', 'tee'])
+
+/** What a decoding stage turns its input from, or null if it is not a decoder */
+function decoderKind(words: string[]): 'base64' | 'hex' | 'xxd' | null {
+  const [program, ...args] = words
+  const has = (...flags: string[]) => args.some((a) => flags.includes(a))
+  if (program === 'base64' || program === 'basenc') {
+    return has('-d', '-D', '--decode') ? 'base64' : null
+  }
+  if (program === 'openssl') {
+    return has('base64', '-base64', '-a') && has('-d') ? 'base64' : null
+  }
+  if (program === 'xxd') {
+    if (!has('-r', '-revert')) return null
+    return has('-p', '-ps', '-plain') ? 'hex' : 'xxd'
+  }
+  return null
+}
+
+/** Decode a base64 or plain hex payload; null if it is not valid text */
+function decodePayload(payload: string, kind: 'base64' | 'hex' | 'xxd'): string | null {
+  const compact = payload.replace(/\s+/g, '')
+  let decoded: string
+  if (kind === 'base64' && /^[A-Za-z0-9+/_-]+={0,2}$/.test(compact)) {
+    decoded = Buffer.from(compact, 'base64').toString('utf-8')
+  } else if (kind === 'hex' && /^(?:[0-9a-fA-F]{2})+$/.test(compact)) {
+    decoded = Buffer.from(compact, 'hex').toString('utf-8')
+  } else {
+    return null
+  }
+  // Binary or mis-decoded data cannot be inspected as a command
+  return /[\ufffd\x00-\x08\x0e-\x1f]/.test(decoded) ? null : decoded
+}
+
+/**
+ * Output of `echo` / `printf` with literal arguments, escapes decoded.
+ * `escaped` is true when decoding changed the text (`printf '\x72\x6d'`).
+ */
+function literalOutput(words: string[]): { text: string; escaped: boolean } | null {
+  const [program, ...args] = words
+  let raw: string
+  let escapes = true
+  if (program === 'echo') {
+    let i = 0
+    escapes = false
+    while (i < args.length && /^-[neE]+$/.test(args[i])) escapes ||= args[i++].includes('e')
+    raw = args.slice(i).join(' ')
+  } else if (program === 'printf' && args.length > 0) {
+    const [format, ...rest] = args[0] === '--' ? args.slice(1) : args
+    if (format === undefined) return null
+    raw = format.includes('%s') ? rest.join(' ') : format
+  } else {
+    return null
+  }
+  const text = escapes ? decodeAnsiC(raw) : raw
+  return { text, escaped: text !== raw }
+}
+
+interface PayloadState {
+  /** Text flowing out of the last stage, null if unknown */
+  data: string | null
+  /** True once a decoding stage (or escape-decoding echo/printf) has run */
+  decoded: boolean
+}
+
+/**
+ * Follow literal text through one pipeline. When literal or decoded text
+ * reaches a shell, interpreter or DB client it is added to `found.decoded`;
+ * decoded data we could not follow adds the pipeline to `found.undecodable`.
+ */
+function followPayload(
+  stages: ShellSegment[],
+  found: { decoded: string[]; undecodable: string[] },
+): PayloadState {
+  let state: PayloadState = { data: null, decoded: false }
+
+  for (const stage of stages) {
+    const words = commandWords(stage)
+    const redirected = stage.redirects.find((r) => r.op.endsWith('<<<') || r.body !== undefined)
+    const input = redirected ? (redirected.op.endsWith('<<<') ? redirected.target : redirected.body!) : state.data
+
+    const kind = decoderKind(words)
+    if (kind) {
+      // Decoding a file (base64 -d payload.txt) cannot be followed
+      const reads = words.slice(1).some((w) => !w.startsWith('-') && w !== 'base64' && w !== 'enc')
+      const data = input === null || reads ? null : decodePayload(input, kind)
+      state = { data, decoded: true }
+      continue
+    }
+
+    if (runsStdin(stage) && (state.data !== null || state.decoded)) {
+      if (state.data !== null) found.decoded.push(state.data)
+      else found.undecodable.push(stage.pipeline)
+      return { data: null, decoded: false }
+    }
+
+    const output = literalOutput(words)
+    if (output !== null) {
+      state = { data: output.text, decoded: output.escaped }
+    } else if (!PASSTHROUGH_COMMANDS.has(words[0]) || words.slice(1).some((w) => !w.startsWith('-'))) {
+      state = { data: null, decoded: state.decoded }
+    }
+  }
+  return state
+}
+
+/** Programs that run a string argument or a file they are given (`eval`, `source`) */
+const STRING_RUNNERS: ReadonlySet<string> = new Set(['eval', 'source', '.'])
+
+/**
+ * Find payloads that are decoded and executed in one go:
+ *   echo cm0gLXJmIC8= | base64 -d | sh
+ *   xxd -r -p <<< 726d202d7266202f | bash
+ *   printf '\x72\x6d -rf /' | sh
+ *   bash -c "$(echo ... | base64 -d)" / eval "$(...)" / source <(...)
+ *
+ * Returns the decoded payloads, and the pipelines or substitutions whose
+ * payload could not be decoded (read from a file or the network, binary...).
+ */
+export function extractEncodedPayloads(command: string): { decoded: string[]; undecodable: string[] } {
+  const found = { decoded: [] as string[], undecodable: [] as string[] }
+  const segments = parseShellCommand(command)
+
+  // Pipelines: decoder output piped into a shell, interpreter or DB client
+  let stages: ShellSegment[] = []
+  for (const segment of segments) {
+    stages.push(segment)
+    if (segment.operator !== '|' && segment.operator !== '|&') {
+      followPayload(stages, found)
+      stages = []
+    }
+  }
+  if (stages.length > 0) followPayload(stages, found)
+
+  // Substitutions whose decoded output is run: bash -c "$(...)", eval "$(...)"
+  for (const segment of segments) {
+    const program = commandWords(segment)[0]
+    if (program === undefined || (!STDIN_RUNNERS.has(program) && !STRING_RUNNERS.has(program))) continue
+    for (const inner of extractSubstitutions(segment.text)) {
+      const state = followPayload(parseShellCommand(inner), found)
+      if (!state.decoded) continue
+      if (state.data !== null) found.decoded.push(state.data)
+      else found.undecodable.push(inner)
+    }
+  }
+  return found
+}
+
 /**
  * Match a `-c` flag followed by a quoted or unquoted argument.
  *
@@ -392,6 +826,12 @@ const CMD_C_RE = /\bcmd(?:\.exe)?\s+\/c\s+(?:"([^"]+)"|'([^']+)'|(.+))/gi
  */
 const PS_COMMAND_RE = /\b(?:powershell|pwsh)(?:\.exe)?\s+(?:-Command|-c)\s+(?:"([^"]+)"|'([^']+)'|(\S+))/gi
 
+/** Any wrapper shell, interpreter or Windows wrapper, as a word */
+const WRAPPER_RE = new RegExp(
+  `\\b(?:${[...WRAPPER_SHELLS, ...WRAPPER_INTERPRETERS, ...WINDOWS_WRAPPERS].join('|')})(?:\\.exe)?\\b`,
+  'i',
+)
+
 /**
  * Extract inner commands from shell wrapper invocations.
  *
@@ -406,16 +846,31 @@ export function unwrapShellCommand(command: string, depth = 0): string[] {
 
   const results: string[] = []
 
+  // Extract heredoc / here-string bodies fed to shells, interpreters and
+  // DB clients (e.g. bash <<'EOF' ... EOF, sh <<< "...", psql <<SQL)
+  for (const body of extractStdinBodies(command)) {
+    results.push(body)
+    results.push(...unwrapShellCommand(body, depth + 1))
+  }
+
+  // Extract payloads decoded straight into a shell (echo ... | base64 -d | sh)
+  for (const payload of extractEncodedPayloads(command).decoded) {
+    results.push(payload)
+    results.push(...unwrapShellCommand(payload, depth + 1))
+  }
+
+  // Extract commands embedded in other commands (e.g. echo $(rm -rf ~),
+  // eval "...", find -exec rm {} +, xargs rm -rf)
+  for (const inner of extractEmbeddedCommands(command)) {
+    results.push(inner)
+    results.push(...unwrapShellCommand(inner, depth + 1))
+  }
+
   // Check if the command invokes any known wrapper shell/interpreter/Windows wrapper
-  const allWrappers = [...WRAPPER_SHELLS, ...WRAPPER_INTERPRETERS, ...WINDOWS_WRAPPERS]
-  const hasWrapper = allWrappers.some(
-    (shell) => new RegExp(`\\b${shell}(?:\\.exe)?\\b`, 'i').test(normalised),
-  )
-  if (!hasWrapper) return results
+  if (!WRAPPER_RE.test(normalised)) return [...new Set(results)]
 
   // Extract all -c arguments (Unix shells/interpreters)
-  const re = new RegExp(C_FLAG_RE.source, 'g')
-  for (const m of normalised.matchAll(re)) {
+  for (const m of normalised.matchAll(C_FLAG_RE)) {
     const inner = m[1] ?? m[2] ?? m[3]
     if (!inner) continue
     results.push(inner)
@@ -424,8 +879,7 @@ export function unwrapShellCommand(command: string, depth = 0): string[] {
   }
 
   // Extract cmd /c arguments
-  const cmdRe = new RegExp(CMD_C_RE.source, 'gi')
-  for (const m of normalised.matchAll(cmdRe)) {
+  for (const m of normalised.matchAll(CMD_C_RE)) {
     const inner = m[1] ?? m[2] ?? m[3]
     if (!inner) continue
     results.push(inner.trim())
@@ -433,8 +887,7 @@ export function unwrapShellCommand(command: string, depth = 0): string[] {
   }
 
   // Extract powershell/pwsh -Command arguments
-  const psRe = new RegExp(PS_COMMAND_RE.source, 'gi')
-  for (const m of normalised.matchAll(psRe)) {
+  for (const m of normalised.matchAll(PS_COMMAND_RE)) {
     const inner = m[1] ?? m[2] ?? m[3]
     if (!inner) continue
     results.push(inner.trim())
@@ -449,45 +902,351 @@ export function unwrapShellCommand(command: string, depth = 0): string[] {
 // Helpers
 // ---------------------------------------------------------------------------
 
-export function matchPattern(command: string, patterns: Pattern[]) {
-  for (const p of patterns) {
-    const regex = new RegExp(p.pattern, 'i')
-    if (regex.test(command)) {
-      return { match: command.match(regex)?.[0] || p.pattern, pattern: p }
+/** True if `name` equals one of the `|`-separated alternatives */
+function nameMatches(spec: string, name: string): boolean {
+  return spec.split('|').includes(name)
+}
+
+/**
+ * Split the words after a program into flags and positional arguments.
+ * `afterFlag` marks positionals that directly follow a flag and may be
+ * that flag's value (`kubectl -n prod delete ...`).
+ */
+function splitArgs(words: string[]) {
+  const flags = new Set<string>()
+  const positionals: { value: string; afterFlag: boolean }[] = []
+  let endOfFlags = false
+  let prevFlag = false
+
+  for (const word of words) {
+    if (!endOfFlags && word === '--') {
+      endOfFlags = true
+      prevFlag = false
+      continue
     }
+    if (!endOfFlags && word.startsWith('--') && word.length > 2) {
+      flags.add(word.split('=')[0])
+      prevFlag = !word.includes('=')
+      continue
+    }
+    if (!endOfFlags && word.startsWith('-') && word.length > 1) {
+      flags.add(word)
+      for (const ch of word.slice(1)) flags.add(`-${ch}`)
+      prevFlag = true
+      continue
+    }
+    positionals.push({ value: word, afterFlag: prevFlag })
+    prevFlag = false
   }
-  return null
+  return { flags, positionals }
 }
 
+/** Compiled ArgMatcher regexes, built on first use */
+const argRegexes = new WeakMap<ArgMatcher, RegExp>()
+
 /**
- * Convert a simple glob pattern (supporting only `*`) into a RegExp.
- * Used to match path entries like `*.pem`, `.env*`, `*-credentials.json`
- * against a filename or path segment.
+ * Match a CommandRule against the words of one simple command (program
+ * first, as returned by `commandWords`).
  */
-function globToRegex(glob: string): RegExp {
-  // Escape regex metacharacters, then convert `*` (now `\\*`) back to `.*`
-  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&')
-  const pattern = escaped.replace(/\*/g, '.*')
-  return new RegExp(`^${pattern}$`)
+export function matchCommandRule(words: string[], rule: CommandRule): boolean {
+  if (words.length === 0 || !nameMatches(rule.command, words[0])) return false
+
+  const { flags, positionals } = splitArgs(words.slice(1))
+
+  // Subcommand path: leading positionals, skipping possible flag values
+  let rest = positionals
+  if (rule.subcommand && rule.subcommand.length > 0) {
+    let matched = 0
+    let i = 0
+    while (i < positionals.length && matched < rule.subcommand.length) {
+      const arg = positionals[i]
+      if (nameMatches(rule.subcommand[matched], arg.value)) matched++
+      else if (!arg.afterFlag) return false
+      i++
+    }
+    if (matched < rule.subcommand.length) return false
+    rest = positionals.slice(i)
+  }
+
+  if (rule.flags && !rule.flags.every((f) => flags.has(f))) return false
+  if (rule.anyFlags && !rule.anyFlags.some((f) => flags.has(f))) return false
+  if (rule.notFlags && rule.notFlags.some((f) => flags.has(f))) return false
+
+  if (rule.args) {
+    const values = rest.map((a) => a.value)
+    for (const m of rule.args) {
+      let regex = argRegexes.get(m)
+      if (!regex) argRegexes.set(m, (regex = new RegExp(m.pattern)))
+      const ok = m.index === undefined
+        ? values.some((v) => regex.test(v))
+        : m.index < values.length && regex.test(values[m.index])
+      if (!ok) return false
+    }
+  }
+
+  return true
+}
+
+// ---------------------------------------------------------------------------
+// Compiled patterns
+// ---------------------------------------------------------------------------
+// A pattern list is compiled once: regexes are built up front and each
+// regex gets a prefilter, a literal every match must contain. Rules are
+// indexed by the first two characters of their literal, then by its first
+// four, and CommandRules by program, so a command only visits the rules
+// that could match it. Team rules often share a prefix (`teamctl-*`), and
+// two characters alone would put them all in the way of most commands.
+// ---------------------------------------------------------------------------
+
+/** Length of the longest literal key in CompiledPatterns.byLiteral */
+const LITERAL_KEY_LENGTH = 4
+
+export interface CompiledRule<T extends Rule = Rule> {
+  rule: T
+  /** Regex of a Pattern (anchored for `command` scope); null for CommandRules */
+  regex: RegExp | null
+  /** Lowercase text every match contains, or null */
+  literal: string | null
+  /** Program names a CommandRule applies to; null for Patterns */
+  programs: ReadonlySet<string> | null
+}
+
+export interface CompiledPatterns<T extends Rule = Rule> {
+  rules: readonly T[]
+  entries: readonly CompiledRule<T>[]
+  /**
+   * Indexes of entries by the first two characters of their literal, then
+   * by its first LITERAL_KEY_LENGTH (all of it, if shorter)
+   */
+  byLiteral: ReadonlyMap<string, ReadonlyMap<string, readonly number[]>>
+  /** Indexes of CommandRule entries by program name */
+  byProgram: ReadonlyMap<string, readonly number[]>
+  /** Indexes of regex entries without a literal, checked for every command */
+  unindexed: readonly number[]
+}
+
+/** Skip the quantifier (`*`, `+`, `?`, `{n,m}`, lazy `?`) at `i`; returns the index after it */
+function skipQuantifier(source: string, i: number): number {
+  const brace = /^\{\d+(?:,\d*)?\}/.exec(source.slice(i))
+  if (brace) i += brace[0].length
+  else if (i < source.length && '*+?'.includes(source[i])) i++
+  else return i
+  return source[i] === '?' ? i + 1 : i
+}
+
+/** Index just past the group or class opened at `start` */
+function skipBracketed(source: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < source.length; i++) {
+    const c = source[i]
+    if (c === '\\') {
+      i++
+    } else if (c === '[') {
+      i++
+      while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1
+      if (depth === 0) return i + 1
+    } else if (c === '(') {
+      depth++
+    } else if (c === ')' && --depth === 0) {
+      return i + 1
+    }
+  }
+  return source.length
 }
 
 /**
- * Returns true if `glob` contains wildcard characters and should be matched
- * against the basename (filename) of a path rather than as a prefix/substring.
+ * The longest run of ASCII text that every match of the regex `source`
+ * must contain, lowercased for case-insensitive matching. Null when there
+ * is none of at least two characters or the regex has a top-level `|`.
+ * Groups, classes, anchors and escapes such as `\s` end a run; a
+ * quantified character is dropped from it.
  */
-function isGlobPattern(path: string): boolean {
-  return path.includes('*')
+export function requiredLiteral(source: string): string | null {
+  const runs: string[] = []
+  let run = ''
+  const end = () => {
+    if (run.length > 0) runs.push(run)
+    run = ''
+  }
+
+  let i = 0
+  while (i < source.length) {
+    const c = source[i]
+    let literal: string | null = null
+
+    if (c === '|') return null
+    if (c === '(' || c === '[') {
+      end()
+      i = skipQuantifier(source, skipBracketed(source, i))
+      continue
+    }
+    if (c === '\\') {
+      const next = source[i + 1] ?? ''
+      if (/[A-Za-z0-9]/.test(next)) {
+        // Class escapes, anchors, backreferences, \xHH, \uHHHH, \cX, \k<name>
+        end()
+        const escape = /^\\(?:x[0-9A-Fa-f]{2}|u\{[0-9A-Fa-f]+\}|u[0-9A-Fa-f]{4}|c[A-Za-z]|k<[^>]*>|\d+|.)/.exec(source.slice(i))!
+        i = skipQuantifier(source, i + escape[0].length)
+        continue
+      }
+      literal = next
+      i += 2
+    } else if ('^$.'.includes(c) || (c.charCodeAt(0) > 127)) {
+      end()
+      i = skipQuantifier(source, i + 1)
+      continue
+    } else if (skipQuantifier(source, i) !== i) {
+      // Quantifier after a non-literal atom
+      end()
+      i = skipQuantifier(source, i)
+      continue
+    } else {
+      literal = c
+      i++
+    }
+
+    // A quantified character may be absent or repeated
+    const after = skipQuantifier(source, i)
+    if (after !== i) {
+      end()
+      i = after
+    } else if (literal.charCodeAt(0) <= 127) {
+      run += literal
+    } else {
+      end()
+    }
+  }
+  end()
+
+  const longest = runs.reduce((a, b) => (b.length > a.length ? b : a), '')
+  return longest.length >= 2 ? longest.toLowerCase() : null
 }
 
 /**
- * Extract the basename from a file path. Handles trailing slashes.
- * e.g. '/home/user/.env.local' -> '.env.local'
- *      '/home/user/dist/'      -> 'dist'
+ * Compile a pattern list for repeated matching. The plugin compiles its
+ * effective policy once at startup; passing a plain array to matchPattern
+ * compiles it for that call.
  */
-function basename(filePath: string): string {
-  const trimmed = filePath.replace(/\/+$/, '')
-  const idx = trimmed.lastIndexOf('/')
-  return idx === -1 ? trimmed : trimmed.slice(idx + 1)
+export function compilePatterns<T extends Rule>(patterns: readonly T[]): CompiledPatterns<T> {
+  const entries = patterns.map((rule): CompiledRule<T> => {
+    if (isCommandRule(rule)) return { rule, regex: null, literal: null, programs: new Set(rule.command.split('|')) }
+    const source = rule.scope === 'command' ? `^(?:${rule.pattern})` : rule.pattern
+    return { rule, regex: new RegExp(source, 'i'), literal: requiredLiteral(rule.pattern), programs: null }
+  })
+
+  const byLiteral = new Map<string, Map<string, number[]>>()
+  const byProgram = new Map<string, number[]>()
+  const unindexed: number[] = []
+  const push = (map: Map<string, number[]>, key: string, index: number) => {
+    const list = map.get(key)
+    if (list) list.push(index)
+    else map.set(key, [index])
+  }
+  entries.forEach(({ literal, programs }, index) => {
+    if (programs) for (const program of programs) push(byProgram, program, index)
+    else if (literal !== null) {
+      const key = literal.slice(0, 2)
+      if (!byLiteral.has(key)) byLiteral.set(key, new Map())
+      push(byLiteral.get(key)!, literal.slice(0, LITERAL_KEY_LENGTH), index)
+    }
+    else unindexed.push(index)
+  })
+  return { rules: patterns, entries, byLiteral, byProgram, unindexed }
+}
+
+export interface PatternMatch<T extends Rule = Rule> {
+  /** Matched text */
+  match: string
+  pattern: T
+}
+
+/**
+ * Indexes of the entries that may match `texts`: those whose literal key
+ * (see CompiledPatterns.byLiteral) occurs in one of them, those for one of
+ * the `programs` and those without a literal, in list order.
+ */
+function candidateIndexes(compiled: CompiledPatterns, texts: readonly string[], programs: readonly string[]): number[] {
+  const found = new Set(compiled.unindexed)
+  for (const text of texts) {
+    for (let i = 0; i + 2 <= text.length; i++) {
+      const keys = compiled.byLiteral.get(text.slice(i, i + 2))
+      if (!keys) continue
+      for (let end = i + 2; end <= Math.min(i + LITERAL_KEY_LENGTH, text.length); end++) {
+        const indexes = keys.get(text.slice(i, end))
+        if (indexes) for (const index of indexes) found.add(index)
+      }
+    }
+  }
+  for (const program of programs) {
+    const indexes = compiled.byProgram.get(program)
+    if (indexes) for (const index of indexes) found.add(index)
+  }
+  return [...found].sort((a, b) => a - b)
+}
+
+/** Rules matching `command`, in list order, found lazily */
+function* patternMatches<T extends Rule>(command: string, compiled: CompiledPatterns<T>): Generator<PatternMatch<T>> {
+  const words = parseShellCommand(command)
+    .map((segment) => commandWords(segment))
+    .filter((w) => w.length > 0)
+  const commands = words.map((w) => {
+    const text = w.join(' ')
+    return { text, lower: text.toLowerCase() }
+  })
+  const lower = command.toLowerCase()
+  const indexes = candidateIndexes(compiled, [lower, ...commands.map((c) => c.lower)], words.map((w) => w[0]))
+
+  for (const index of indexes) {
+    const { rule: p, regex, literal, programs } = compiled.entries[index]
+    if (!regex) {
+      const w = words.find((w) => programs!.has(w[0]) && matchCommandRule(w, p as CommandRule))
+      if (w) yield { match: w.join(' '), pattern: p }
+      continue
+    }
+
+    if ((p as Pattern).scope === 'command') {
+      for (const c of commands) {
+        if (literal !== null && !c.lower.includes(literal)) continue
+        const m = regex.exec(c.text)
+        if (m) {
+          yield { match: m[0] || (p as Pattern).pattern, pattern: p }
+          break
+        }
+      }
+      continue
+    }
+
+    if (literal !== null && !lower.includes(literal)) continue
+    const m = regex.exec(command)
+    if (m) yield { match: m[0] || (p as Pattern).pattern, pattern: p }
+  }
+}
+
+/**
+ * Return the first rule that matches `command`, with the matched text.
+ *
+ * `anywhere` patterns are searched in the raw text. `command` patterns are
+ * anchored at the start of each simple command's words, so they only fire
+ * when that program (or subcommand) is the one being run. CommandRules are
+ * matched against each simple command's argv.
+ */
+export function matchPattern<T extends Rule>(
+  command: string,
+  patterns: readonly T[] | CompiledPatterns<T>,
+): PatternMatch<T> | null {
+  const { value } = patternMatches(command, 'rules' in patterns ? patterns : compilePatterns(patterns)).next()
+  return value ?? null
+}
+
+/**
+ * Return every rule that matches `command`, in list order, each with the
+ * text it matched. Matching works as in matchPattern.
+ */
+export function matchAllPatterns<T extends Rule>(
+  command: string,
+  patterns: readonly T[] | CompiledPatterns<T>,
+): PatternMatch<T>[] {
+  return [...patternMatches(command, 'rules' in patterns ? patterns : compilePatterns(patterns))]
 }
 
 export function expandHome(p: string): string {
@@ -495,35 +1254,353 @@ export function expandHome(p: string): string {
 }
 
 /**
- * Check if a file path is protected. Returns the matching ProtectedPath or null.
- *
- * Matching strategy:
- *   1. Glob patterns (contain `*`): match against the basename of `filePath`
- *   2. Directory patterns (end with `/`): check if `filePath` starts with or contains the dir
- *   3. Literal patterns: substring match against the full path
- *
- * For all strategies, `~` is expanded to $HOME before matching.
+ * Resolve a path the way the shell sees it: a leading `~` or `$HOME` is
+ * expanded, relative paths are taken from `cwd` and `.` / `..` segments are
+ * collapsed. The result is absolute and has no trailing slash.
  */
-export function checkPathProtection(filePath: string, protectedPaths: ProtectedPath[]) {
+export function resolvePath(p: string, cwd: string): string {
   const home = process.env.HOME || ''
+  const expanded = p.replace(/^(?:~|\$\{?HOME\}?)(?=\/|$)/, home)
+  return resolve(cwd, expanded)
+}
 
-  for (const p of protectedPaths) {
-    if (isGlobPattern(p.path)) {
-      // Glob: match against basename of the file path
-      const name = basename(filePath)
-      const regex = globToRegex(p.path)
-      if (regex.test(name)) return p
-      continue
+/** Working directory state of a shell: `dirs[0]` is the cwd, the rest the pushd stack */
+interface DirectoryState {
+  dirs: string[]
+  oldpwd: string | null
+}
+
+/** `+N` / `-N` index into the directory stack (`dirs -v` order), or null */
+function stackIndex(arg: string, size: number): number | null {
+  const m = /^([+-])(\d+)$/.exec(arg)
+  if (!m) return null
+  const n = Number(m[2])
+  const index = m[1] === '+' ? n : size - 1 - n
+  return index >= 0 && index < size ? index : null
+}
+
+/** Apply a `cd` / `pushd` / `popd` command to `state` */
+function changeDirectory(words: string[], state: DirectoryState): void {
+  const [program, ...rest] = words
+  const { dirs } = state
+  const cwd = dirs[0]
+  const flags = rest.filter((a) => /^-[LPen@]+$/.test(a))
+  const args = rest.filter((a) => a !== '--' && !flags.includes(a))
+  const target = args[0]
+  // Targets we cannot know statically leave the directory unchanged
+  if (target !== undefined && /[$`]/.test(target)) return
+
+  const moveTo = (dir: string) => {
+    state.oldpwd = cwd
+    dirs[0] = dir
+  }
+
+  if (program === 'cd') {
+    if (target === undefined) moveTo(process.env.HOME || cwd)
+    else if (target !== '-') moveTo(resolvePath(target, cwd))
+    else if (state.oldpwd !== null) moveTo(state.oldpwd)
+    return
+  }
+
+  const index = target === undefined ? null : stackIndex(target, dirs.length)
+  // -n manipulates the stack without changing directory
+  const noChange = flags.some((f) => f.includes('n'))
+  if (program === 'pushd') {
+    if (target === undefined) {
+      // Swap the top two directories
+      if (dirs.length < 2) return
+      ;[dirs[0], dirs[1]] = [dirs[1], dirs[0]]
+      state.oldpwd = cwd
+    } else if (index !== null) {
+      // Rotate the Nth directory to the top
+      dirs.push(...dirs.splice(0, index))
+      state.oldpwd = cwd
+    } else if (noChange) {
+      dirs.splice(1, 0, resolvePath(target, cwd))
+    } else {
+      dirs.unshift(resolvePath(target, cwd))
+      state.oldpwd = cwd
     }
+    return
+  }
+
+  // popd: drop the top (changing directory) or the Nth entry
+  if (dirs.length < 2) return
+  if (noChange && index === null) {
+    dirs.splice(1, 1)
+  } else if (index === null || index === 0) {
+    dirs.shift()
+    state.oldpwd = cwd
+  } else {
+    dirs.splice(index, 1)
+  }
+}
 
-    // Non-glob: expand home and do prefix/substring matching
-    const expandedPath = p.path.replace('~', home)
-    if (filePath.includes(expandedPath) || filePath.includes(p.path)) {
-      return p
+/**
+ * Simulate `cd`, `pushd`, `popd` and `cd -` across the simple commands of
+ * one shell invocation, starting in `cwd`. Returns the working directory
+ * each segment runs in, so `cd ~ && cat .ssh/id_rsa` resolves `.ssh/id_rsa`
+ * against the home directory. Directory changes inside `( ... )`, in a
+ * pipeline or in the background do not outlive that subshell.
+ */
+export function trackWorkingDirectories(segments: ShellSegment[], cwd: string): string[] {
+  let state: DirectoryState = { dirs: [cwd], oldpwd: null }
+  // State saved when entering each subshell level
+  const saved: DirectoryState[] = []
+  const result: string[] = []
+  let previous: ShellSegment | null = null
+  const piped = (op: ShellOperator | null | undefined) => op === '|' || op === '|&'
+
+  for (const segment of segments) {
+    while (saved.length > segment.depth) state = saved.pop()!
+    while (saved.length < segment.depth) {
+      saved.push(state)
+      state = { dirs: [...state.dirs], oldpwd: state.oldpwd }
     }
+    result.push(state.dirs[0])
+
+    const words = commandWords(segment)
+    const subshell = piped(segment.operator) || piped(previous?.operator) || segment.operator === '&'
+    if (!subshell && (words[0] === 'cd' || words[0] === 'pushd' || words[0] === 'popd')) {
+      changeDirectory(words, state)
+    }
+    previous = segment
   }
+  return result
+}
 
-  return null
+/** Where a resolved path sits relative to the session directory */
+interface PathContext {
+  resolved: string
+  /** `resolved` relative to `cwd` */
+  rel: string
+  /** True if `resolved` is `cwd` or below it */
+  inside: boolean
+  /** Parent of `cwd` */
+  cwdParent: string
+}
+
+function pathContext(resolved: string, cwd: string): PathContext {
+  const rel = relative(cwd, resolved)
+  const inside = rel !== '..' && !rel.startsWith('../') && !isAbsolute(rel)
+  return { resolved, rel, inside, cwdParent: dirname(cwd) }
+}
+
+type PathTest = (ctx: PathContext) => boolean
+
+/**
+ * Compile the protected path `protPath`, a gitignore-style glob (see
+ * glob.ts), into a test over resolved paths. Paths are compared segment by
+ * segment, never as substrings (`dist/` does not cover
+ * `/home/me/distribution`). A trailing `/` is ignored, since a path in a
+ * command may name a directory or a file.
+ *   1. `~` / `/` paths are absolute: the path itself or anything below it,
+ *      except the project's own files when the protected path contains
+ *      `cwd`. Globs with a leading `/` (`/infra/prod/**`) are also
+ *      anchored to the project directory
+ *   2. Relative paths with a `/` (`infra/prod/`, `config/*.json`) are
+ *      anchored to the project directory
+ *   3. Relative paths without one (`dist/`, `*.pem`, `package-lock.json`)
+ *      match any segment below `cwd`
+ * Outside the project, relative paths match anywhere in the path.
+ */
+function pathTest(protPath: string, home: string): PathTest {
+  const glob = protPath.replace(/(.)\/+$/, '$1')
+
+  if (glob.startsWith('~') || glob.startsWith('/')) {
+    const regex = compileGlob(glob.replace(/^~(?=\/|$)/, escapeGlob(home)), true)
+    const project = glob.startsWith('/') && isGlobPattern(glob) ? compileGlob(glob.slice(1), true) : null
+    // A protected directory that contains the project (/usr/ for a project
+    // in /usr/src/app) does not cover the project's own files
+    return (ctx) =>
+      (regex.test(ctx.resolved) && !(ctx.inside && regex.test(ctx.cwdParent))) ||
+      (project !== null && ctx.inside && project.test(ctx.rel))
+  }
+
+  // Inside the project only segments below it count, so a project that
+  // lives in e.g. ~/build/app is not protected as a whole
+  const floating = compileGlob(glob, false)
+  const local = compileGlob(glob, glob.includes('/'))
+  return (ctx) => (ctx.inside ? local.test(ctx.rel) : floating.test(ctx.resolved))
+}
+
+// ---------------------------------------------------------------------------
+// Compiled paths
+// ---------------------------------------------------------------------------
+// Most protected paths are literal: a file or directory name (`.env`,
+// `node_modules/`) or an absolute directory (`~/.ssh/`, `/etc/`). These are
+// indexed by name and by root, so a lookup costs one map probe per segment
+// of the path instead of one test per entry. Globs are indexed by a literal
+// segment they require (`config` in `config/**/*.json`) or their extension
+// (`*.pem`) and only tested when the path has it. The rest are tested in
+// order.
+// ---------------------------------------------------------------------------
+
+interface PathCheck {
+  index: number
+  test: PathTest
+}
+
+export interface CompiledPaths<T extends ProtectedPath | string = ProtectedPath> {
+  entries: readonly T[]
+  /** Literal relative names without a `/`, to entry indexes */
+  byName: ReadonlyMap<string, readonly number[]>
+  /** Literal absolute directories (`~` expanded), to entry indexes */
+  byRoot: ReadonlyMap<string, readonly number[]>
+  /** Globs by a literal segment every match contains */
+  bySegment: ReadonlyMap<string, readonly PathCheck[]>
+  /** Globs ending in `*.ext`, by `.ext` */
+  byExtension: ReadonlyMap<string, readonly PathCheck[]>
+  /** Everything else */
+  scan: readonly PathCheck[]
+}
+
+function addTo<V>(map: Map<string, V[]>, key: string, value: V): void {
+  const list = map.get(key)
+  if (list) list.push(value)
+  else map.set(key, [value])
+}
+
+function isLiteralGlob(glob: string): boolean {
+  return !isGlobPattern(glob) && !glob.includes('\\')
+}
+
+/**
+ * Compile protected paths or exceptions for repeated lookups. `~` is
+ * expanded with the HOME of the moment. The plugin compiles its effective
+ * policy once at startup; passing a plain array to evaluatePath or
+ * checkShellPathViolation compiles it for that call.
+ */
+export function compilePaths<T extends ProtectedPath | string>(entries: readonly T[]): CompiledPaths<T> {
+  const home = process.env.HOME || ''
+  const byName = new Map<string, number[]>()
+  const byRoot = new Map<string, number[]>()
+  const bySegment = new Map<string, PathCheck[]>()
+  const byExtension = new Map<string, PathCheck[]>()
+  const scan: PathCheck[] = []
+
+  entries.forEach((entry, index) => {
+    const glob = (typeof entry === 'string' ? entry : entry.path).replace(/(.)\/+$/, '$1')
+    const literal = isLiteralGlob(glob)
+    if (literal && !glob.includes('/') && !glob.startsWith('~')) {
+      addTo(byName, glob, index)
+      return
+    }
+    if (literal && /^(?:~\/|\/)./.test(glob) && (glob[0] === '/' || home.startsWith('/'))) {
+      addTo(byRoot, glob.replace(/^~/, home), index)
+      return
+    }
+
+    const check = { index, test: pathTest(glob, home) }
+    const segments = expandBraces(glob).length === 1 ? glob.split('/') : []
+    const required = segments
+      .filter((segment) => segment !== '' && segment !== '~' && isLiteralGlob(segment))
+      .reduce((a, b) => (b.length > a.length ? b : a), '')
+    const extension = /^\*(\.[^/]+)$/.exec(segments[segments.length - 1] ?? '')?.[1]
+    if (required) addTo(bySegment, required, check)
+    else if (extension && isLiteralGlob(extension)) addTo(byExtension, extension, check)
+    else scan.push(check)
+  })
+  return { entries, byName, byRoot, bySegment, byExtension, scan }
+}
+
+function toCompiledPaths<T extends ProtectedPath | string>(paths: readonly T[] | CompiledPaths<T>): CompiledPaths<T> {
+  return 'byName' in paths ? paths : compilePaths(paths)
+}
+
+/** True if `path` is `dir` or below it */
+function isWithin(path: string, dir: string): boolean {
+  return path === dir || path.startsWith(dir + '/')
+}
+
+/** Indexes of every entry covering the path, in ascending order */
+function matchingIndexes(paths: CompiledPaths<ProtectedPath | string>, ctx: PathContext): number[] {
+  const hits = new Set<number>()
+  const run = (checks: readonly PathCheck[] | undefined) => {
+    for (const { index, test } of checks ?? []) {
+      if (!hits.has(index) && test(ctx)) hits.add(index)
+    }
+  }
+
+  if (paths.byName.size > 0) {
+    for (const name of (ctx.inside ? ctx.rel : ctx.resolved).split('/')) {
+      for (const index of paths.byName.get(name) ?? []) hits.add(index)
+    }
+  }
+  if (paths.byRoot.size > 0) {
+    for (let end = ctx.resolved.indexOf('/', 1); ; end = ctx.resolved.indexOf('/', end + 1)) {
+      const root = end === -1 ? ctx.resolved : ctx.resolved.slice(0, end)
+      const indexes = paths.byRoot.get(root)
+      if (indexes && !(ctx.inside && isWithin(ctx.cwdParent, root))) {
+        for (const index of indexes) hits.add(index)
+      }
+      if (end === -1) break
+    }
+  }
+  if (paths.bySegment.size > 0 || paths.byExtension.size > 0) {
+    for (const segment of ctx.resolved.split('/')) {
+      run(paths.bySegment.get(segment))
+      for (let dot = segment.indexOf('.'); dot !== -1; dot = segment.indexOf('.', dot + 1)) {
+        run(paths.byExtension.get(segment.slice(dot)))
+      }
+    }
+  }
+  run(paths.scan)
+  return [...hits].sort((a, b) => a - b)
+}
+
+function firstMatch<T extends ProtectedPath | string>(paths: CompiledPaths<T>, ctx: PathContext): T | null {
+  const [index] = matchingIndexes(paths, ctx)
+  return index === undefined ? null : paths.entries[index]
+}
+
+/** A file access a path exception let through */
+export interface ExceptedPath {
+  filePath: string
+  /** Protected path it falls under */
+  path: string
+  exception: string
+}
+
+export interface PathEvaluation {
+  /** First protected path the file falls under */
+  protectedPath: ProtectedPath
+  /** Exception that lets the access through anyway, or null */
+  exception: string | null
+}
+
+/**
+ * Evaluate a file path against the protected paths and exceptions. Returns
+ * null if no protected path covers it, otherwise the first that does and
+ * the exception overriding it, if any.
+ *
+ * `filePath` is resolved against `cwd` (the session directory) first, so
+ * `../../.ssh/id_rsa` and `dist/../.env` are judged by where they point.
+ */
+export function evaluatePath(
+  filePath: string,
+  protectedPaths: readonly ProtectedPath[] | CompiledPaths<ProtectedPath>,
+  exceptions: readonly string[] | CompiledPaths<string>,
+  cwd: string,
+): PathEvaluation | null {
+  const ctx = pathContext(resolvePath(filePath, cwd), cwd)
+  const protectedPath = firstMatch(toCompiledPaths(protectedPaths), ctx)
+  if (!protectedPath) return null
+  return { protectedPath, exception: firstMatch(toCompiledPaths(exceptions), ctx) }
+}
+
+/**
+ * Check if a file path is protected. Returns the matching ProtectedPath or
+ * null, also when an exception applies.
+ */
+export function checkPathProtection(
+  filePath: string,
+  protectedPaths: readonly ProtectedPath[] | CompiledPaths<ProtectedPath>,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+) {
+  const result = evaluatePath(filePath, protectedPaths, exceptions, cwd)
+  return result && !result.exception ? result.protectedPath : null
 }
 
 // ---------------------------------------------------------------------------
@@ -570,33 +1647,69 @@ const SHELL_DELETE_OPS = [
   /\bunlink\s+/,                                         // unlink
   /\brmdir\s+/,                                          // rmdir
   /\bshred\s+/,                                          // shred (secure delete)
+  /\bfind\b.*\s-delete\b/,                              // find ... -delete
   // Windows delete operations
   /\bdel\s+/i,                                            // del (Windows)
   /\brd\s+/i,                                             // rd (Windows)
   /\berase\s+/i,                                          // erase (Windows)
 ]
 
+/** URLs are not paths (`https://x.dev/dist/` does not touch dist/) */
+const URL_RE = /\b[a-z][a-z0-9+.-]*:\/\/\S*/gi
+
 /**
- * Check if a path reference appears in the command. Expands `~` and checks
- * both the raw and expanded forms. For glob-pattern protected paths,
- * extracts all path-like tokens from the command and matches basenames.
+ * Extract the path-like tokens of a shell command: words split on
+ * whitespace, quotes, `=`, `:` and shell punctuation, so `--file=.env`,
+ * `of=/dev/sda`, `host:~/.ssh/id` and `open('.env')` all yield their path.
+ * Flags and URLs are skipped.
  */
-function commandReferencesPath(command: string, protPath: string): boolean {
-  const home = process.env.HOME || ''
+function pathTokens(command: string): string[] {
+  return command
+    .replace(URL_RE, ' ')
+    .split(/[\s'"`(),;=:<>|&]+/)
+    .filter((t) => t !== '' && !t.startsWith('-'))
+}
 
-  if (isGlobPattern(protPath)) {
-    // Extract path-like tokens and match basenames against the glob
-    const regex = globToRegex(protPath)
-    const tokens = command.split(/\s+/)
-    for (const token of tokens) {
-      const name = basename(token)
-      if (name && regex.test(name)) return true
+/**
+ * Indexes of the protected paths that some path token in `command` falls
+ * under, in ascending order. Tokens covered by an exception are ignored
+ * and listed in `excepted` instead.
+ */
+function referencedIndexes(
+  command: string,
+  paths: CompiledPaths<ProtectedPath | string>,
+  exceptions: CompiledPaths<string>,
+  cwd: string,
+): { indexes: number[]; excepted: ExceptedPath[] } {
+  const hits = new Set<number>()
+  const excepted: ExceptedPath[] = []
+  for (const token of pathTokens(command)) {
+    const ctx = pathContext(resolvePath(token, cwd), cwd)
+    const indexes = matchingIndexes(paths, ctx)
+    if (indexes.length === 0) continue
+    const exception = firstMatch(exceptions, ctx)
+    if (exception !== null) {
+      const entry = paths.entries[indexes[0]]
+      excepted.push({ filePath: token, path: typeof entry === 'string' ? entry : entry.path, exception })
+      continue
     }
-    return false
+    for (const index of indexes) hits.add(index)
   }
+  return { indexes: [...hits].sort((a, b) => a - b), excepted }
+}
 
-  const expanded = protPath.replace('~', home)
-  return command.includes(expanded) || command.includes(protPath)
+/**
+ * Check if a path-like token of the command refers to the protected path,
+ * after resolving it against `cwd`. Tokens covered by an exception do not
+ * count.
+ */
+function commandReferencesPath(
+  command: string,
+  protPath: string,
+  cwd: string,
+  exceptions: readonly string[] | CompiledPaths<string>,
+): boolean {
+  return referencedIndexes(command, compilePaths([protPath]), toCompiledPaths(exceptions), cwd).indexes.length > 0
 }
 
 /**
@@ -604,12 +1717,13 @@ function commandReferencesPath(command: string, protPath: string): boolean {
  * Returns true if any write operator is detected AND the protected path
  * appears in the command.
  */
-export function isShellWrite(command: string, protPath: string): boolean {
-  if (!commandReferencesPath(command, protPath)) return false
-  for (const op of SHELL_WRITE_OPS) {
-    if (op.test(command)) return true
-  }
-  return false
+export function isShellWrite(
+  command: string,
+  protPath: string,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): boolean {
+  return commandReferencesPath(command, protPath, cwd, exceptions) && SHELL_WRITE_OPS.some((op) => op.test(command))
 }
 
 /**
@@ -617,50 +1731,95 @@ export function isShellWrite(command: string, protPath: string): boolean {
  * Returns true if any delete operator is detected AND the protected path
  * appears in the command.
  */
-export function isShellDelete(command: string, protPath: string): boolean {
-  if (!commandReferencesPath(command, protPath)) return false
-  for (const op of SHELL_DELETE_OPS) {
-    if (op.test(command)) return true
-  }
-  return false
+export function isShellDelete(
+  command: string,
+  protPath: string,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): boolean {
+  return commandReferencesPath(command, protPath, cwd, exceptions) && SHELL_DELETE_OPS.some((op) => op.test(command))
+}
+
+export interface ShellPathViolation {
+  protectedPath: ProtectedPath
+  operation: 'access' | 'write' | 'delete'
+}
+
+/** The protected paths a shell command touches */
+export interface ShellPathCheck {
+  violations: ShellPathViolation[]
+  /** Path tokens an exception let through */
+  excepted: ExceptedPath[]
 }
 
 /**
- * Check all protected paths against a shell command and return the first
- * violation, or null if the command is safe.
+ * Check all protected paths against a shell command and return every
+ * violation, in list order, and the path tokens an exception let through.
  *
  * Enforcement rules:
- *   zeroAccess: block if path appears anywhere in command
+ *   zeroAccess: block if any path in the command refers to it
  *   readOnly:   block if command writes or deletes the path
  *   noDelete:   block if command deletes the path
+ * Paths covered by one of `exceptions` are not violations.
  */
-export function checkShellPathViolation(
+export function evaluateShellPaths(
   command: string,
-  protectedPaths: ProtectedPath[],
-): { protectedPath: ProtectedPath; operation: 'access' | 'write' | 'delete' } | null {
-  for (const p of protectedPaths) {
+  protectedPaths: readonly ProtectedPath[] | CompiledPaths<ProtectedPath>,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): ShellPathCheck {
+  const paths = toCompiledPaths(protectedPaths)
+  const { indexes, excepted } = referencedIndexes(command, paths, toCompiledPaths(exceptions), cwd)
+  if (indexes.length === 0) return { violations: [], excepted }
+
+  let writes: boolean | undefined
+  let deletes: boolean | undefined
+  const isWrite = () => (writes ??= SHELL_WRITE_OPS.some((op) => op.test(command)))
+  const isDelete = () => (deletes ??= SHELL_DELETE_OPS.some((op) => op.test(command)))
+
+  const violations: ShellPathViolation[] = []
+  for (const index of indexes) {
+    const p = paths.entries[index]
     switch (p.level) {
       case 'zeroAccess':
-        if (commandReferencesPath(command, p.path)) {
-          return { protectedPath: p, operation: 'access' }
-        }
+        violations.push({ protectedPath: p, operation: 'access' })
         break
 
       case 'readOnly':
-        if (isShellWrite(command, p.path)) {
-          return { protectedPath: p, operation: 'write' }
-        }
-        if (isShellDelete(command, p.path)) {
-          return { protectedPath: p, operation: 'delete' }
-        }
+        if (isWrite()) violations.push({ protectedPath: p, operation: 'write' })
+        else if (isDelete()) violations.push({ protectedPath: p, operation: 'delete' })
         break
 
       case 'noDelete':
-        if (isShellDelete(command, p.path)) {
-          return { protectedPath: p, operation: 'delete' }
-        }
+        if (isDelete()) violations.push({ protectedPath: p, operation: 'delete' })
         break
     }
   }
-  return null
+  return { violations, excepted }
+}
+
+/**
+ * Every violation of the protected paths by a shell command, in list
+ * order. See evaluateShellPaths.
+ */
+export function checkShellPathViolations(
+  command: string,
+  protectedPaths: readonly ProtectedPath[] | CompiledPaths<ProtectedPath>,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): ShellPathViolation[] {
+  return evaluateShellPaths(command, protectedPaths, cwd, exceptions).violations
+}
+
+/**
+ * Check all protected paths against a shell command and return the first
+ * violation, or null if the command is safe. See checkShellPathViolations.
+ */
+export function checkShellPathViolation(
+  command: string,
+  protectedPaths: readonly ProtectedPath[] | CompiledPaths<ProtectedPath>,
+  cwd = process.cwd(),
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): ShellPathViolation | null {
+  return checkShellPathViolations(command, protectedPaths, cwd, exceptions)[0] ?? null
 }
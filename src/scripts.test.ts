@@ -0,0 +1,177 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { scanScripts, scriptInvocation, MAX_SCRIPT_BYTES } from './scripts.js'
+import { parseShellCommand } from './shell.js'
+import { compilePaths, compilePatterns, DEFAULT_PATH_EXCEPTIONS, DEFAULT_PATTERNS, DEFAULT_PROTECTED_PATHS } from './patterns.js'
+
+// ---------------------------------------------------------------------------
+// scriptInvocation
+// ---------------------------------------------------------------------------
+
+describe('scriptInvocation', () => {
+  const cases: [string, { script: string; direct: boolean } | null][] = [
+    ['bash cleanup.sh', { script: 'cleanup.sh', direct: false }],
+    ['sh -e ./deploy.sh arg', { script: './deploy.sh', direct: false }],
+    ['bash -o pipefail run.sh', { script: 'run.sh', direct: false }],
+    ['bash -- run.sh', { script: 'run.sh', direct: false }],
+    ['sudo zsh setup.sh', { script: 'setup.sh', direct: false }],
+    ['source env.sh', { script: 'env.sh', direct: false }],
+    ['. ./env.sh', { script: './env.sh', direct: false }],
+    ['./scripts/reset.sh --yes', { script: './scripts/reset.sh', direct: true }],
+    ['nohup ./run.sh', { script: './run.sh', direct: true }],
+    ['bash -c "rm -rf x"', null],
+    ['bash -s < file', null],
+    ['bash', null],
+    ['ls -la', null],
+    ['git push', null],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should detect: ${command}`, () => {
+      const [segment] = parseShellCommand(command)
+      assert.deepStrictEqual(scriptInvocation(segment), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// scanScripts
+// ---------------------------------------------------------------------------
+
+describe('scanScripts', () => {
+  let tempDir: string
+
+  const scan = (command: string) =>
+    scanScripts([command], tempDir, DEFAULT_PATTERNS, DEFAULT_PROTECTED_PATHS)
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'dc-scripts-'))
+  })
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('should report pattern matches with file and line', () => {
+    writeFileSync(join(tempDir, 'cleanup.sh'), '#!/bin/bash\necho cleaning\nterraform destroy -auto-approve\n')
+    const { findings } = scan('bash cleanup.sh')
+    assert.equal(findings.length, 1)
+    assert.equal(findings[0].file, 'cleanup.sh')
+    assert.equal(findings[0].line, 3)
+    assert.equal(findings[0].match?.pattern.reason, 'terraform destroy')
+  })
+
+  it('should report protected path violations', () => {
+    writeFileSync(join(tempDir, 'env.sh'), 'export A=1\ncat ~/.ssh/id_rsa\n')
+    const { findings } = scan('source env.sh')
+    assert.equal(findings.length, 1)
+    assert.equal(findings[0].line, 2)
+    assert.equal(findings[0].violation?.operation, 'access')
+  })
+
+  it('should list paths an exception let through', () => {
+    writeFileSync(join(tempDir, 'setup.sh'), 'cp .env.example .env.sample\n')
+    const { findings, excepted } = scanScripts(['bash setup.sh'], tempDir, DEFAULT_PATTERNS, DEFAULT_PROTECTED_PATHS, DEFAULT_PATH_EXCEPTIONS)
+    assert.deepStrictEqual(findings, [])
+    assert.deepStrictEqual(excepted.map((e) => [e.filePath, e.exception]), [
+      ['.env.example', '.env*.example'],
+      ['.env.sample', '.env*.sample'],
+    ])
+  })
+
+  it('should resolve scripts in subdirectories executed by path', () => {
+    mkdirSync(join(tempDir, 'scripts'))
+    writeFileSync(join(tempDir, 'scripts', 'reset.sh'), 'git reset --hard origin/main\n')
+    const { findings } = scan('npm run build && ./scripts/reset.sh')
+    assert.equal(findings[0].file, join('scripts', 'reset.sh'))
+    assert.equal(findings[0].match?.pattern.action, 'ask')
+  })
+
+  it('should resolve scripts against the directory cd moved to', () => {
+    mkdirSync(join(tempDir, 'scripts'))
+    writeFileSync(join(tempDir, 'scripts', 'reset.sh'), 'cat ~/.ssh/id_rsa\n')
+    const { findings } = scan('cd scripts && ./reset.sh')
+    assert.equal(findings[0]?.file, join('scripts', 'reset.sh'))
+    assert.equal(findings[0].violation?.operation, 'access')
+  })
+
+  it('should follow cd between script lines', () => {
+    writeFileSync(join(tempDir, 'x.sh'), 'cd ~\ncat .ssh/id_rsa\n')
+    const { findings } = scan('bash x.sh')
+    assert.equal(findings.length, 1)
+    assert.equal(findings[0].line, 2)
+    assert.equal(findings[0].violation?.protectedPath.path, '~/.ssh')
+  })
+
+  it('should expand variables assigned on earlier lines', () => {
+    writeFileSync(join(tempDir, 'x.sh'), 'T=/\necho wiping\nrm -rf $T\n')
+    const { findings } = scan('bash x.sh')
+    assert.ok(findings.some((f) => f.line === 3 && f.match?.pattern.action === 'block'))
+  })
+
+  it('should report the first line of a continued command', () => {
+    writeFileSync(join(tempDir, 'x.sh'), 'echo one\nrm \\\n  -rf \\\n  /\n')
+    const { findings } = scan('sh x.sh')
+    assert.equal(findings[0].line, 2)
+  })
+
+  it('should inspect wrapped commands inside scripts', () => {
+    writeFileSync(join(tempDir, 'x.sh'), 'bash -c "git push origin main --force"\n')
+    const { findings } = scan('bash x.sh')
+    assert.ok(findings.some((f) => f.match?.pattern.reason.startsWith('git push --force')))
+  })
+
+  it('should ignore comments', () => {
+    writeFileSync(join(tempDir, 'x.sh'), '# never run terraform destroy here\nls\n')
+    assert.deepStrictEqual(scan('bash x.sh').findings, [])
+  })
+
+  it('should follow scripts sourced by scripts', () => {
+    writeFileSync(join(tempDir, 'outer.sh'), 'source inner.sh\n')
+    writeFileSync(join(tempDir, 'inner.sh'), 'pulumi destroy\n')
+    const { findings } = scan('bash outer.sh')
+    assert.equal(findings.length, 1)
+    assert.equal(findings[0].file, 'inner.sh')
+  })
+
+  it('should rescan a script whose contents changed', () => {
+    const patterns = compilePatterns(DEFAULT_PATTERNS)
+    const paths = compilePaths(DEFAULT_PROTECTED_PATHS)
+    const path = join(tempDir, 'deploy.sh')
+    writeFileSync(path, 'terraform plan\n')
+    assert.deepStrictEqual(scanScripts(['bash deploy.sh'], tempDir, patterns, paths).findings, [])
+    writeFileSync(path, 'terraform destroy\n')
+    assert.equal(scanScripts(['bash deploy.sh'], tempDir, patterns, paths).findings.length, 1)
+    assert.equal(scanScripts(['bash deploy.sh'], tempDir, patterns, paths).findings.length, 1)
+  })
+
+  it('should not loop on scripts that source themselves', () => {
+    writeFileSync(join(tempDir, 'loop.sh'), 'source loop.sh\n')
+    assert.deepStrictEqual(scan('bash loop.sh').findings, [])
+  })
+
+  it('should skip directly executed non-shell scripts', () => {
+    writeFileSync(join(tempDir, 'tool.py'), '#!/usr/bin/env python3\nprint("terraform destroy")\n')
+    assert.deepStrictEqual(scan('./tool.py').findings, [])
+  })
+
+  it('should scan directly executed scripts with a shell shebang', () => {
+    writeFileSync(join(tempDir, 'tool'), '#!/usr/bin/env bash\nterraform destroy\n')
+    assert.equal(scan('./tool').findings.length, 1)
+  })
+
+  it('should skip scripts larger than the size limit', () => {
+    writeFileSync(join(tempDir, 'big.sh'), 'terraform destroy\n' + '#'.repeat(MAX_SCRIPT_BYTES))
+    const { findings, skipped } = scan('bash big.sh')
+    assert.deepStrictEqual(findings, [])
+    assert.deepStrictEqual(skipped, ['big.sh'])
+  })
+
+  it('should ignore missing scripts and directories', () => {
+    mkdirSync(join(tempDir, 'dir.sh'))
+    assert.deepStrictEqual(scan('bash missing.sh; bash dir.sh'), { findings: [], excepted: [], skipped: [] })
+  })
+})
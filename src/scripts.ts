@@ -0,0 +1,270 @@
+import { readFileSync, statSync } from 'node:fs'
+import { relative, resolve } from 'node:path'
+import { commandWords, parseShellCommand, type ShellSegment } from './shell.js'
+import { normalizeCommand } from './normalize.js'
+import { expandVariables } from './variables.js'
+import {
+  compilePaths,
+  compilePatterns,
+  evaluateShellPaths,
+  expandHome,
+  inQuotedArgument,
+  matchAllPatterns,
+  trackWorkingDirectories,
+  unwrapShellCommand,
+  type CompiledPatterns,
+  type CompiledPaths,
+  type ExceptedPath,
+  type PatternMatch,
+  type ProtectedPath,
+  type Rule,
+  type ShellPathViolation,
+} from './patterns.js'
+
+// ---------------------------------------------------------------------------
+// Executed script scanning
+// ---------------------------------------------------------------------------
+// The agent can write `cleanup.sh` with one tool call and run `bash
+// cleanup.sh` with the next. The invocation alone looks harmless, so local
+// scripts that a command executes or sources are read and checked line by
+// line with the same patterns and path rules as the command itself, with
+// the variables the script assigns expanded.
+// ---------------------------------------------------------------------------
+
+/** Scripts larger than this are not read */
+export const MAX_SCRIPT_BYTES = 256 * 1024
+
+/** How many levels of scripts sourcing other scripts are followed */
+const MAX_SCRIPT_DEPTH = 3
+
+const SHELLS: ReadonlySet<string> = new Set(['bash', 'sh', 'zsh', 'dash', 'ksh'])
+
+/** Shell flags that consume the next word */
+const SHELL_VALUE_FLAGS: ReadonlySet<string> = new Set(['-o', '+o', '-O', '+O', '--rcfile', '--init-file'])
+
+/** Shebang interpreters whose scripts are shell code */
+const SHELL_SHEBANG_RE = /^#!.*\b(?:ba|z|da|k)?sh\b/
+
+interface ScriptLine {
+  /** Script path, relative to the session directory when inside it */
+  file: string
+  /** 1-based line number of the finding */
+  line: number
+  /** Text of the (continuation-joined) line */
+  text: string
+}
+
+/** A pattern match or a protected path violation on one script line */
+export type ScriptFinding =
+  | (ScriptLine & { match: PatternMatch; violation?: undefined })
+  | (ScriptLine & { violation: ShellPathViolation; match?: undefined })
+
+export interface ScriptInvocation {
+  /** Script path as written in the command */
+  script: string
+  /** True when run by path (`./x.sh`) rather than through a shell */
+  direct: boolean
+}
+
+/**
+ * Return the script a simple command executes or sources, if any:
+ *   bash deploy.sh / sh -e ./x.sh   (shell with a script argument)
+ *   source env.sh / . env.sh        (sourced into the current shell)
+ *   ./scripts/reset.sh              (executed directly by path)
+ */
+export function scriptInvocation(segment: ShellSegment): ScriptInvocation | null {
+  const words = commandWords(segment)
+  if (words.length === 0) return null
+  const program = words[0]
+  const viaShell = (script: string | undefined) => (script ? { script, direct: false } : null)
+
+  if (program === 'source' || program === '.') {
+    return viaShell(words[1])
+  }
+
+  if (SHELLS.has(program)) {
+    for (let i = 1; i < words.length; i++) {
+      const word = words[i]
+      if (word === '--') return viaShell(words[i + 1])
+      // -c runs a string (handled by unwrapping), -s reads stdin
+      if (/^-[a-zA-Z]*[cs]/.test(word)) return null
+      if (SHELL_VALUE_FLAGS.has(word)) {
+        i++
+        continue
+      }
+      if (word.startsWith('-') || word.startsWith('+')) continue
+      return viaShell(word)
+    }
+    return null
+  }
+
+  // Executed by path: the program as written (before basename reduction)
+  const written = segment.argv[segment.argv.length - words.length]
+  return written.includes('/') ? { script: written, direct: true } : null
+}
+
+/** Resolve a script argument against `directory`; null unless it is a file */
+function resolveScript(script: string, directory: string): string | null {
+  const path = resolve(directory, expandHome(script))
+  try {
+    return statSync(path, { throwIfNoEntry: false })?.isFile() ? path : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Split a script into logical lines (backslash continuations joined), each
+ * tagged with the line number it starts on.
+ */
+function logicalLines(source: string): { line: number; text: string }[] {
+  const result: { line: number; text: string }[] = []
+  const lines = source.split('\n')
+  for (let i = 0; i < lines.length; i++) {
+    const start = i
+    let text = lines[i]
+    while (text.endsWith('\\') && i + 1 < lines.length) {
+      text = text.slice(0, -1) + lines[++i]
+    }
+    if (text.trim() && !text.trimStart().startsWith('#')) {
+      result.push({ line: start + 1, text })
+    }
+  }
+  return result
+}
+
+/**
+ * `lines` with the variables the script assigns expanded into later lines
+ * (`T=/` on one line, `rm -rf $T` on the next); the lines as written when
+ * an expanded value spans lines
+ */
+function expandLines(lines: readonly string[]): readonly string[] {
+  const expanded = expandVariables(lines.join('\n'), { HOME: process.env.HOME ?? '' }).command.split('\n')
+  return expanded.length === lines.length ? expanded : lines
+}
+
+/** The working directory after running `text` in `cwd` */
+function directoryAfter(text: string, cwd: string): string {
+  return trackWorkingDirectories(parseShellCommand(`${text}\n:`), cwd).at(-1) ?? cwd
+}
+
+/** Findings of one script, valid while its source and the rules are unchanged */
+interface ScriptScan {
+  source: string
+  rules: CompiledPatterns
+  paths: CompiledPaths
+  exceptions: CompiledPaths<string>
+  /** Each line with the directory it runs in */
+  lines: { text: string; cwd: string }[]
+  findings: ScriptFinding[]
+  excepted: ExceptedPath[]
+}
+
+// The same scripts (~/.bashrc, ./deploy.sh) are run over and over, and
+// checking every line costs as much as checking a command
+const SCAN_CACHE_SIZE = 100
+const scanCache = new Map<string, ScriptScan>()
+
+/**
+ * Find every local script that `commands` execute or source and check its
+ * lines against `patterns` and `paths` (minus `exceptions`). Scripts run
+ * by those scripts are followed a few levels deep; each script is read at
+ * most once. Commands start in `directory`; `cd` moves later steps and
+ * script lines, so `cd scripts && ./reset.sh` reads scripts/reset.sh and
+ * resolves its paths against scripts/.
+ *
+ * Returns all findings, the paths an exception let through and the
+ * scripts that were skipped for being larger than MAX_SCRIPT_BYTES.
+ */
+export function scanScripts(
+  commands: string[],
+  directory: string,
+  patterns: readonly Rule[] | CompiledPatterns,
+  paths: readonly ProtectedPath[] | CompiledPaths,
+  exceptions: readonly string[] | CompiledPaths<string> = [],
+): { findings: ScriptFinding[]; excepted: ExceptedPath[]; skipped: string[] } {
+  const findings: ScriptFinding[] = []
+  const excepted: ExceptedPath[] = []
+  const skipped: string[] = []
+  const visited = new Set<string>()
+  const rules = 'rules' in patterns ? patterns : compilePatterns(patterns)
+  const protectedPaths = 'byName' in paths ? paths : compilePaths(paths)
+  const pathExceptions = 'byName' in exceptions ? exceptions : compilePaths(exceptions)
+
+  const display = (path: string) => {
+    const rel = relative(directory, path)
+    return rel.startsWith('..') ? path : rel
+  }
+
+  const visit = (cmd: string, depth: number, start: string) => {
+    if (depth > MAX_SCRIPT_DEPTH) return
+
+    const segments = parseShellCommand(cmd)
+    const cwds = trackWorkingDirectories(segments, start)
+    for (const [i, segment] of segments.entries()) {
+      const invocation = scriptInvocation(segment)
+      const path = invocation && resolveScript(invocation.script, cwds[i])
+      if (!path || visited.has(path)) continue
+      visited.add(path)
+
+      let source: string
+      try {
+        if (statSync(path).size > MAX_SCRIPT_BYTES) {
+          skipped.push(display(path))
+          continue
+        }
+        source = readFileSync(path, 'utf-8')
+      } catch {
+        continue
+      }
+
+      // Directly executed files are only shell code without a shebang or
+      // with a shell one (./deploy.py is not)
+      if (invocation.direct && source.startsWith('#!') && !SHELL_SHEBANG_RE.test(source.split('\n')[0])) continue
+
+      const key = `${directory}\0${cwds[i]}\0${path}`
+      let scan = scanCache.get(key)
+      if (
+        scan?.source !== source ||
+        scan.rules !== rules ||
+        scan.paths !== protectedPaths ||
+        scan.exceptions !== pathExceptions
+      ) {
+        scan = { source, rules, paths: protectedPaths, exceptions: pathExceptions, lines: [], findings: [], excepted: [] }
+        let cwd = cwds[i]
+        const lines = logicalLines(source)
+        const expanded = expandLines(lines.map((l) => l.text))
+        for (const [k, { line, text }] of lines.entries()) {
+          scan.lines.push({ text, cwd })
+          const variants = expanded[k] === text ? [text] : [text, expanded[k]]
+          const candidates = variants.flatMap((v) => [v, normalizeCommand(v), ...unwrapShellCommand(v)])
+          for (const candidate of new Set(candidates)) {
+            for (const match of matchAllPatterns(candidate, rules)) {
+              if (inQuotedArgument(candidate, match.match)) continue
+              scan.findings.push({ file: display(path), line, text, match })
+            }
+            const steps = parseShellCommand(candidate)
+            const stepCwds = trackWorkingDirectories(steps, cwd)
+            for (const [j, step] of steps.entries()) {
+              const paths = evaluateShellPaths(step.text, protectedPaths, stepCwds[j], pathExceptions)
+              for (const violation of paths.violations) {
+                scan.findings.push({ file: display(path), line, text, violation })
+              }
+              scan.excepted.push(...paths.excepted)
+            }
+          }
+          cwd = directoryAfter(text, cwd)
+        }
+        if (scanCache.size >= SCAN_CACHE_SIZE) scanCache.clear()
+        scanCache.set(key, scan)
+      }
+
+      findings.push(...scan.findings)
+      excepted.push(...scan.excepted)
+      for (const { text, cwd } of scan.lines) visit(text, depth + 1, cwd)
+    }
+  }
+
+  for (const command of commands) visit(command, 1, directory)
+  return { findings, excepted, skipped }
+}
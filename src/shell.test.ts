@@ -0,0 +1,273 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseShellCommand, commandWords, extractSubstitutions, decodeAnsiC } from './shell.js'
+
+// ---------------------------------------------------------------------------
+// parseShellCommand
+// ---------------------------------------------------------------------------
+
+describe('parseShellCommand', () => {
+  describe('segmentation', () => {
+    const cases: [string, string[]][] = [
+      ['ls -la', ['ls -la']],
+      ['git add -A && git commit -m wip', ['git add -A', 'git commit -m wip']],
+      ['make || echo failed', ['make', 'echo failed']],
+      ['cd src; ls', ['cd src', 'ls']],
+      ['cat file | grep foo | wc -l', ['cat file', 'grep foo', 'wc -l']],
+      ['npm start &', ['npm start']],
+      ['echo one\necho two', ['echo one', 'echo two']],
+      ['(cd build && make)', ['cd build', 'make']],
+      ['if true; then rm -rf x; fi', ['if true', 'then rm -rf x']],
+      ['for f in *.ts; do echo $f; done', ['for f in *.ts', 'do echo $f']],
+      ['{ echo a; echo b; }', ['{ echo a', 'echo b']],
+      ['npm test 2>&1 | tee log', ['npm test 2>&1', 'tee log']],
+      ['', []],
+      ['   ', []],
+    ]
+
+    for (const [command, expected] of cases) {
+      it(`should split: ${JSON.stringify(command)}`, () => {
+        const texts = parseShellCommand(command).map((s) => s.text)
+        assert.deepStrictEqual(texts, expected)
+      })
+    }
+  })
+
+  describe('quoting', () => {
+    it('should not split on operators inside double quotes', () => {
+      const segments = parseShellCommand('git commit -m "fix: a && b; c | d"')
+      assert.equal(segments.length, 1)
+      assert.deepStrictEqual(segments[0].argv, ['git', 'commit', '-m', 'fix: a && b; c | d'])
+    })
+
+    it('should not split on operators inside single quotes', () => {
+      const segments = parseShellCommand("echo 'a; rm -rf /'")
+      assert.equal(segments.length, 1)
+      assert.deepStrictEqual(segments[0].argv, ['echo', 'a; rm -rf /'])
+    })
+
+    it('should join adjacent quoted and unquoted parts into one word', () => {
+      const [segment] = parseShellCommand(`r"m" -r'f' /tmp`)
+      assert.deepStrictEqual(segment.argv, ['rm', '-rf', '/tmp'])
+      assert.equal(segment.words[0].quoted, true)
+      assert.equal(segment.words[2].quoted, false)
+    })
+
+    it('should remove backslash escapes outside quotes', () => {
+      const [segment] = parseShellCommand('echo a\\ b \\; c')
+      assert.deepStrictEqual(segment.argv, ['echo', 'a b', ';', 'c'])
+    })
+
+    it('should keep escaped quotes inside double quotes', () => {
+      const [segment] = parseShellCommand('echo "say \\"hi\\""')
+      assert.deepStrictEqual(segment.argv, ['echo', 'say "hi"'])
+    })
+
+    it('should keep command substitutions as a single word', () => {
+      const [segment] = parseShellCommand('echo $(date; ls | wc -l) `a|b`')
+      assert.deepStrictEqual(segment.argv, ['echo', '$(date; ls | wc -l)', '`a|b`'])
+    })
+
+    it('should decode ANSI-C quoted strings', () => {
+      const [segment] = parseShellCommand("$'\\x72\\x6d' $'a\\tb' $'it\\'s'")
+      assert.deepStrictEqual(segment.argv, ['rm', 'a\tb', "it's"])
+    })
+
+    it('should keep process substitutions as a single word', () => {
+      const [segment] = parseShellCommand('diff <(ls a) <(ls b)')
+      assert.deepStrictEqual(segment.argv, ['diff', '<(ls a)', '<(ls b)'])
+    })
+  })
+
+  describe('line continuations and comments', () => {
+    it('should join line continuations', () => {
+      const segments = parseShellCommand('rm \\\n  -rf \\\n  build')
+      assert.equal(segments.length, 1)
+      assert.deepStrictEqual(segments[0].argv, ['rm', '-rf', 'build'])
+    })
+
+    it('should ignore comments', () => {
+      const segments = parseShellCommand('ls # && rm -rf /\necho ok')
+      assert.deepStrictEqual(segments.map((s) => s.argv), [['ls'], ['echo', 'ok']])
+    })
+
+    it('should not treat # inside a word as a comment', () => {
+      const [segment] = parseShellCommand('echo a#b')
+      assert.deepStrictEqual(segment.argv, ['echo', 'a#b'])
+    })
+  })
+
+  describe('assignments and redirections', () => {
+    it('should separate leading assignments from argv', () => {
+      const [segment] = parseShellCommand('FOO=bar BAZ="q x" node app.js')
+      assert.deepStrictEqual(segment.assignments, ['FOO=bar', 'BAZ=q x'])
+      assert.deepStrictEqual(segment.argv, ['node', 'app.js'])
+    })
+
+    it('should not treat later NAME=value words as assignments', () => {
+      const [segment] = parseShellCommand('make CC=clang')
+      assert.deepStrictEqual(segment.assignments, [])
+      assert.deepStrictEqual(segment.argv, ['make', 'CC=clang'])
+    })
+
+    it('should collect redirections with their targets', () => {
+      const [segment] = parseShellCommand('node app.js > out.log 2>&1 < in.txt')
+      assert.deepStrictEqual(segment.argv, ['node', 'app.js'])
+      assert.deepStrictEqual(segment.redirects, [
+        { op: '>', target: 'out.log' },
+        { op: '2>&', target: '1' },
+        { op: '<', target: 'in.txt' },
+      ])
+    })
+
+    it('should parse append and &> redirections', () => {
+      const [segment] = parseShellCommand('echo x >> ~/.bashrc &> /dev/null')
+      assert.deepStrictEqual(segment.redirects.map((r) => r.op), ['>>', '&>'])
+    })
+
+    it('should keep redirections in the segment text', () => {
+      const [segment] = parseShellCommand('echo x > /etc/hosts && ls')
+      assert.equal(segment.text, 'echo x > /etc/hosts')
+    })
+  })
+
+  describe('heredocs', () => {
+    it('should attach the heredoc body to its redirection', () => {
+      const segments = parseShellCommand("bash <<'EOF'\nrm -rf ~\nls\nEOF\necho after")
+      assert.deepStrictEqual(segments.map((s) => s.argv), [['bash'], ['echo', 'after']])
+      assert.deepStrictEqual(segments[0].redirects, [{ op: '<<', target: 'EOF', body: 'rm -rf ~\nls' }])
+    })
+
+    it('should strip leading tabs for <<-', () => {
+      const [segment] = parseShellCommand('cat <<-END\n\tline one\n\t\tline two\n\tEND')
+      assert.equal(segment.redirects[0].body, 'line one\nline two')
+    })
+
+    it('should read several heredocs on one line in order', () => {
+      const [segment] = parseShellCommand('cmd <<A <<B\na\nA\nb\nB')
+      assert.deepStrictEqual(segment.redirects.map((r) => r.body), ['a', 'b'])
+    })
+
+    it('should keep operators after the delimiter on the same line', () => {
+      const segments = parseShellCommand('cat <<EOF | sh && ls\nuptime\nEOF')
+      assert.deepStrictEqual(segments.map((s) => s.text), ['cat <<EOF', 'sh', 'ls'])
+      assert.equal(segments[0].redirects[0].body, 'uptime')
+    })
+
+    it('should keep here-string text as the target', () => {
+      const [segment] = parseShellCommand('sh <<< "terraform destroy"')
+      assert.deepStrictEqual(segment.redirects, [{ op: '<<<', target: 'terraform destroy' }])
+    })
+  })
+
+  describe('operators and pipelines', () => {
+    it('should record the terminating operator', () => {
+      const ops = parseShellCommand('a && b || c; d | e & f').map((s) => s.operator)
+      assert.deepStrictEqual(ops, ['&&', '||', ';', '|', '&', null])
+    })
+
+    it('should record the whole pipeline for each of its commands', () => {
+      const segments = parseShellCommand('ls && curl http://x | sh; echo done')
+      assert.deepStrictEqual(segments.map((s) => s.pipeline), [
+        'ls',
+        'curl http://x | sh',
+        'curl http://x | sh',
+        'echo done',
+      ])
+    })
+
+    it('should record the subshell depth of each command', () => {
+      const segments = parseShellCommand('a; (b && (c)); d $(e)')
+      assert.deepStrictEqual(segments.map((s) => [s.argv[0], s.depth]), [
+        ['a', 0],
+        ['b', 1],
+        ['c', 2],
+        ['d', 0],
+      ])
+    })
+  })
+})
+
+// ---------------------------------------------------------------------------
+// commandWords
+// ---------------------------------------------------------------------------
+
+describe('commandWords', () => {
+  const cases: [string, string[]][] = [
+    ['ls -la', ['ls', '-la']],
+    ['/usr/bin/git push', ['git', 'push']],
+    ['sudo rm -rf x', ['rm', '-rf', 'x']],
+    ['sudo -u root -E reboot', ['reboot']],
+    ['env -i FOO=1 BAR=2 node app.js', ['node', 'app.js']],
+    ['nohup nice -n 10 ./run.sh', ['run.sh']],
+    ['timeout -s KILL 30 npm test', ['npm', 'test']],
+    ['exec -a name sh', ['sh']],
+    ['command -v reboot', ['command', '-v', 'reboot']],
+    ['command rm file', ['rm', 'file']],
+    ['sudo', []],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should find the program in: ${command}`, () => {
+      const [segment] = parseShellCommand(command)
+      assert.deepStrictEqual(commandWords(segment), expected)
+    })
+  }
+
+  it('should keep function definitions as one word', () => {
+    const [segment] = parseShellCommand('fork() { fork|fork& }')
+    assert.deepStrictEqual(commandWords(segment), ['fork()', '{', 'fork'])
+  })
+})
+
+// ---------------------------------------------------------------------------
+// extractSubstitutions
+// ---------------------------------------------------------------------------
+
+describe('extractSubstitutions', () => {
+  const cases: [string, string[]][] = [
+    ['echo $(date)', ['date']],
+    ['echo `date` and `whoami`', ['date', 'whoami']],
+    ['echo "in quotes: $(rm -rf x)"', ['rm -rf x']],
+    ["echo 'literal $(rm -rf x)'", []],
+    ["echo \"it's $(id)\"", ['id']],
+    ['echo $(a $(b) c)', ['a $(b) c']],
+    ['echo $(printf ")")', ['printf ")"']],
+    ['diff <(sort a) <(sort b)', ['sort a', 'sort b']],
+    ['tee >(gzip > x.gz)', ['gzip > x.gz']],
+    ['echo "<(not a substitution)"', []],
+    ['echo $((1 + 2)) \\$(not)', []],
+    ['echo `echo \\`nested\\``', ['echo `nested`']],
+    ['echo $(unterminated', ['unterminated']],
+  ]
+
+  for (const [text, expected] of cases) {
+    it(`should extract from: ${text}`, () => {
+      assert.deepStrictEqual(extractSubstitutions(text), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// decodeAnsiC
+// ---------------------------------------------------------------------------
+
+describe('decodeAnsiC', () => {
+  const cases: [string, string][] = [
+    ['\\x72\\x6d', 'rm'],
+    ['\\162\\155', 'rm'],
+    ['\\0162', 'r'],
+    ['\\u00e9\\U0001F600', 'é😀'],
+    ['a\\nb\\tc', 'a\nb\tc'],
+    ['\\cA', '\x01'],
+    ["\\\\ \\' \\\"", '\\ \' "'],
+    ['\\q', '\\q'],
+    ['plain', 'plain'],
+  ]
+
+  for (const [text, expected] of cases) {
+    it(`should decode: ${text}`, () => {
+      assert.equal(decodeAnsiC(text), expected)
+    })
+  }
+})
@@ -0,0 +1,609 @@
+// ---------------------------------------------------------------------------
+// Shell lexer
+// ---------------------------------------------------------------------------
+// A small POSIX-ish lexer that understands quoting, escapes, line
+// continuations, comments, control operators and redirections. It is not a
+// full shell grammar -- it only needs to be good enough to split a tool call
+// into the simple commands it will actually run, so every step of a
+// `a && b; c | d` chain can be inspected on its own.
+// ---------------------------------------------------------------------------
+
+/** Control operators that separate simple commands */
+export type ShellOperator = ';' | '&&' | '||' | '|' | '|&' | '&' | '\n' | '(' | ')'
+
+export interface ShellWord {
+  /** Source text of the word, quotes and escapes included */
+  raw: string
+  /** Word after quote removal (expansions are left as written) */
+  value: string
+  /** True if any part of the word was quoted */
+  quoted: boolean
+}
+
+export interface ShellRedirect {
+  /** Redirection operator, e.g. `>`, `>>`, `<`, `2>`, `&>`, `<<` */
+  op: string
+  /** Redirection target after quote removal (file, fd or heredoc delimiter) */
+  target: string
+  /** Heredoc body for `<<` / `<<-` (here-strings keep their text in `target`) */
+  body?: string
+}
+
+export interface ShellSegment {
+  /** Source text of this simple command, redirections included */
+  text: string
+  /** Command words after quote removal, without assignments or redirections */
+  argv: string[]
+  /** Same as argv, with quoting information */
+  words: ShellWord[]
+  /** Leading `NAME=value` assignments */
+  assignments: string[]
+  redirects: ShellRedirect[]
+  /** Operator that terminated this command, or null at end of input */
+  operator: ShellOperator | null
+  /** Source text of the whole pipeline this command belongs to */
+  pipeline: string
+  /** Number of enclosing `( ... )` subshells */
+  depth: number
+}
+
+type Token =
+  | { type: 'word'; word: ShellWord; start: number; end: number }
+  | { type: 'op'; op: ShellOperator; start: number; end: number }
+  | { type: 'redirect'; op: string; start: number; end: number; body?: string }
+
+type RedirectToken = Extract<Token, { type: 'redirect' }>
+
+const REDIRECT_OPS = ['&>>', '<<<', '<<-', '&>', '>>', '>|', '>&', '<<', '<>', '<&', '>', '<']
+const CONTROL_OPS: ShellOperator[] = ['&&', '||', '|&', ';', '|', '&', '(', ')']
+
+/**
+ * Reserved words that are skipped when they start a command. Closing words
+ * (`fi`, `done`, `}`...) only ever appear on their own and run nothing.
+ */
+const LEADING_KEYWORDS = new Set([
+  '!', '{', '}', 'then', 'do', 'done', 'else', 'elif', 'if', 'fi', 'while', 'until', 'esac', 'time',
+])
+
+const ASSIGNMENT_RE = /^[A-Za-z_][A-Za-z0-9_]*(?:\[[^\]]*\])?\+?=/
+
+/**
+ * Scan a balanced `open ... close` construct starting at `i` (the index of
+ * the opening character) and return the index just past the closing one.
+ * Quotes and nested constructs inside are skipped over.
+ */
+function skipBalanced(src: string, i: number, open: string, close: string): number {
+  let depth = 0
+  while (i < src.length) {
+    const c = src[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === "'") {
+      const end = src.indexOf("'", i + 1)
+      i = end === -1 ? src.length : end + 1
+      continue
+    }
+    if (c === '"') {
+      i = skipDoubleQuoted(src, i + 1)
+      continue
+    }
+    if (c === '`') {
+      i = skipBacktick(src, i + 1)
+      continue
+    }
+    if (c === open) depth++
+    else if (c === close) {
+      depth--
+      if (depth === 0) return i + 1
+    }
+    i++
+  }
+  return src.length
+}
+
+/** Return the index just past the closing `"` of a string opened before `i` */
+function skipDoubleQuoted(src: string, i: number): number {
+  while (i < src.length) {
+    const c = src[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === '"') return i + 1
+    if (c === '$' && src[i + 1] === '(') {
+      i = skipBalanced(src, i + 1, '(', ')')
+      continue
+    }
+    if (c === '`') {
+      i = skipBacktick(src, i + 1)
+      continue
+    }
+    i++
+  }
+  return src.length
+}
+
+/** Return the index just past the closing backtick of one opened before `i` */
+function skipBacktick(src: string, i: number): number {
+  while (i < src.length) {
+    if (src[i] === '\\') {
+      i += 2
+      continue
+    }
+    if (src[i] === '`') return i + 1
+    i++
+  }
+  return src.length
+}
+
+/** Single-character escapes of `$'...'` strings (and `printf` / `echo -e`) */
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: '\x07', b: '\b', e: '\x1b', E: '\x1b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v',
+  '\\': '\\', "'": "'", '"': '"', '?': '?',
+}
+
+/**
+ * Decode the backslash escapes of an ANSI-C quoted string: `\n`, `\x72`,
+ * `\162` (octal), `\u00e9`, `\cA`... Unknown escapes are kept as written.
+ */
+export function decodeAnsiC(text: string): string {
+  return text.replace(
+    /\\(x[0-9a-fA-F]{1,2}|u[0-9a-fA-F]{1,4}|U[0-9a-fA-F]{1,8}|0?[0-7]{1,3}|c.|.)/gs,
+    (escape, code: string) => {
+      switch (code[0]) {
+        case 'x':
+        case 'u':
+        case 'U':
+          return String.fromCodePoint(Math.min(parseInt(code.slice(1), 16), 0x10ffff))
+        case 'c':
+          return String.fromCharCode(code.charCodeAt(1) & 0x1f)
+      }
+      if (/^[0-7]/.test(code)) return String.fromCharCode(parseInt(code, 8) & 0xff)
+      return ANSI_C_ESCAPES[code] ?? escape
+    },
+  )
+}
+
+/**
+ * Split a shell command into word, operator and redirection tokens.
+ */
+function lex(src: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  // Word currently being built
+  let raw = ''
+  let value = ''
+  let quoted = false
+  let start = -1
+
+  // Heredocs whose delimiter word is next, and those whose body starts
+  // after the next newline
+  let heredocOp: RedirectToken | null = null
+  const heredocs: { token: RedirectToken; delimiter: string }[] = []
+
+  const flush = (end: number) => {
+    if (start === -1) return
+    tokens.push({ type: 'word', word: { raw, value, quoted }, start, end })
+    if (heredocOp) {
+      heredocs.push({ token: heredocOp, delimiter: value })
+      heredocOp = null
+    }
+    raw = ''
+    value = ''
+    quoted = false
+    start = -1
+  }
+  const begin = () => {
+    if (start === -1) start = i
+  }
+
+  while (i < src.length) {
+    const c = src[i]
+
+    // Line continuation
+    if (c === '\\' && src[i + 1] === '\n') {
+      i += 2
+      continue
+    }
+
+    if (c === ' ' || c === '\t' || c === '\r') {
+      flush(i)
+      i++
+      continue
+    }
+
+    if (c === '\n') {
+      flush(i)
+      tokens.push({ type: 'op', op: '\n', start: i, end: i + 1 })
+      i++
+      // Heredoc bodies follow the line that introduced them
+      for (const { token, delimiter } of heredocs.splice(0)) {
+        const stripTabs = token.op.endsWith('<<-')
+        const lines: string[] = []
+        while (i < src.length) {
+          const nl = src.indexOf('\n', i)
+          const line = src.slice(i, nl === -1 ? src.length : nl)
+          i = nl === -1 ? src.length : nl + 1
+          const text = stripTabs ? line.replace(/^\t+/, '') : line
+          if (text === delimiter) break
+          lines.push(text)
+        }
+        token.body = lines.join('\n')
+      }
+      continue
+    }
+
+    // Comment: only at the start of a word
+    if (c === '#' && start === -1) {
+      const nl = src.indexOf('\n', i)
+      i = nl === -1 ? src.length : nl
+      continue
+    }
+
+    if (c === '\\') {
+      begin()
+      raw += src.slice(i, i + 2)
+      value += src[i + 1] ?? ''
+      i += 2
+      continue
+    }
+
+    if (c === "'") {
+      begin()
+      const end = src.indexOf("'", i + 1)
+      const stop = end === -1 ? src.length : end
+      raw += src.slice(i, stop + 1)
+      value += src.slice(i + 1, stop)
+      quoted = true
+      i = stop + 1
+      continue
+    }
+
+    if (c === '$' && src[i + 1] === "'") {
+      begin()
+      let j = i + 2
+      while (j < src.length && src[j] !== "'") j += src[j] === '\\' ? 2 : 1
+      raw += src.slice(i, j + 1)
+      value += decodeAnsiC(src.slice(i + 2, j))
+      quoted = true
+      i = j + 1
+      continue
+    }
+
+    if (c === '"') {
+      begin()
+      const end = skipDoubleQuoted(src, i + 1)
+      const body = src.slice(i + 1, src[end - 1] === '"' ? end - 1 : end)
+      raw += src.slice(i, end)
+      value += body.replace(/\\([$`"\\\n])/g, (_, ch: string) => (ch === '\n' ? '' : ch))
+      quoted = true
+      i = end
+      continue
+    }
+
+    if (c === '$' && (src[i + 1] === '(' || src[i + 1] === '{')) {
+      begin()
+      const end = src[i + 1] === '('
+        ? skipBalanced(src, i + 1, '(', ')')
+        : skipBalanced(src, i + 1, '{', '}')
+      raw += src.slice(i, end)
+      value += src.slice(i, end)
+      i = end
+      continue
+    }
+
+    if (c === '`') {
+      begin()
+      const end = skipBacktick(src, i + 1)
+      raw += src.slice(i, end)
+      value += src.slice(i, end)
+      i = end
+      continue
+    }
+
+    // Process substitution <(...) / >(...) is a single word
+    if ((c === '<' || c === '>') && src[i + 1] === '(') {
+      begin()
+      const end = skipBalanced(src, i + 1, '(', ')')
+      raw += src.slice(i, end)
+      value += src.slice(i, end)
+      i = end
+      continue
+    }
+
+    // Redirections, with an optional fd number glued to the front (2>, 1>>)
+    const redirect = REDIRECT_OPS.find((op) => src.startsWith(op, i))
+    if (redirect) {
+      let opStart = i
+      let op = redirect
+      if (start !== -1 && !quoted && /^\d+$/.test(raw)) {
+        op = raw + redirect
+        opStart = start
+        raw = ''
+        value = ''
+        start = -1
+      } else {
+        flush(i)
+      }
+      const token: RedirectToken = { type: 'redirect', op, start: opStart, end: i + redirect.length }
+      tokens.push(token)
+      if (redirect === '<<' || redirect === '<<-') heredocOp = token
+      i += redirect.length
+      continue
+    }
+
+    // Function definition `name()` -- keep the parens on the name rather
+    // than treating them as a subshell
+    const funcDef = c === '(' ? /^\(\s*\)/.exec(src.slice(i)) : null
+    if (funcDef) {
+      const last = tokens[tokens.length - 1]
+      if (start !== -1) {
+        raw += '()'
+        value += '()'
+        i += funcDef[0].length
+        continue
+      }
+      if (last && last.type === 'word' && /^[ \t]*$/.test(src.slice(last.end, i))) {
+        last.word.raw += '()'
+        last.word.value += '()'
+        last.end = i + funcDef[0].length
+        i += funcDef[0].length
+        continue
+      }
+    }
+
+    const control = CONTROL_OPS.find((op) => src.startsWith(op, i))
+    if (control) {
+      flush(i)
+      // `;;` (case terminator) behaves like `;`
+      const len = control === ';' && src[i + 1] === ';' ? 2 : control.length
+      tokens.push({ type: 'op', op: control, start: i, end: i + len })
+      i += len
+      continue
+    }
+
+    begin()
+    raw += c
+    value += c
+    i++
+  }
+  flush(src.length)
+  return tokens
+}
+
+/**
+ * Split a shell command string into its simple commands.
+ *
+ * Each segment carries its own argv (quotes removed), leading variable
+ * assignments, redirections and the exact source text it came from.
+ * Quoted operators (`echo "a && b"`) never split a command, and line
+ * continuations are joined. Compound-command keywords (`if`, `then`, `do`,
+ * `{`, `}`...) are stripped so argv[0] is the program that actually runs.
+ *
+ * Results are memoized, since every check parses the same strings again;
+ * callers must not mutate the returned segments.
+ */
+export function parseShellCommand(command: string): ShellSegment[] {
+  let segments = parseCache.get(command)
+  if (segments === undefined) {
+    if (parseCache.size >= PARSE_CACHE_SIZE) parseCache.clear()
+    segments = parse(command)
+    parseCache.set(command, segments)
+  }
+  return segments
+}
+
+const PARSE_CACHE_SIZE = 1000
+const parseCache = new Map<string, ShellSegment[]>()
+
+function parse(command: string): ShellSegment[] {
+  const tokens = lex(command)
+  const segments: ShellSegment[] = []
+
+  let words: ShellWord[] = []
+  let assignments: string[] = []
+  let redirects: ShellRedirect[] = []
+  let textStart = -1
+  let textEnd = -1
+  let depth = 0
+
+  // Commands of the pipeline currently being read, with their source offsets
+  const pipeline: { segment: ShellSegment; start: number; end: number }[] = []
+
+  const finish = (operator: ShellOperator | null) => {
+    // Drop compound-command keywords in front of the real command
+    while (words.length > 0 && !words[0].quoted && LEADING_KEYWORDS.has(words[0].value)) {
+      words.shift()
+    }
+
+    if (words.length > 0 || assignments.length > 0 || redirects.length > 0) {
+      pipeline.push({
+        segment: {
+          text: command.slice(textStart, textEnd).trim(),
+          argv: words.map((w) => w.value),
+          words,
+          assignments,
+          redirects,
+          operator,
+          pipeline: '',
+          depth,
+        },
+        start: textStart,
+        end: textEnd,
+      })
+    }
+    words = []
+    assignments = []
+    redirects = []
+    textStart = -1
+    textEnd = -1
+
+    // A pipeline ends at any operator other than a pipe
+    if (operator === '|' || operator === '|&' || pipeline.length === 0) return
+    const text = command.slice(pipeline[0].start, pipeline[pipeline.length - 1].end).trim()
+    for (const { segment } of pipeline) {
+      segment.pipeline = text
+      segments.push(segment)
+    }
+    pipeline.length = 0
+  }
+
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t]
+
+    if (token.type === 'op') {
+      finish(token.op)
+      if (token.op === '(') depth++
+      if (token.op === ')') depth = Math.max(0, depth - 1)
+      continue
+    }
+
+    if (textStart === -1) textStart = token.start
+    textEnd = token.end
+
+    if (token.type === 'redirect') {
+      const next = tokens[t + 1]
+      let target = ''
+      if (next && next.type === 'word') {
+        target = next.word.value
+        textEnd = next.end
+        t++
+      }
+      redirects.push(token.body === undefined
+        ? { op: token.op, target }
+        : { op: token.op, target, body: token.body })
+      continue
+    }
+
+    const word = token.word
+    if (words.length === 0 && ASSIGNMENT_RE.test(word.raw)) {
+      assignments.push(word.value)
+      continue
+    }
+    words.push(word)
+  }
+  finish(null)
+
+  return segments
+}
+
+// ---------------------------------------------------------------------------
+// Substitutions
+// ---------------------------------------------------------------------------
+
+/**
+ * Return the commands inside the outermost `$(...)`, backtick and
+ * `<(...)` / `>(...)` substitutions of `text`, in source order. Nested
+ * substitutions stay inside their parent's text; single-quoted text and
+ * `$((...))` arithmetic are skipped.
+ */
+export function extractSubstitutions(text: string): string[] {
+  const result: string[] = []
+  let inDouble = false
+  let i = 0
+
+  while (i < text.length) {
+    const c = text[i]
+    if (c === '\\') {
+      i += 2
+      continue
+    }
+    if (c === '"') {
+      inDouble = !inDouble
+      i++
+      continue
+    }
+    if (c === "'" && !inDouble) {
+      const end = text.indexOf("'", i + 1)
+      i = end === -1 ? text.length : end + 1
+      continue
+    }
+    if (c === '`') {
+      const end = skipBacktick(text, i + 1)
+      const inner = text.slice(i + 1, text[end - 1] === '`' ? end - 1 : end)
+      result.push(inner.replace(/\\([`$\\])/g, '$1'))
+      i = end
+      continue
+    }
+    const opensParen = text[i + 1] === '('
+    if (opensParen && (c === '$' || (!inDouble && (c === '<' || c === '>')))) {
+      const end = skipBalanced(text, i + 1, '(', ')')
+      if (c !== '$' || text[i + 2] !== '(') {
+        result.push(text.slice(i + 2, text[end - 1] === ')' ? end - 1 : end))
+      }
+      i = end
+      continue
+    }
+    i++
+  }
+  return result.map((s) => s.trim()).filter((s) => s.length > 0)
+}
+
+// ---------------------------------------------------------------------------
+// Command position
+// ---------------------------------------------------------------------------
+
+/**
+ * Commands that run the rest of their arguments as another command, with
+ * the flags that consume a separate value (`sudo -u root ...`).
+ */
+const PREFIX_COMMANDS: Record<string, ReadonlySet<string>> = {
+  sudo: new Set(['-u', '-g', '-p', '-C', '-D', '-h', '-r', '-t', '-U']),
+  doas: new Set(['-u', '-C']),
+  env: new Set(['-u', '-C', '--unset', '--chdir']),
+  nice: new Set(['-n', '--adjustment']),
+  ionice: new Set(['-c', '-n', '-p']),
+  nohup: new Set(),
+  exec: new Set(['-a']),
+  command: new Set(),
+  builtin: new Set(),
+  time: new Set(['-f', '-o']),
+  timeout: new Set(['-s', '-k', '--signal', '--kill-after']),
+  stdbuf: new Set(['-i', '-o', '-e']),
+}
+
+function baseName(p: string): string {
+  return p.slice(p.lastIndexOf('/') + 1)
+}
+
+/**
+ * Return the words of a simple command starting at the program that
+ * actually runs: prefix commands such as `sudo`, `env FOO=1`, `nohup` or
+ * `timeout 10` are skipped and the program is reduced to its basename
+ * (`/sbin/reboot` -> `reboot`).
+ */
+export function commandWords(segment: ShellSegment): string[] {
+  const argv = segment.argv
+  let i = 0
+
+  while (i < argv.length) {
+    const name = baseName(argv[i])
+    const valueFlags = PREFIX_COMMANDS[name]
+    if (!valueFlags) break
+
+    let j = i + 1
+    let lookup = false
+    while (j < argv.length && argv[j].startsWith('-') && argv[j] !== '-') {
+      if (argv[j] === '--') {
+        j++
+        break
+      }
+      if (name === 'command' && (argv[j] === '-v' || argv[j] === '-V')) lookup = true
+      j += valueFlags.has(argv[j]) ? 2 : 1
+    }
+    // `command -v foo` only looks foo up
+    if (lookup) break
+    if (name === 'env') {
+      while (j < argv.length && ASSIGNMENT_RE.test(argv[j])) j++
+    }
+    if (name === 'timeout' && j < argv.length) j++ // duration
+    i = j
+  }
+
+  const words = argv.slice(i)
+  if (words.length > 0) words[0] = baseName(words[0])
+  return words
+}
@@ -0,0 +1,167 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseShellCommand } from './shell.js'
+import { classifyMongo, classifySql, databaseSql, splitSqlStatements, tokenizeSql } from './sql.js'
+
+// ---------------------------------------------------------------------------
+// tokenizeSql / splitSqlStatements
+// ---------------------------------------------------------------------------
+
+describe('tokenizeSql', () => {
+  it('should drop comments and keep strings and quoted identifiers whole', () => {
+    const tokens = tokenizeSql(`-- DROP TABLE a\nSELECT /* DROP /* nested */ TABLE */ 'it''s; fine', "My ""Table"" ;" # x`)
+    assert.deepStrictEqual(
+      tokens.map((t) => [t.type, t.value]),
+      [['word', 'SELECT'], ['string', "it's; fine"], ['symbol', ','], ['identifier', 'My "Table" ;'], ['symbol', '#'], ['word', 'X']],
+    )
+  })
+
+  it('should read dollar-quoted and escaped strings', () => {
+    const tokens = tokenizeSql("SELECT $fn$ DELETE FROM t; $fn$, E'a\\'; b', $1")
+    assert.deepStrictEqual(
+      tokens.map((t) => [t.type, t.value]),
+      [['word', 'SELECT'], ['string', ' DELETE FROM t; '], ['symbol', ','], ['string', "a\\'; b"], ['symbol', ','], ['symbol', '$'], ['number', '1']],
+    )
+  })
+})
+
+describe('splitSqlStatements', () => {
+  const cases: [string, string[]][] = [
+    ['DELETE FROM a; DELETE FROM b;', ['DELETE FROM a', 'DELETE FROM b']],
+    ["INSERT INTO log VALUES ('a;b');;", ["INSERT INTO log VALUES ('a;b')"]],
+    ['SELECT 1\n\\i drop.sql\nSELECT 2', ['SELECT 1', 'SELECT 2']],
+    ['.tables\nDROP TABLE t', ['DROP TABLE t']],
+    ['-- only a comment', []],
+  ]
+
+  for (const [sql, expected] of cases) {
+    it(`should split ${JSON.stringify(sql)}`, () => {
+      assert.deepStrictEqual(splitSqlStatements(sql).map((s) => s.text), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// classifySql
+// ---------------------------------------------------------------------------
+
+describe('classifySql', () => {
+  const cases: [string, [string, string][]][] = [
+    ['DELETE FROM "users";', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ['delete from public.users', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ['DELETE\n  FROM users\n  WHERE 1 = 1', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ['DELETE FROM users WHERE TRUE RETURNING id', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ['DELETE FROM users WHERE id = 42', [['delete', 'SQL DELETE with WHERE clause']]],
+    ['DELETE FROM users WHERE id IN (SELECT id FROM banned)', [['delete', 'SQL DELETE with WHERE clause']]],
+    ['WITH old AS (SELECT id FROM t WHERE x) DELETE FROM t', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ['UPDATE users SET admin = true', [['unboundedUpdate', 'SQL UPDATE without WHERE clause']]],
+    ['UPDATE users SET plan = (SELECT p FROM d WHERE d.id = 1)', [['unboundedUpdate', 'SQL UPDATE without WHERE clause']]],
+    ['UPDATE users SET admin = true WHERE id = 1', []],
+    ['TRUNCATE users', [['truncate', 'SQL TRUNCATE TABLE']]],
+    ['DROP TABLE IF EXISTS "App"."Users"', [['dropData', 'SQL DROP TABLE']]],
+    ['DROP SCHEMA app CASCADE', [['dropData', 'SQL DROP SCHEMA CASCADE']]],
+    ['DROP VIEW active_users', [['drop', 'SQL DROP VIEW']]],
+    ['DROP MATERIALIZED VIEW stats', [['drop', 'SQL DROP MATERIALIZED VIEW']]],
+    ['DROP TYPE mood CASCADE', [['dropData', 'SQL DROP TYPE CASCADE']]],
+    ['ALTER TABLE users DROP COLUMN email', [['dropData', 'SQL ALTER TABLE DROP COLUMN']]],
+    ['ALTER TABLE users DROP email', [['dropData', 'SQL ALTER TABLE DROP COLUMN']]],
+    ['ALTER TABLE users DROP CONSTRAINT users_pkey', [['drop', 'SQL ALTER TABLE DROP CONSTRAINT']]],
+    ['ALTER TABLE users ALTER COLUMN email DROP NOT NULL', []],
+    ['GRANT ALL PRIVILEGES ON ALL TABLES IN SCHEMA public TO app', [['privilege', 'SQL GRANT ALL']]],
+    ['REVOKE SELECT ON users FROM reporting', [['privilege', 'SQL REVOKE']]],
+    ["CREATE USER 'admin'@'%' IDENTIFIED BY 'x'", [['privilege', 'SQL CREATE USER']]],
+    ['ALTER ROLE app SUPERUSER', [['privilege', 'SQL ALTER ROLE']]],
+    ['EXPLAIN DELETE FROM users', []],
+    ['EXPLAIN ANALYZE DELETE FROM users', [['unboundedDelete', 'SQL DELETE without WHERE clause']]],
+    ["SELECT * FROM audit WHERE action = 'DROP TABLE users'", []],
+    ['-- DELETE FROM users;\nSELECT 1', []],
+    ['BEGIN; DELETE FROM a WHERE id = 1; DROP TABLE b; COMMIT', [['delete', 'SQL DELETE with WHERE clause'], ['dropData', 'SQL DROP TABLE']]],
+  ]
+
+  for (const [sql, expected] of cases) {
+    it(`should classify ${JSON.stringify(expected.map(([c]) => c))}: ${sql}`, () => {
+      assert.deepStrictEqual(classifySql(sql).map(({ verdict }) => [verdict.category, verdict.reason]), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// classifyMongo
+// ---------------------------------------------------------------------------
+
+describe('classifyMongo', () => {
+  const cases: [string, [string, string, string][]][] = [
+    ['db.dropDatabase()', [['dropData', 'MongoDB dropDatabase', 'db.dropDatabase()']]],
+    ['db.users.drop(); db.getCollection("logs").drop()', [
+      ['dropData', 'MongoDB drop collection', 'db.users.drop()'],
+      ['dropData', 'MongoDB drop collection', '.drop()'],
+    ]],
+    ['db.users.deleteMany({ })', [['unboundedDelete', 'MongoDB deleteMany without filter', 'db.users.deleteMany({ })']]],
+    ['db.users.remove()', [['unboundedDelete', 'MongoDB remove without filter', 'db.users.remove()']]],
+    ['db.users.deleteMany({ plan: "free" })', [['delete', 'MongoDB deleteMany with filter', 'db.users.deleteMany({ plan: "free" })']]],
+    ['db.users.updateMany({}, { $set: { admin: true } })', [
+      ['unboundedUpdate', 'MongoDB updateMany without filter', 'db.users.updateMany({}, { $set: { admin: true } })'],
+    ]],
+    ['db.users.updateMany({ id: 1 }, { $set: { admin: true } })', []],
+    ['db.createUser({ user: "x", pwd: "y", roles: [] })', [['privilege', 'MongoDB createUser', 'db.createUser({ user: "x", pwd: "y", roles: [] })']]],
+    ['db.users.find({}).count()', []],
+  ]
+
+  for (const [script, expected] of cases) {
+    it(`should classify ${JSON.stringify(expected.map(([c]) => c))}: ${script}`, () => {
+      assert.deepStrictEqual(classifyMongo(script).map(({ statement, verdict }) => [verdict.category, verdict.reason, statement.text]), expected)
+    })
+  }
+})
+
+// ---------------------------------------------------------------------------
+// databaseSql
+// ---------------------------------------------------------------------------
+
+describe('databaseSql', () => {
+  let dir: string
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dc-sql-'))
+    writeFileSync(join(dir, 'reset.sql'), 'DROP TABLE users;')
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  /** [from, sql] of every source in `command` */
+  const sources = (command: string) => {
+    const segments = parseShellCommand(command)
+    return segments.flatMap((_, i) => databaseSql(segments, i, dir).map((s) => [s.from, s.sql]))
+  }
+
+  const cases: [string, string[][]][] = [
+    ['psql -h db -U app -c "DELETE FROM users"', [['-c', 'DELETE FROM users']]],
+    ['psql --command="SELECT 1" app', [['--command', 'SELECT 1']]],
+    ['psql -d app -f reset.sql', [['reset.sql', 'DROP TABLE users;']]],
+    ['psql app < reset.sql', [['reset.sql', 'DROP TABLE users;']]],
+    ['psql -p 5433 app -f missing.sql', []],
+    ['mysql -uroot -psecret -e "TRUNCATE t" app', [['-e', 'TRUNCATE t']]],
+    ['mariadb --execute="DROP DATABASE app"', [['--execute', 'DROP DATABASE app']]],
+    ['sqlite3 -cmd ".mode csv" app.db "DELETE FROM t"', [['-cmd', '.mode csv'], ['argument', 'DELETE FROM t']]],
+    ['sqlite3 app.db', []],
+    ['duckdb -c "DROP TABLE t"', [['-c', 'DROP TABLE t']]],
+    ['clickhouse-client --query "TRUNCATE TABLE events"', [['--query', 'TRUNCATE TABLE events']]],
+    ['clickhouse client -q "DROP TABLE events"', [['-q', 'DROP TABLE events']]],
+    ['psql app <<SQL\nDELETE FROM users;\nSQL', [['stdin', 'DELETE FROM users;']]],
+    ['psql app <<< "DROP TABLE t"', [['stdin', 'DROP TABLE t']]],
+    ['echo "DROP TABLE t;" | psql app', [['stdin', 'DROP TABLE t;']]],
+    ['cat reset.sql | sqlite3 app.db', [['stdin', 'DROP TABLE users;']]],
+    ['sudo -u postgres psql -c "GRANT ALL ON t TO x"', [['-c', 'GRANT ALL ON t TO x']]],
+    ['mongosh --eval "db.dropDatabase()"', [['--eval', 'db.dropDatabase()']]],
+    ['mongo app -f reset.sql --quiet', [['reset.sql', 'DROP TABLE users;']]],
+  ]
+
+  for (const [command, expected] of cases) {
+    it(`should extract ${JSON.stringify(expected)}: ${command}`, () => {
+      assert.deepStrictEqual(sources(command), expected)
+    })
+  }
+})
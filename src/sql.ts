@@ -0,0 +1,528 @@
+import { readFileSync, statSync } from 'node:fs'
+import { resolve } from 'node:path'
+import { commandWords, type ShellSegment } from './shell.js'
+import { expandHome, type Action } from './patterns.js'
+import { MAX_SCRIPT_BYTES } from './scripts.js'
+
+// ---------------------------------------------------------------------------
+// SQL inspection
+// ---------------------------------------------------------------------------
+// The SQL a database client runs -- from its options (psql -c, mysql -e,
+// clickhouse-client --query), its arguments (sqlite3 db "..."), the files
+// it reads (psql -f, < schema.sql) or its stdin (heredocs, echo ... |) --
+// is tokenized with comments, strings and quoted identifiers understood,
+// split into statements and each statement classified. mongosh scripts
+// (--eval, -f) are classified by the methods they call. Every category has
+// its own action:
+//   unboundedDelete = DELETE without WHERE (or WHERE 1=1)    block
+//   unboundedUpdate = UPDATE without WHERE                   block
+//   truncate        = TRUNCATE                               block
+//   dropData        = DROP DATABASE/SCHEMA/TABLE, DROP ... CASCADE,
+//                     ALTER TABLE ... DROP COLUMN            block
+//   drop            = DROP of any other object (view, index) ask
+//   delete          = DELETE with a WHERE clause             ask
+//   privilege       = GRANT, REVOKE, CREATE/ALTER/DROP USER or ROLE  ask
+// ---------------------------------------------------------------------------
+
+export type SqlCategory =
+  | 'unboundedDelete'
+  | 'unboundedUpdate'
+  | 'truncate'
+  | 'dropData'
+  | 'drop'
+  | 'delete'
+  | 'privilege'
+
+/** Action for each category; null lets its statements through */
+export type SqlActions = Record<SqlCategory, Action | null>
+
+export const DEFAULT_SQL_ACTIONS: SqlActions = {
+  unboundedDelete: 'block',
+  unboundedUpdate: 'block',
+  truncate: 'block',
+  dropData: 'block',
+  drop: 'ask',
+  delete: 'ask',
+  privilege: 'ask',
+}
+
+export interface SqlToken {
+  /** `identifier` is a quoted identifier; `word` a keyword or bare name */
+  type: 'word' | 'identifier' | 'string' | 'number' | 'symbol'
+  /** Source text */
+  text: string
+  /** Words upper-cased, identifiers and strings without their quotes */
+  value: string
+  start: number
+  end: number
+}
+
+export interface SqlStatement {
+  /** Source text, comments inside it included */
+  text: string
+  tokens: SqlToken[]
+}
+
+export interface SqlVerdict {
+  category: SqlCategory
+  /** Headline: `SQL DROP TABLE`, `SQL UPDATE without WHERE clause` */
+  reason: string
+}
+
+/** SQL a database client runs */
+export interface SqlSource {
+  /** Database client */
+  program: string
+  /** Where the SQL came from: the option (`-c`), `argument`, `stdin` or the file read */
+  from: string
+  sql: string
+  /** `mongo` for the JavaScript mongosh runs */
+  language: 'sql' | 'mongo'
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+const WORD_RE = /[A-Za-z_][\w$]*/y
+const NUMBER_RE = /\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+/iy
+const DOLLAR_TAG_RE = /\$(?:[A-Za-z_]\w*)?\$/y
+/** `E'...'` (backslash escapes), `N'...'`, `B'...'`, `X'...'` */
+const PREFIXED_STRING_RE = /[EeNnBbXx]'/y
+
+/** Index after the quote that closes the one at `i`; a doubled quote escapes it */
+function closeQuote(sql: string, i: number, quote: string, backslash: boolean): number {
+  for (let j = i + 1; j < sql.length; j++) {
+    if (backslash && sql[j] === '\\') j++
+    else if (sql[j] === quote) {
+      if (sql[j + 1] !== quote) return j + 1
+      j++
+    }
+  }
+  return sql.length
+}
+
+/** Index after the `*\/` that closes the (nested) comment at `i` */
+function closeComment(sql: string, i: number): number {
+  let depth = 0
+  for (let j = i; j < sql.length - 1; j++) {
+    if (sql[j] === '/' && sql[j + 1] === '*') {
+      depth++
+      j++
+    } else if (sql[j] === '*' && sql[j + 1] === '/') {
+      j++
+      if (--depth === 0) return j + 1
+    }
+  }
+  return sql.length
+}
+
+function endOfLine(sql: string, i: number): number {
+  const eol = sql.indexOf('\n', i)
+  return eol < 0 ? sql.length : eol
+}
+
+const atLineStart = (sql: string, i: number) => /^[ \t]*$/.test(sql.slice(sql.lastIndexOf('\n', i - 1) + 1, i))
+
+/**
+ * Split SQL into tokens. Comments (`--`, nested `/* *\/`, `#` at the
+ * start of a line) are dropped. Client meta-commands at the start of a
+ * line (psql `\i`, sqlite `.read`) become a `;` token: they end the
+ * statement before them.
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  const push = (type: SqlToken['type'], start: number, end: number, value = sql.slice(start, end)) => {
+    tokens.push({ type, text: sql.slice(start, end), value, start, end })
+  }
+  const sticky = (re: RegExp, i: number) => {
+    re.lastIndex = i
+    return re.exec(sql)?.[0] ?? null
+  }
+
+  let i = 0
+  while (i < sql.length) {
+    const c = sql[i]
+    const next = sql[i + 1]
+    if (/\s/.test(c)) {
+      i++
+    } else if ((c === '-' && next === '-') || (c === '#' && atLineStart(sql, i))) {
+      i = endOfLine(sql, i)
+    } else if (c === '/' && next === '*') {
+      i = closeComment(sql, i)
+    } else if ((c === '\\' || (c === '.' && /[a-z]/i.test(next ?? ''))) && atLineStart(sql, i)) {
+      const end = endOfLine(sql, i)
+      push('symbol', i, end, ';')
+      i = end
+    } else if (c === "'" || sticky(PREFIXED_STRING_RE, i)) {
+      const open = sql.indexOf("'", i)
+      const end = closeQuote(sql, open, "'", c === 'E' || c === 'e')
+      push('string', i, end, sql.slice(open + 1, end - 1).replace(/''/g, "'"))
+      i = end
+    } else if (c === '"' || c === '`') {
+      const end = closeQuote(sql, i, c, false)
+      push('identifier', i, end, sql.slice(i + 1, end - 1).replaceAll(c + c, c))
+      i = end
+    } else if (c === '$' && sticky(DOLLAR_TAG_RE, i)) {
+      const tag = sticky(DOLLAR_TAG_RE, i)!
+      const close = sql.indexOf(tag, i + tag.length)
+      const end = close < 0 ? sql.length : close + tag.length
+      push('string', i, end, sql.slice(i + tag.length, close < 0 ? end : close))
+      i = end
+    } else if (sticky(NUMBER_RE, i)) {
+      const end = i + sticky(NUMBER_RE, i)!.length
+      push('number', i, end)
+      i = end
+    } else if (sticky(WORD_RE, i)) {
+      const end = i + sticky(WORD_RE, i)!.length
+      push('word', i, end, sql.slice(i, end).toUpperCase())
+      i = end
+    } else {
+      push('symbol', i, i + 1)
+      i++
+    }
+  }
+  return tokens
+}
+
+/** Split SQL into its statements at `;` (empty statements are dropped) */
+export function splitSqlStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = []
+  let tokens: SqlToken[] = []
+  const flush = () => {
+    if (tokens.length > 0) {
+      statements.push({ text: sql.slice(tokens[0].start, tokens[tokens.length - 1].end), tokens })
+    }
+    tokens = []
+  }
+  for (const token of tokenizeSql(sql)) {
+    if (token.type === 'symbol' && token.value === ';') flush()
+    else tokens.push(token)
+  }
+  flush()
+  return statements
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+/** Objects whose drop loses data */
+const DATA_OBJECTS: ReadonlySet<string> = new Set(['DATABASE', 'SCHEMA', 'TABLE', 'KEYSPACE', 'TABLESPACE'])
+/** Objects whose creation or drop changes who may do what */
+const PRINCIPALS: ReadonlySet<string> = new Set(['USER', 'ROLE', 'GROUP', 'LOGIN'])
+/** Words that qualify the object a DROP names (`DROP MATERIALIZED VIEW`) */
+const OBJECT_QUALIFIERS: ReadonlySet<string> = new Set(['MATERIALIZED', 'FOREIGN', 'TEMPORARY', 'TEMP', 'UNLOGGED'])
+/** What ALTER TABLE ... DROP removes, other than a column */
+const TABLE_PARTS: ReadonlySet<string> = new Set(['CONSTRAINT', 'INDEX', 'KEY', 'PRIMARY', 'FOREIGN', 'CHECK', 'PARTITION', 'TRIGGER'])
+/** ALTER ... DROP clauses that only remove a property (`DROP DEFAULT`) */
+const TABLE_PROPERTIES: ReadonlySet<string> = new Set(['DEFAULT', 'NOT', 'IDENTITY', 'EXPRESSION', 'SYSTEM'])
+/** Statements a WITH clause can lead into */
+const DML: ReadonlySet<string> = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE'])
+/** Clauses that end a WHERE condition */
+const AFTER_WHERE: ReadonlySet<string> = new Set(['RETURNING', 'ORDER', 'LIMIT', 'OPTION'])
+
+/** The statement's tokens outside parentheses */
+function topLevel(tokens: readonly SqlToken[]): SqlToken[] {
+  const top: SqlToken[] = []
+  let depth = 0
+  for (const token of tokens) {
+    if (token.type === 'symbol' && token.value === '(') depth++
+    else if (token.type === 'symbol' && token.value === ')') depth = Math.max(0, depth - 1)
+    else if (depth === 0) top.push(token)
+  }
+  return top
+}
+
+const keyword = (token: SqlToken | undefined) => (token?.type === 'word' ? token.value : '')
+
+/** A WHERE condition every row meets: `1`, `TRUE`, `1=1`, `'a' = 'a'` */
+function alwaysTrue(condition: readonly SqlToken[]): boolean {
+  if (condition.length === 1) return keyword(condition[0]) === 'TRUE' || condition[0].text === '1'
+  if (condition.length !== 3 || condition[1].text !== '=') return false
+  const [a, , b] = condition
+  return a.type === b.type && (a.type === 'number' || a.type === 'string') && a.value === b.value
+}
+
+/** Whether a DELETE or UPDATE has a WHERE clause that limits the rows it touches */
+function bounded(tokens: readonly SqlToken[], top: readonly SqlToken[]): boolean {
+  const where = top.find((t) => keyword(t) === 'WHERE')
+  if (!where) return false
+  const end = top.find((t) => t.start > where.start && AFTER_WHERE.has(keyword(t)))
+  return !alwaysTrue(tokens.filter((t) => t.start > where.start && (!end || t.start < end.start)))
+}
+
+/** Classify one statement; null when it is none of the categories */
+export function classifyStatement(statement: SqlStatement): SqlVerdict | null {
+  const { tokens } = statement
+  const top = topLevel(tokens)
+  let start = 0
+  if (keyword(top[0]) === 'EXPLAIN') {
+    // Only EXPLAIN ANALYZE runs the statement
+    if (!tokens.slice(1, 4).some((t) => keyword(t) === 'ANALYZE')) return null
+    start = top.findIndex((t, i) => i > 0 && DML.has(keyword(t)))
+  } else if (keyword(top[0]) === 'WITH') {
+    start = top.findIndex((t) => DML.has(keyword(t)))
+  }
+  if (start < 0) return null
+  const words = top.slice(start).map(keyword)
+  const [verb, object] = words
+
+  switch (verb) {
+    case 'DELETE':
+      return bounded(tokens, top)
+        ? { category: 'delete', reason: 'SQL DELETE with WHERE clause' }
+        : { category: 'unboundedDelete', reason: 'SQL DELETE without WHERE clause' }
+    case 'UPDATE':
+      return bounded(tokens, top) ? null : { category: 'unboundedUpdate', reason: 'SQL UPDATE without WHERE clause' }
+    case 'TRUNCATE':
+      return { category: 'truncate', reason: 'SQL TRUNCATE TABLE' }
+    case 'GRANT':
+      return { category: 'privilege', reason: object === 'ALL' ? 'SQL GRANT ALL' : 'SQL GRANT' }
+    case 'REVOKE':
+      return { category: 'privilege', reason: 'SQL REVOKE' }
+    case 'CREATE':
+      return PRINCIPALS.has(object) ? { category: 'privilege', reason: `SQL CREATE ${object}` } : null
+    case 'SET':
+      return object === 'PASSWORD' ? { category: 'privilege', reason: 'SQL SET PASSWORD' } : null
+    case 'DROP': {
+      const name = OBJECT_QUALIFIERS.has(object) ? `${object} ${words[2]}` : object
+      const reason = `SQL DROP ${name}`
+      if (PRINCIPALS.has(name)) return { category: 'privilege', reason }
+      if (words.includes('CASCADE')) return { category: 'dropData', reason: `${reason} CASCADE` }
+      return { category: DATA_OBJECTS.has(name) ? 'dropData' : 'drop', reason }
+    }
+    case 'ALTER': {
+      if (PRINCIPALS.has(object) || object === 'DEFAULT') return { category: 'privilege', reason: `SQL ALTER ${object}` }
+      if (object !== 'TABLE') return null
+      // ALTER TABLE t DROP [COLUMN] c, DROP CONSTRAINT k, ALTER COLUMN c DROP DEFAULT
+      let found: SqlVerdict | null = null
+      for (const [i, word] of words.entries()) {
+        if (word !== 'DROP' || TABLE_PROPERTIES.has(words[i + 1])) continue
+        if (!TABLE_PARTS.has(words[i + 1])) return { category: 'dropData', reason: 'SQL ALTER TABLE DROP COLUMN' }
+        found = { category: 'drop', reason: `SQL ALTER TABLE DROP ${words[i + 1]}` }
+      }
+      return found
+    }
+    default:
+      return null
+  }
+}
+
+/** Classify every statement of `sql`, skipping those in no category */
+export function classifySql(sql: string): { statement: SqlStatement; verdict: SqlVerdict }[] {
+  return splitSqlStatements(sql).flatMap((statement) => {
+    const verdict = classifyStatement(statement)
+    return verdict ? [{ statement, verdict }] : []
+  })
+}
+
+// ---------------------------------------------------------------------------
+// mongosh
+// ---------------------------------------------------------------------------
+
+/** A method call: what it is called on, the method and an empty first argument (`{}` or none) */
+const MONGO_CALL_RE = /([\w$.]*)\.(\w+)\s*\(\s*(\{\s*\}\s*[,)]|\))?/g
+
+/** Methods that change who may do what */
+const MONGO_PRIVILEGE: ReadonlySet<string> = new Set([
+  'createUser', 'updateUser', 'dropUser', 'dropAllUsers', 'createRole', 'dropRole', 'dropAllRoles',
+  'grantRolesToUser', 'revokeRolesFromUser',
+])
+
+function mongoVerdict(method: string, unfiltered: boolean): SqlVerdict | null {
+  switch (method) {
+    case 'dropDatabase':
+      return { category: 'dropData', reason: 'MongoDB dropDatabase' }
+    case 'drop':
+      return { category: 'dropData', reason: 'MongoDB drop collection' }
+    case 'deleteMany':
+    case 'remove':
+      return unfiltered
+        ? { category: 'unboundedDelete', reason: `MongoDB ${method} without filter` }
+        : { category: 'delete', reason: `MongoDB ${method} with filter` }
+    case 'deleteOne':
+    case 'findOneAndDelete':
+      return { category: 'delete', reason: `MongoDB ${method}` }
+    case 'updateMany':
+      return unfiltered ? { category: 'unboundedUpdate', reason: 'MongoDB updateMany without filter' } : null
+    default:
+      return MONGO_PRIVILEGE.has(method) ? { category: 'privilege', reason: `MongoDB ${method}` } : null
+  }
+}
+
+/** `script` from `start` to the parenthesis closing the one at `open` */
+function callText(script: string, start: number, open: number): string {
+  let depth = 0
+  for (let i = open; i < script.length; i++) {
+    if (script[i] === '(') depth++
+    else if (script[i] === ')' && --depth === 0) return script.slice(start, i + 1)
+  }
+  return script.slice(start)
+}
+
+/**
+ * Classify the destructive method calls of a mongosh script into the SQL
+ * categories: `db.dropDatabase()` and `db.users.drop()` drop data,
+ * `deleteMany({})` is a delete without WHERE, `updateMany({}, ...)` an
+ * update without WHERE and `createUser` / `grantRolesToUser` privilege
+ * changes.
+ */
+export function classifyMongo(script: string): { statement: { text: string }; verdict: SqlVerdict }[] {
+  const results: { statement: { text: string }; verdict: SqlVerdict }[] = []
+  for (const m of script.matchAll(MONGO_CALL_RE)) {
+    const verdict = mongoVerdict(m[2], m[3] !== undefined)
+    if (verdict) results.push({ statement: { text: callText(script, m.index, m.index + m[0].indexOf('(')) }, verdict })
+  }
+  return results
+}
+
+// ---------------------------------------------------------------------------
+// Database clients
+// ---------------------------------------------------------------------------
+
+/** A client's options: which take a value, and which values are SQL or SQL files */
+interface ClientOptions {
+  /** Options (with their dashes) whose value is SQL */
+  sql: ReadonlySet<string>
+  /** Options whose value is a file of SQL */
+  files: ReadonlySet<string>
+  /** Other options that take a value */
+  values: ReadonlySet<string>
+  /** Operands from this index on are SQL (sqlite3 db "..."); none when unset */
+  sqlOperands?: number
+  /** The client runs mongosh JavaScript rather than SQL */
+  mongo?: boolean
+}
+
+const options = (sql: string[], files: string[], values: string[], sqlOperands?: number): ClientOptions => ({
+  sql: new Set(sql),
+  files: new Set(files),
+  values: new Set(values),
+  sqlOperands,
+})
+
+/** sqlite3 and duckdb take single-dash long options */
+const SQLITE_VALUES = ['-separator', '-newline', '-nullvalue', '-vfs', '-mmap', '-maxsize', '-lookaside', '-pagecache', '-heap']
+
+const CLIENTS: Record<string, ClientOptions> = {
+  psql: options(
+    ['-c', '--command'],
+    ['-f', '--file'],
+    [
+      '-d', '--dbname', '-h', '--host', '-L', '--log-file', '-o', '--output', '-p', '--port', '-P', '--pset',
+      '-R', '--record-separator', '-T', '--table-attr', '-U', '--username', '-v', '--set', '--variable',
+      '-F', '--field-separator',
+    ],
+  ),
+  mysql: options(
+    ['-e', '--execute'],
+    [],
+    ['-D', '--database', '-h', '--host', '-u', '--user', '-P', '--port', '-S', '--socket', '--defaults-file', '--login-path'],
+  ),
+  sqlite3: options(['-cmd'], ['-init'], SQLITE_VALUES, 1),
+  duckdb: options(['-c', '-s', '-cmd'], ['-f', '-init'], SQLITE_VALUES, 1),
+  'clickhouse-client': options(
+    ['-q', '--query'],
+    ['--queries-file'],
+    ['-h', '--host', '--port', '-u', '--user', '--password', '-d', '--database', '-f', '--format', '-c', '--config-file'],
+  ),
+}
+CLIENTS.mongosh = {
+  ...options(
+    ['--eval'],
+    ['-f', '--file'],
+    ['--host', '--port', '-u', '--username', '-p', '--password', '--authenticationDatabase', '--tlsCAFile'],
+  ),
+  mongo: true,
+}
+CLIENTS.mongo = CLIENTS.mongosh
+CLIENTS.mariadb = CLIENTS.mysql
+CLIENTS.sqlite = CLIENTS.sqlite3
+CLIENTS['clickhouse-local'] = CLIENTS['clickhouse-client']
+
+/** Single-dash long options: `-cmd` is one option, not `-c -m -d` */
+const SINGLE_DASH: ReadonlySet<string> = new Set(['sqlite3', 'sqlite', 'duckdb'])
+
+function readSql(file: string, directory: string): string | null {
+  if (file === '-') return null
+  const path = resolve(directory, expandHome(file))
+  try {
+    return statSync(path).size > MAX_SCRIPT_BYTES ? null : readFileSync(path, 'utf-8')
+  } catch {
+    return null
+  }
+}
+
+/** The database client `segment` runs and its arguments, if it runs one */
+function databaseClient(segment: ShellSegment): { program: string; args: string[] } | null {
+  const [program = '', ...args] = commandWords(segment)
+  if (program === 'clickhouse' && (args[0] === 'client' || args[0] === 'local')) {
+    return { program: `clickhouse-${args[0]}`, args: args.slice(1) }
+  }
+  return CLIENTS[program] ? { program, args } : null
+}
+
+/** The text `segment` writes to a pipe: echo and printf arguments, files cat prints */
+function pipedText(segment: ShellSegment, directory: string): string[] {
+  const [program, ...args] = commandWords(segment)
+  const operands = args.filter((a) => !/^-[a-zA-Z]+$/.test(a))
+  if (program === 'echo' || program === 'printf') return [operands.join(' ')]
+  if (program === 'cat') return operands.flatMap((file) => readSql(file, directory) ?? [])
+  return []
+}
+
+/**
+ * The SQL the database client of `segments[index]` runs, resolving files
+ * against `directory`. A client's stdin is its heredocs and here-strings,
+ * the file redirected into it, or what the previous step of a pipeline
+ * prints (`echo "..." | psql`, `cat schema.sql | sqlite3 app.db`). Files
+ * larger than MAX_SCRIPT_BYTES are not read. For mongosh the sources are
+ * JavaScript (`language: 'mongo'`).
+ */
+export function databaseSql(segments: readonly ShellSegment[], index: number, directory: string): SqlSource[] {
+  const segment = segments[index]
+  const client = databaseClient(segment)
+  if (!client) return []
+  const { program, args } = client
+  const known = CLIENTS[program]
+  const sources: SqlSource[] = []
+  const language = known.mongo ? 'mongo' : 'sql'
+  const add = (from: string, sql: string | null) => {
+    if (sql?.trim()) sources.push({ program, from, sql, language })
+  }
+
+  const operands: string[] = []
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    // mysql -pSECRET: the password is attached, never the next argument
+    if (/^-p/.test(arg) && CLIENTS[program] === CLIENTS.mysql) continue
+    const long = arg.startsWith('--') || SINGLE_DASH.has(program)
+    const eq = long ? arg.indexOf('=') : -1
+    const flag = eq > 0 ? arg.slice(0, eq) : long || arg.length <= 2 ? arg : arg.slice(0, 2)
+    if (!arg.startsWith('-') || arg === '-') {
+      operands.push(arg)
+      continue
+    }
+    const takesValue = known.sql.has(flag) || known.files.has(flag) || known.values.has(flag)
+    if (!takesValue) continue
+    const value = eq > 0 ? arg.slice(eq + 1) : flag !== arg ? arg.slice(2) : args[++i]
+    if (value === undefined) break
+    if (known.sql.has(flag)) add(flag, value)
+    else if (known.files.has(flag)) add(value, readSql(value, directory))
+  }
+  if (known.sqlOperands !== undefined) {
+    for (const operand of operands.slice(known.sqlOperands)) add('argument', operand)
+  }
+
+  for (const redirect of segment.redirects) {
+    if (redirect.op.endsWith('<<<')) add('stdin', redirect.target)
+    else if (redirect.body !== undefined) add('stdin', redirect.body)
+    else if (/^0?<$/.test(redirect.op)) add(redirect.target, readSql(redirect.target, directory))
+  }
+  const previous = segments[index - 1]
+  if (previous?.operator === '|' || previous?.operator === '|&') {
+    for (const text of pipedText(previous, directory)) add('stdin', text)
+  }
+  return sources
+}
@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_TOOL_ARGS, extractToolTargets } from './tools.js'
+
+// ---------------------------------------------------------------------------
+// extractToolTargets
+// ---------------------------------------------------------------------------
+
+describe('extractToolTargets', () => {
+  const cases: [string, Record<string, unknown>, [string, string][]][] = [
+    ['bash', { command: 'ls -la', description: 'List files' }, [['command', 'ls -la']]],
+    ['read', { filePath: '.env', offset: 10 }, [['read', '.env']]],
+    ['list', { path: '~/.ssh', ignore: ['*.pub'] }, [['read', '~/.ssh']]],
+    ['grep', { pattern: 'aws_secret', path: '~/.aws' }, [['read', '~/.aws']]],
+    ['grep', { pattern: 'BEGIN', path: 'certs', include: '*.pem' }, [['read', 'certs'], ['read', 'certs/*.pem']]],
+    ['grep', { pattern: 'BEGIN', include: '*.pem' }, [['read', '*.pem']]],
+    ['grep', { pattern: 'x', path: 'src', include: '/etc/*.conf' }, [['read', 'src'], ['read', '/etc/*.conf']]],
+    ['glob', { pattern: '**/*.pem' }, [['read', '**/*.pem']]],
+    ['glob', { pattern: '*.json', path: '~/.docker' }, [['read', '~/.docker'], ['read', '~/.docker/*.json']]],
+    ['glob', { pattern: '~/.kube/*', path: 'src' }, [['read', 'src'], ['read', '~/.kube/*']]],
+    [
+      'multiedit',
+      { filePath: 'a.ts', edits: [{ filePath: 'a.ts', oldString: 'x' }, { filePath: 'dist/b.js' }, { oldString: 'y' }] },
+      [['write', 'a.ts'], ['write', 'a.ts'], ['write', 'dist/b.js']],
+    ],
+    ['edit', { filePath: 42 }, []],
+    ['webfetch', { url: 'https://example.com', format: 'markdown' }, [['url', 'https://example.com']]],
+    ['todowrite', { todos: [] }, []],
+  ]
+
+  for (const [tool, args, expected] of cases) {
+    it(`should extract from ${tool} ${JSON.stringify(args)}`, () => {
+      const targets = extractToolTargets(tool, args, DEFAULT_TOOL_ARGS)
+      assert.deepStrictEqual(targets.map((t) => [t.role, t.value]), expected)
+    })
+  }
+
+  it('should read every string of an array argument', () => {
+    const tools = { sync: { files: 'delete' as const } }
+    const targets = extractToolTargets('sync', { files: ['a', 7, 'b'] }, tools)
+    assert.deepStrictEqual(targets, [
+      { arg: 'files', role: 'delete', value: 'a' },
+      { arg: 'files', role: 'delete', value: 'b' },
+    ])
+  })
+})
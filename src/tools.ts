@@ -0,0 +1,90 @@
+import { isAbsolute, join } from 'node:path'
+
+// ---------------------------------------------------------------------------
+// Tool arguments
+// ---------------------------------------------------------------------------
+// Which arguments of which tool name files, commands or URLs, and what the tool
+// does with them. Every tool call is checked through this map, so a new
+// tool only needs an entry here (or under "tools" in the config):
+//   read    = read or listed (zeroAccess blocks)
+//   write   = created or modified (zeroAccess, readOnly block)
+//   delete  = removed (every level blocks)
+//   command = a shell command, checked like a bash call
+//   patch   = a patch (apply_patch envelope or unified diff); every file it
+//             touches is checked as read, written or deleted, and its added
+//             lines are scanned for secrets
+//   content = text written into a file, scanned for secrets
+//   url     = a URL fetched, checked against the egress policy
+//   sql     = SQL run against a database, each statement classified
+// ---------------------------------------------------------------------------
+
+export type ArgRole = 'read' | 'write' | 'delete' | 'command' | 'patch' | 'content' | 'url' | 'sql'
+
+/**
+ * How one argument is used. `base` names the argument holding the
+ * directory a glob argument is relative to (grep's `include` under `path`).
+ */
+export type ArgSpec = ArgRole | { role: ArgRole; base: string }
+
+/**
+ * Tool name -> argument -> spec. An argument may be a string or an array
+ * of strings; `edits[].filePath` names a field of each item of an array
+ * (`edits.filePath` works the same).
+ */
+export type ToolArgMap = Record<string, Record<string, ArgSpec>>
+
+/** OpenCode core tools, plus names other hosts use for the same tools */
+export const DEFAULT_TOOL_ARGS: ToolArgMap = {
+  bash: { command: 'command' },
+  shell: { command: 'command' },
+  cmd: { command: 'command' },
+  read: { filePath: 'read' },
+  list: { path: 'read' },
+  glob: { filePath: 'read', path: 'read', pattern: { role: 'read', base: 'path' } },
+  grep: { filePath: 'read', path: 'read', include: { role: 'read', base: 'path' } },
+  edit: { filePath: 'write', newString: 'content' },
+  write: { filePath: 'write', content: 'content' },
+  create: { filePath: 'write', content: 'content' },
+  multiedit: { filePath: 'write', 'edits[].filePath': 'write', 'edits[].newString': 'content' },
+  delete: { filePath: 'delete' },
+  remove: { filePath: 'delete' },
+  patch: { patchText: 'patch' },
+  apply_patch: { patchText: 'patch', input: 'patch' },
+  webfetch: { url: 'url' },
+}
+
+export interface ToolTarget {
+  /** Argument as named in the map */
+  arg: string
+  role: ArgRole
+  /** File path (joined with its base), command, patch, content or URL */
+  value: string
+}
+
+/** String values at `path` (`a`, `a[].b`) in `args` */
+export function argValues(args: unknown, path: string): string[] {
+  const [head, ...rest] = path.split('.')
+  const value = typeof args === 'object' && args !== null
+    ? (args as Record<string, unknown>)[head.replace(/\[\]$/, '')]
+    : undefined
+  const items = Array.isArray(value) ? value : [value]
+  if (rest.length > 0) return items.flatMap((item) => argValues(item, rest.join('.')))
+  return items.filter((item): item is string => typeof item === 'string' && item !== '')
+}
+
+/**
+ * The files and commands a tool call touches, according to `tools`.
+ * Tools without an entry have none.
+ */
+export function extractToolTargets(tool: string, args: Record<string, unknown>, tools: ToolArgMap): ToolTarget[] {
+  const targets: ToolTarget[] = []
+  for (const [arg, spec] of Object.entries(tools[tool] ?? {})) {
+    const { role, base } = typeof spec === 'string' ? { role: spec, base: undefined } : spec
+    const [dir] = base ? argValues(args, base) : []
+    for (const value of argValues(args, arg)) {
+      const joined = dir && !isAbsolute(value) && !value.startsWith('~') ? join(dir, value) : value
+      targets.push({ arg, role, value: joined })
+    }
+  }
+  return targets
+}
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { expandVariables } from './variables.js'
+import { matchPattern, checkShellPathViolation, DEFAULT_PATTERNS, DEFAULT_PROTECTED_PATHS } from './patterns.js'
+
+// ---------------------------------------------------------------------------
+// expandVariables
+// ---------------------------------------------------------------------------
+
+describe('expandVariables', () => {
+  describe('substitution', () => {
+    const cases: [string, string][] = [
+      ['T=/; rm -rf $T', 'T=/; rm -rf /'],
+      ['DIR=~/.ssh && cat "$DIR/id_rsa"', 'DIR=~/.ssh && cat "~/.ssh/id_rsa"'],
+      ['export P=.env; cat $P', 'export P=.env; cat .env'],
+      ['local d=build; rm -r ${d}/out', 'local d=build; rm -r build/out'],
+      ['declare -r X=1 Y=2; echo $X$Y', 'declare -r X=1 Y=2; echo 12'],
+      ['rm -rf ${TARGET:-/}', 'rm -rf /'],
+      ['TARGET=dist; rm -rf ${TARGET:-/}', 'TARGET=dist; rm -rf dist'],
+      ['E=; echo ${E:-empty} ${E-unset}', 'E=; echo empty '],
+      ['set -- / x; rm -rf $1', 'set -- / x; rm -rf /'],
+      ['A=a; B=$A/b; echo $B', 'A=a; B=a/b; echo a/b'],
+      ['X=1; X=2; echo $X', 'X=1; X=2; echo 2'],
+      ["X=/; echo '$X' \\$X", "X=/; echo '$X' \\$X"],
+      ['X=/\necho $X', 'X=/\necho /'],
+      ['X=/ rm -rf $X', 'X=/ rm -rf $X'],
+      ['X=/; unset X; echo $X', 'X=/; unset X; echo $X'],
+      ['D=$(pwd); rm -rf $D', 'D=$(pwd); rm -rf $D'],
+    ]
+
+    for (const [command, expected] of cases) {
+      it(`should expand: ${JSON.stringify(command)}`, () => {
+        assert.equal(expandVariables(command).command, expected)
+      })
+    }
+
+    it('should seed the environment from `initial`', () => {
+      assert.equal(expandVariables('rm -rf $HOME', { HOME: '/home/me' }).command, 'rm -rf /home/me')
+    })
+
+    it('should keep heredoc bodies as written', () => {
+      const command = 'X=1; cat <<EOF > f\n$X\nEOF'
+      assert.equal(expandVariables(command).command, 'X=1; cat <<EOF > f\n$X\nEOF')
+    })
+
+    it('should stop growing self-referencing values', () => {
+      const command = 'A=xxxxxxxx' + '; A=$A$A'.repeat(40) + '; echo $A'
+      assert.ok(expandVariables(command).command.length < 100_000)
+    })
+  })
+
+  describe('unresolved variables', () => {
+    const flagged: [string, string[]][] = [
+      ['rm -rf "$X"/', ['X']],
+      ['rm -rf $1', ['1']],
+      ['echo data > $OUT', ['OUT']],
+      ['$CMD --force', ['CMD']],
+      ['eval "$CMD"', ['CMD']],
+      ['sudo chmod -R 777 ${TARGET}', ['TARGET']],
+      ['cd /tmp && mv a $DEST', ['DEST']],
+      ['Y=1; rm -rf "$X/$Y"', ['X']],
+    ]
+
+    for (const [command, names] of flagged) {
+      it(`should flag: ${command}`, () => {
+        assert.deepStrictEqual(expandVariables(command).unresolved.map((u) => u.name), names)
+      })
+    }
+
+    const safe = [
+      'echo $UNKNOWN',
+      'ls $DIR',
+      'X=/tmp/x; rm -rf "$X"',
+      'rm -rf ${X:-build}',
+      'for f in *.log; do rm "$f"; done',
+      'while read -r line; do rm "$line"; done < list',
+      'D=$(mktemp -d); rm -rf "$D"',
+      'export CACHE; rm -rf $CACHE',
+      "rm -rf '$X'",
+      'rm -rf \\$X',
+      'echo $? $$ $#',
+    ]
+
+    for (const command of safe) {
+      it(`should not flag: ${command}`, () => {
+        assert.deepStrictEqual(expandVariables(command).unresolved, [])
+      })
+    }
+
+    it('should report the expanded segment', () => {
+      const { unresolved } = expandVariables('B=build; rm -rf $B/$X')
+      assert.deepStrictEqual(unresolved, [{ name: 'X', segment: 'rm -rf build/$X' }])
+    })
+  })
+
+  describe('expanded commands should be checked like commands', () => {
+    it('should find dangerous patterns', () => {
+      const { command } = expandVariables('T=/; rm -rf $T')
+      assert.equal(matchPattern(command, DEFAULT_PATTERNS)?.pattern.reason, 'Recursive delete from root')
+    })
+
+    it('should find protected paths', () => {
+      for (const cmd of ['DIR=~/.ssh && cat "$DIR/id_rsa"', 'export P=.env; cat $P']) {
+        const { command } = expandVariables(cmd)
+        assert.equal(checkShellPathViolation(command, DEFAULT_PROTECTED_PATHS)?.operation, 'access')
+      }
+    })
+  })
+})
@@ -0,0 +1,248 @@
+import { commandWords, parseShellCommand, type ShellSegment } from './shell.js'
+
+// ---------------------------------------------------------------------------
+// Variable expansion
+// ---------------------------------------------------------------------------
+// `T=/; rm -rf $T` never shows the dangerous value and the verb together.
+// Variables assigned within a tool call (inline, `export`, `local`,
+// `declare`, `set --`, ...) are tracked step by step and substituted into
+// later steps, so the expanded command can be checked like any other.
+// Variables we cannot resolve are reported when they sit in a dangerous
+// position, e.g. the target of `rm -rf "$X"/`.
+// ---------------------------------------------------------------------------
+
+/**
+ * Known variables: a string is a value we can substitute, null marks a
+ * variable that exists but whose value is not known statically (loop
+ * variables, `read`, command substitution results).
+ */
+export type VariableEnv = Map<string, string | null>
+
+export interface UnresolvedVariable {
+  /** Variable name without `$` */
+  name: string
+  /** Simple command (after expansion) that uses it */
+  segment: string
+}
+
+/** Builtins whose NAME=value arguments assign variables */
+const DECLARATION_BUILTINS: ReadonlySet<string> = new Set([
+  'export', 'local', 'declare', 'typeset', 'readonly',
+])
+
+/** Commands where an unknown argument decides what gets destroyed or run */
+const DANGEROUS_COMMANDS: ReadonlySet<string> = new Set([
+  'rm', 'rmdir', 'unlink', 'shred', 'truncate', 'dd', 'mv', 'chmod', 'chown', 'chgrp',
+  'eval', 'bash', 'sh', 'zsh', 'dash', 'ksh',
+])
+
+/** Redirections that write to their target */
+const WRITE_REDIRECTS = /^\d*(?:>|>>|>\||&>|&>>)$/
+
+/** Longer values are treated as unknown (A=$A$A doubles on every step) */
+const MAX_VALUE_LENGTH = 4096
+
+/** Special parameters that are never reported ($?, $$, $!, $#, $-, $0) */
+const SPECIAL_PARAMS: ReadonlySet<string> = new Set(['?', '$', '!', '#', '-', '0'])
+
+/**
+ * `$NAME`, `$1`, `$@` and `${NAME}` / `${NAME:-default}` / `${NAME-default}`
+ * / `${NAME:=default}`. Other `${...}` operators are only matched far
+ * enough to find the variable name (group 4).
+ */
+const VARIABLE_RE =
+  /\$(?:\{([A-Za-z_][A-Za-z0-9_]*|[0-9]+|[@*#?$!-])(?:(:?[-=])([^}]*))?\}|\{[#!]?([A-Za-z_][A-Za-z0-9_]*)[^}]*\}|([A-Za-z_][A-Za-z0-9_]*|[0-9@*#?$!-]))/y
+
+/**
+ * Substitute known variables in `text`, leaving single-quoted text and
+ * escaped `\$` alone. Names that are neither known nor special are passed
+ * to `onUnknown`; every name referenced is passed to `onReference`.
+ */
+function substitute(
+  text: string,
+  env: VariableEnv,
+  onUnknown: (name: string) => void,
+  onReference?: (name: string) => void,
+): string {
+  let out = ''
+  let inDouble = false
+  let i = 0
+
+  while (i < text.length) {
+    const c = text[i]
+    if (c === '\\') {
+      out += text.slice(i, i + 2)
+      i += 2
+      continue
+    }
+    if (c === '"') inDouble = !inDouble
+    if (c === "'" && !inDouble) {
+      const end = text.indexOf("'", i + 1)
+      const stop = end === -1 ? text.length : end + 1
+      out += text.slice(i, stop)
+      i = stop
+      continue
+    }
+    if (c !== '$') {
+      out += c
+      i++
+      continue
+    }
+
+    VARIABLE_RE.lastIndex = i
+    const m = VARIABLE_RE.exec(text)
+    if (!m) {
+      out += c
+      i++
+      continue
+    }
+    i = VARIABLE_RE.lastIndex
+
+    const name = m[1] ?? m[4] ?? m[5]
+    onReference?.(name)
+    const value = env.get(name)
+    const known = env.has(name)
+    if (!known && !SPECIAL_PARAMS.has(name) && m[3] === undefined) onUnknown(name)
+
+    if (m[4] !== undefined || value === null) {
+      // Unsupported operator or value not known statically
+      out += m[0]
+    } else if (m[2] !== undefined) {
+      // ${NAME:-default}: the default applies when unset (or empty with `:`)
+      const useDefault = value === undefined || (m[2].startsWith(':') && value === '')
+      out += useDefault ? m[3] : value
+    } else {
+      out += value ?? m[0]
+    }
+  }
+  return out
+}
+
+/**
+ * Names of the variables `text` expands (`$NAME`, `${NAME}`, `${NAME:-x}`),
+ * in order and without duplicates. Single-quoted text and `\$` are skipped,
+ * as are special parameters.
+ */
+export function variableReferences(text: string): string[] {
+  const names = new Set<string>()
+  substitute(text, new Map(), () => {}, (name) => {
+    if (/^[A-Za-z_]/.test(name)) names.add(name)
+  })
+  return [...names]
+}
+
+/** Value of a `NAME=value` word; null when it comes from a command substitution or is too long */
+function assignedValue(value: string): string | null {
+  return /\$\(|`/.test(value) || value.length > MAX_VALUE_LENGTH ? null : value
+}
+
+/** Apply the variable assignments a simple command makes to `env` */
+function applyAssignments(segment: ShellSegment, env: VariableEnv): void {
+  const words = segment.argv
+
+  // NAME=value on its own (NAME=value cmd only affects cmd)
+  if (words.length === 0) {
+    for (const assignment of segment.assignments) {
+      const eq = assignment.indexOf('=')
+      const name = assignment.slice(0, eq).replace(/\+$/, '').replace(/\[.*$/, '')
+      env.set(name, assignedValue(assignment.slice(eq + 1)))
+    }
+    return
+  }
+
+  const [program, ...args] = words
+  if (DECLARATION_BUILTINS.has(program)) {
+    for (const arg of args) {
+      if (arg.startsWith('-') || arg.startsWith('+')) continue
+      const eq = arg.indexOf('=')
+      if (eq === -1) {
+        // `export NAME` exposes a variable we know nothing about
+        if (!env.has(arg)) env.set(arg, null)
+      } else {
+        env.set(arg.slice(0, eq).replace(/\+$/, ''), assignedValue(arg.slice(eq + 1)))
+      }
+    }
+  } else if (program === 'set') {
+    // set -- a b / set a b assign the positional parameters
+    const params = args[0] === '--' ? args.slice(1)
+      : args.length > 0 && !/^[-+]/.test(args[0]) ? args
+      : null
+    if (params) {
+      for (let n = 1; env.has(String(n)); n++) env.delete(String(n))
+      params.forEach((value, n) => env.set(String(n + 1), value))
+      env.set('@', params.join(' '))
+      env.set('*', params.join(' '))
+    }
+  } else if (program === 'unset') {
+    for (const arg of args) if (!arg.startsWith('-')) env.delete(arg)
+  } else if (program === 'for' && args[1] === 'in') {
+    env.set(args[0], null)
+  } else if (program === 'read' || program === 'mapfile' || program === 'readarray') {
+    for (let i = 0; i < args.length; i++) {
+      if (/^-[adinNptu]$/.test(args[i])) {
+        // -a ARRAY names a variable, the other value flags take a value
+        if (args[i] === '-a' && args[i + 1]) env.set(args[i + 1], null)
+        i++
+      } else if (!args[i].startsWith('-')) {
+        env.set(args[i], null)
+      }
+    }
+  }
+}
+
+/** Names of unknown variables used where they decide what is destroyed or run */
+function dangerousUnknowns(segment: ShellSegment, env: VariableEnv): string[] {
+  const names: string[] = []
+  const collect = (text: string) => substitute(text, env, (name) => names.push(name))
+
+  const words = commandWords(segment)
+  const offset = segment.words.length - words.length
+  if (offset < segment.words.length) {
+    // The program itself
+    collect(segment.words[offset].raw)
+    if (DANGEROUS_COMMANDS.has(words[0])) {
+      for (const word of segment.words.slice(offset + 1)) {
+        if (!word.value.startsWith('-')) collect(word.raw)
+      }
+    }
+  }
+  for (const redirect of segment.redirects) {
+    if (WRITE_REDIRECTS.test(redirect.op)) collect(redirect.target)
+  }
+  return [...new Set(names)]
+}
+
+/**
+ * Expand the variables a command assigns for itself, step by step.
+ *
+ * Returns the command with known `$VAR` / `${VAR}` / `${VAR:-default}`
+ * references substituted (operators, quoting and heredoc bodies kept as
+ * written) and the unknown variables found in dangerous positions.
+ * `initial` seeds the environment, e.g. with `HOME`.
+ */
+export function expandVariables(
+  command: string,
+  initial: Record<string, string> = {},
+): { command: string; unresolved: UnresolvedVariable[] } {
+  const env: VariableEnv = new Map(Object.entries(initial))
+  const unresolved: UnresolvedVariable[] = []
+  let expanded = ''
+  let cursor = 0
+
+  for (const segment of parseShellCommand(command)) {
+    const start = command.indexOf(segment.text, cursor)
+    if (start === -1) continue
+    const text = substitute(segment.text, env, () => {})
+    expanded += command.slice(cursor, start) + text
+    cursor = start + segment.text.length
+
+    for (const step of parseShellCommand(text)) {
+      for (const name of dangerousUnknowns(step, env)) {
+        unresolved.push({ name, segment: step.text })
+      }
+      applyAssignments(step, env)
+    }
+  }
+
+  return { command: expanded + command.slice(cursor), unresolved }
+}